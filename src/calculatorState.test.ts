@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_CALCULATOR_STATE,
+  describeAssumptions,
+  parseCalculatorState,
+  serializeCalculatorState,
+  validateCalculatorState
+} from './calculatorState';
+import { DEFAULT_MARKET_SHOCK } from './lib';
+import type { CalculatorState } from './calculatorState';
+
+const withState = (changes: Partial<CalculatorState>): CalculatorState => ({ ...DEFAULT_CALCULATOR_STATE, ...changes });
+
+describe('describeAssumptions', () => {
+  it('numbers repeated contribution rules and market shocks', () => {
+    const state = withState({
+      contributionPlan: {
+        ...DEFAULT_CALCULATOR_STATE.contributionPlan,
+        rules: [
+          { id: 'a', type: 'step-up', startYear: 1, endYear: 0, value: 3 },
+          { id: 'b', type: 'pause', startYear: 5, endYear: 6, value: 0 }
+        ]
+      },
+      showSequenceRisk: true,
+      marketShocks: [{ ...DEFAULT_MARKET_SHOCK, id: 'x' }, { ...DEFAULT_MARKET_SHOCK, id: 'y', year: 3 }]
+    });
+    const labels = describeAssumptions(state).map((a) => a.label);
+    expect(labels).toEqual(expect.arrayContaining(['Contribution Rule 1', 'Contribution Rule 2', 'Market Shock 1', 'Market Shock 2']));
+    expect(new Set(labels).size).toBe(labels.length);
+  });
+});
+
+describe('validateCalculatorState', () => {
+  it('needs at least a month left on a loan that is still owed', () => {
+    const loan = DEFAULT_CALCULATOR_STATE.loan;
+    expect(validateCalculatorState({ loan: { ...loan, termYears: 0 } }).invalidFields).toEqual(['loan']);
+    expect(validateCalculatorState({ loan: { ...loan, termYears: 0.05 } }).invalidFields).toEqual(['loan']);
+    expect(validateCalculatorState({ loan: { ...loan, termYears: 1 / 12 } }).invalidFields).toEqual([]);
+    expect(validateCalculatorState({ loan: { ...loan, termYears: 0.5 } }).invalidFields).toEqual([]);
+    expect(validateCalculatorState({ loan: { ...loan, balance: 0, termYears: 0 } }).invalidFields).toEqual([]);
+  });
+
+  it("checks an additional account's contribution plan like the main one", () => {
+    const account = { id: 'a', name: 'Roth IRA', initialInvestment: 1000, monthlyContribution: 100, annualRate: 7, years: 10 };
+    const plan = { rules: [{ id: 'r', type: 'pause', startYear: 2, endYear: 3, value: 0 }], lumpSums: [] };
+    expect(validateCalculatorState({ additionalAccounts: [account] }).invalidFields).toEqual([]);
+    expect(validateCalculatorState({ additionalAccounts: [{ ...account, contributionPlan: plan }] }).invalidFields).toEqual([]);
+    expect(validateCalculatorState({ additionalAccounts: [{ ...account, contributionPlan: 'x' }] }).invalidFields).toEqual(['additionalAccounts']);
+    expect(validateCalculatorState({ additionalAccounts: [{ ...account, contributionPlan: { rules: [] } }] }).invalidFields)
+      .toEqual(['additionalAccounts']);
+  });
+
+  it('takes ages in whole years', () => {
+    expect(validateCalculatorState({ retirementAge: 65.5 }).invalidFields).toEqual(['retirementAge']);
+    expect(validateCalculatorState({ pension: { ...DEFAULT_CALCULATOR_STATE.pension, startAge: 66.5 } }).invalidFields).toEqual(['pension']);
+    expect(validateCalculatorState({ retirementAge: 67 }).state.retirementAge).toBe(67);
+  });
+});
+
+describe('parseCalculatorState', () => {
+  const state = withState({
+    mode: 'goal',
+    targetMonthlyIncome: 5000,
+    solveFor: 'years',
+    contributionPlan: {
+      rules: [{ id: 'a', type: 'step-up', startYear: 1, endYear: 0, value: 3 }],
+      lumpSums: [{ id: 'b', label: 'Bonus', year: 5, amount: 20000 }]
+    },
+    timeline: {
+      startDate: '2025-07',
+      birthYear: 1990,
+      events: [{ id: 'c', type: 'expense', label: 'Car', startYear: 2030, endYear: 2030, amount: 30000 }]
+    },
+    chartAxis: 'age',
+    additionalAccounts: [{ id: 'd', name: "Partner's 401(k)", initialInvestment: 5000, monthlyContribution: 300, annualRate: 6.5, years: 25 }],
+    benchmarks: [{ id: 'e', name: 'Bonds', color: '#10b981', annualRate: 4, series: null, startYear: 1990 }]
+  });
+
+  it('reads back the state a link was written from', () => {
+    expect(parseCalculatorState(serializeCalculatorState(state))).toEqual({ state, invalidFields: [] });
+    expect(parseCalculatorState(serializeCalculatorState(DEFAULT_CALCULATOR_STATE)).state).toEqual(DEFAULT_CALCULATOR_STATE);
+  });
+
+  it('rejects links from an unknown or future version as a whole', () => {
+    for (const version of ['0', '2', 'abc']) {
+      const params = serializeCalculatorState(state);
+      params.set('v', version);
+      expect(parseCalculatorState(params)).toEqual({ state: DEFAULT_CALCULATOR_STATE, invalidFields: ['v'] });
+    }
+  });
+
+  it('drops malformed nested lists and keeps the rest of the link', () => {
+    const params = serializeCalculatorState(state);
+    params.set('benchmarks', '[{"id":"e","name":"Bonds"}]');
+    params.set('marketShocks', '{"id":"x"}');
+    params.set('additionalAccounts', '[{"id":"d"');
+    params.set('contributionPlan', JSON.stringify({
+      ...state.contributionPlan,
+      rules: Array.from({ length: 51 }, (_, i) => ({ id: String(i), type: 'pause', startYear: 1, endYear: 2, value: 0 }))
+    }));
+    const parsed = parseCalculatorState(params);
+    expect(parsed.invalidFields).toEqual(['contributionPlan', 'marketShocks', 'additionalAccounts', 'benchmarks']);
+    expect(parsed.state).toEqual({
+      ...state,
+      contributionPlan: DEFAULT_CALCULATOR_STATE.contributionPlan,
+      marketShocks: DEFAULT_CALCULATOR_STATE.marketShocks,
+      additionalAccounts: DEFAULT_CALCULATOR_STATE.additionalAccounts,
+      benchmarks: DEFAULT_CALCULATOR_STATE.benchmarks
+    });
+  });
+});
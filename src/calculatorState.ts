@@ -0,0 +1,803 @@
+import {
+  ACCOUNT_TYPES,
+  ASSET_CLASSES,
+  CPI_SERIES,
+  CURRENCIES,
+  DEFAULT_ALLOCATION_PLAN,
+  DEFAULT_BENCHMARKS,
+  DEFAULT_CONTRIBUTION_PLAN,
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_DCA_SETTINGS,
+  DEFAULT_LOAN_SETTINGS,
+  DEFAULT_FEE_SETTINGS,
+  DEFAULT_INFLATION_SETTINGS,
+  DEFAULT_LIFE_TIMELINE,
+  DEFAULT_MARKET_SHOCK,
+  DEFAULT_PENSION_SETTINGS,
+  GOAL_UNKNOWNS,
+  HISTORICAL_SERIES,
+  LIFE_EVENT_TYPES,
+  LOCALES,
+  MAX_PROJECTION_YEARS,
+  SP500_DIVIDEND_YIELD,
+  SP500_INTEREST,
+  SP500_VOLATILITY,
+  WITHDRAWAL_STRATEGIES,
+  allocationAt,
+  applyDividendDrag,
+  applyFeeDrag,
+  applyLifeEvents,
+  averageAllocationStats,
+  blendedReturn,
+  calculateInvestmentMetrics,
+  calculateProjections,
+  calculateTargetBalance,
+  contributionAfterFees,
+  createContributionSchedule,
+  createInflationSchedule,
+  createMoneyFormat,
+  createPriceIndex,
+  createRateSchedule,
+  deflateMetrics,
+  deflateProjections,
+  dividendDrag,
+  feeDrag,
+  fxRate,
+  getDefaultAccountSettings,
+  longRunInflation,
+  normalizeAllocation,
+  solveGoal,
+  type AccountSettings,
+  type Allocation,
+  type AllocationPlan,
+  type AssetClass,
+  type AnnualRate,
+  type Benchmark,
+  type Contribution,
+  type ContributionPlan,
+  type CurrencySettings,
+  type DcaSettings,
+  type DividendSettings,
+  type ExportAssumption,
+  type FeeSettings,
+  type GoalSolution,
+  type GoalUnknown,
+  type InflationSettings,
+  type InvestmentMetrics,
+  type LifeTimeline,
+  type LoanSettings,
+  type MarketShock,
+  type MonteCarloMethod,
+  type MonthData,
+  type PensionSettings,
+  type PortfolioAccount,
+  type WithdrawalPlan,
+  type WithdrawalStrategyId
+} from './lib';
+
+// Types
+export interface CalculatorState {
+  mode: 'goal' | 'investment'; // Mode A or Mode B
+  // Mode A: Goal-based
+  goalTarget: 'income' | 'balance'; // Aim for a retirement income or a plain balance
+  targetMonthlyIncome?: number;
+  targetBalance?: number;
+  targetYears?: number;
+  solveFor: GoalUnknown; // The other inputs are held fixed
+  // Mode B: Investment-based
+  initialInvestment?: number;
+  monthlyContribution?: number;
+  investmentYears?: number;
+  // Common
+  contributionPlan: ContributionPlan; // Raises, pauses and lump sums on top of the monthly contribution
+  // When the plan starts, the investor's age and the life events along the way
+  timeline: LifeTimeline;
+  chartAxis: 'plan' | 'calendar' | 'age'; // What chart year axes count in
+  useCustomRate: boolean;
+  customInterestRate: number;
+  useAllocation: boolean; // Blend stocks, bonds and cash instead of a single rate
+  allocation: AllocationPlan;
+  showBacktest: boolean;
+  // Sequence-of-returns risk: crashes injected into the plan and reordered history
+  showSequenceRisk: boolean;
+  marketShocks: MarketShock[];
+  // Investing a windfall at once against drip-feeding it, through history
+  showDcaComparison: boolean;
+  dca: DcaSettings;
+  // Paying a loan off early against investing the spare cash
+  showDebtPayoff: boolean;
+  loan: LoanSettings;
+  simulationMethod: MonteCarloMethod;
+  volatility: number;
+  // Dividends are part of the return above, split out so they can be reinvested or paid out
+  dividends: DividendSettings;
+  // Fund, advice, platform and brokerage fees, taken out of the balance
+  fees: FeeSettings;
+  // Inflation, fixed or historical CPI
+  inflation: InflationSettings;
+  indexContributions: boolean; // Raise contributions with inflation each year
+  todaysDollars: boolean; // Show every amount in today's dollars instead of future dollars
+  // Retirement drawdown
+  showDrawdown: boolean;
+  monthlyWithdrawal: number;
+  indexWithdrawals: boolean; // Raise withdrawals with inflation each year
+  // Retirement income
+  withdrawalStrategy: WithdrawalStrategyId;
+  withdrawalRate: number;
+  retirementAge: number;
+  retirementYears: number;
+  pension: PensionSettings; // Government pension paid alongside the portfolio
+  // Account type and its tax rules
+  account: AccountSettings;
+  // Extra household accounts projected alongside the main plan
+  additionalAccounts: PortfolioAccount[];
+  // What the plan is compared against
+  benchmarks: Benchmark[];
+  // Currency amounts are in, and how they're shown
+  currency: CurrencySettings;
+}
+
+export const DEFAULT_CALCULATOR_STATE: CalculatorState = {
+  mode: 'investment',
+  goalTarget: 'income',
+  targetBalance: 1000000,
+  solveFor: 'initialInvestment',
+  initialInvestment: 10000,
+  monthlyContribution: 500,
+  investmentYears: 30,
+  contributionPlan: DEFAULT_CONTRIBUTION_PLAN,
+  timeline: DEFAULT_LIFE_TIMELINE,
+  chartAxis: 'plan',
+  useCustomRate: false,
+  customInterestRate: SP500_INTEREST,
+  useAllocation: false,
+  allocation: DEFAULT_ALLOCATION_PLAN,
+  showBacktest: false,
+  showSequenceRisk: false,
+  marketShocks: [{ id: 'retirement-crash', ...DEFAULT_MARKET_SHOCK }],
+  showDcaComparison: false,
+  dca: DEFAULT_DCA_SETTINGS,
+  showDebtPayoff: false,
+  loan: DEFAULT_LOAN_SETTINGS,
+  simulationMethod: 'parametric',
+  volatility: SP500_VOLATILITY,
+  dividends: {
+    dividendYield: SP500_DIVIDEND_YIELD,
+    reinvest: true,
+    taxRate: 0
+  },
+  fees: DEFAULT_FEE_SETTINGS,
+  inflation: DEFAULT_INFLATION_SETTINGS,
+  indexContributions: false,
+  todaysDollars: false,
+  showDrawdown: false,
+  monthlyWithdrawal: 4000,
+  indexWithdrawals: true,
+  withdrawalStrategy: 'constant-dollar',
+  withdrawalRate: 4,
+  retirementAge: 65,
+  retirementYears: 30,
+  pension: DEFAULT_PENSION_SETTINGS,
+  account: getDefaultAccountSettings('taxable'),
+  additionalAccounts: [],
+  benchmarks: DEFAULT_BENCHMARKS,
+  currency: DEFAULT_CURRENCY_SETTINGS
+};
+
+/**
+ * Length of the plan in years: the investment period or the time to goal
+ */
+export const getPlanYears = (state: CalculatorState): number =>
+  (state.mode === 'investment' ? state.investmentYears : state.targetYears) || 30;
+
+/**
+ * Retirement income settings; a pension's today's-dollar amounts are priced at the plan's end
+ */
+export const getWithdrawalPlan = (state: CalculatorState): WithdrawalPlan => ({
+  strategy: state.withdrawalStrategy,
+  withdrawalRate: state.withdrawalRate,
+  years: state.retirementYears,
+  retirementAge: state.retirementAge,
+  inflationRate: longRunInflation(state.inflation),
+  ...(state.pension.enabled && {
+    pension: state.pension,
+    priceLevel: createPriceIndex(getInflationSchedule(state))(getPlanYears(state) * 12)
+  })
+});
+
+/**
+ * Inflation month by month over the plan, then at the long-run rate through retirement
+ */
+export const getInflationSchedule = (state: CalculatorState): AnnualRate =>
+  createInflationSchedule(state.inflation, getPlanYears(state));
+
+const getContributionIndexation = (state: CalculatorState): AnnualRate =>
+  state.indexContributions ? getInflationSchedule(state) : 0;
+
+/**
+ * The monthly contribution with the contribution plan and life events applied over the plan's length
+ */
+export const getContribution = (state: CalculatorState): Contribution => applyLifeEvents(
+  createContributionSchedule(
+    state.monthlyContribution || 0,
+    state.contributionPlan,
+    getPlanYears(state),
+    getContributionIndexation(state)
+  ),
+  state.timeline
+);
+
+export interface RateModel {
+  rate: number; // Constant total return, shown to the user
+  projectionRate: AnnualRate; // What the projection compounds month by month
+  retirementRate: number; // Return earned while drawing down
+  volatility: number;
+  dividends: DividendSettings; // Dividend treatment for the main account
+  fees: FeeSettings;
+  growthRate: number; // rate less dividend and fee drag: what the balance actually compounds at
+  projectionGrowthRate: AnnualRate; // projectionRate less dividend and fee drag
+}
+
+/**
+ * Tax-advantaged accounts shelter dividends, so dividend tax only applies in a taxable account
+ */
+const getDividendSettings = (state: CalculatorState): DividendSettings => ({
+  ...state.dividends,
+  taxRate: state.account.type === 'taxable' ? state.dividends.taxRate : 0
+});
+
+/**
+ * Resolves the return assumptions for the current inputs
+ * With an allocation, the glide path drives the projection month by month,
+ * the constant rate is its average and retirement earns the final blend.
+ * Paid-out dividends, dividend tax and percentage fees slow the balance, giving the growth rates.
+ */
+export const getRateModel = (state: CalculatorState): RateModel => {
+  const dividends = getDividendSettings(state);
+  const { fees } = state;
+  const drag = dividendDrag(dividends) + feeDrag(fees);
+
+  if (state.useAllocation) {
+    const months = getPlanYears(state) * 12;
+    const average = averageAllocationStats(state.allocation, months);
+    const projectionRate = createRateSchedule(state.allocation, months);
+    return {
+      rate: average.annualRate,
+      projectionRate,
+      retirementRate: blendedReturn(allocationAt(state.allocation, months, months), state.allocation),
+      volatility: average.volatility,
+      dividends,
+      fees,
+      growthRate: average.annualRate - drag,
+      projectionGrowthRate: applyFeeDrag(applyDividendDrag(projectionRate, dividends), fees)
+    };
+  }
+
+  const rate = state.useCustomRate ? state.customInterestRate : SP500_INTEREST;
+  return {
+    rate,
+    projectionRate: rate,
+    retirementRate: rate,
+    volatility: state.volatility,
+    dividends,
+    fees,
+    growthRate: rate - drag,
+    projectionGrowthRate: rate - drag
+  };
+};
+
+export interface GoalResolution {
+  inputs: CalculatorState; // The state with the solved value filled in
+  targetBalance: number | null; // Balance the goal calls for; null in investment mode
+  solution: GoalSolution | null; // null in investment mode
+}
+
+/**
+ * Goal mode: solves for the unknown input and fills it into a copy of the state
+ * A target income is first turned into the balance that funds it. A solved return
+ * becomes a constant custom rate, with dividends and fees split out of it as usual.
+ * When the goal is out of reach the entered value stays, so there's still a plan to show.
+ */
+export const resolveGoal = (state: CalculatorState): GoalResolution => {
+  if (state.mode === 'investment') return { inputs: state, targetBalance: null, solution: null };
+
+  const rateModel = getRateModel(state);
+  const targetBalance = state.goalTarget === 'income'
+    ? calculateTargetBalance(state.targetMonthlyIncome || 0, rateModel.retirementRate, getWithdrawalPlan(state))
+    : state.targetBalance || 0;
+  const solution = solveGoal({
+    targetBalance,
+    initialInvestment: state.initialInvestment || 0,
+    monthlyContribution: state.monthlyContribution || 0,
+    contributionPlan: state.contributionPlan,
+    contributionIndexation: getContributionIndexation(state),
+    years: getPlanYears(state),
+    annualRate: rateModel.projectionGrowthRate,
+    fees: state.fees,
+    timeline: state.timeline
+  }, state.solveFor);
+
+  const value = solution.value;
+  if (value === null) return { inputs: state, targetBalance, solution };
+
+  const solved: Record<GoalUnknown, Partial<CalculatorState>> = {
+    initialInvestment: { initialInvestment: value },
+    monthlyContribution: { monthlyContribution: value },
+    // A goal that's already met keeps the entered time, so there's still a projection
+    years: { targetYears: value || state.targetYears },
+    annualRate: {
+      useAllocation: false,
+      useCustomRate: true,
+      customInterestRate: value + dividendDrag(rateModel.dividends) + feeDrag(rateModel.fees)
+    }
+  };
+  return { inputs: { ...state, ...solved[solution.unknown] }, targetBalance, solution };
+};
+
+export interface PlanResult {
+  inputs: CalculatorState; // With goal mode's unknown filled in
+  rateModel: RateModel; // For the inputs above
+  inflation: AnnualRate; // Month by month, for today's dollars
+  goal: GoalSolution | null; // null in investment mode
+  initialInvestment: number;
+  years: number;
+  targetBalance: number | null; // Balance the goal calls for; null in investment mode
+  projections: MonthData[];
+  metrics: InvestmentMetrics;
+}
+
+/**
+ * Projects the main plan for a calculator state
+ * Goal mode first solves for whichever input is unknown
+ */
+export const calculatePlan = (state: CalculatorState): PlanResult => {
+  const { inputs, targetBalance, solution } = resolveGoal(state);
+  const rateModel = getRateModel(inputs);
+  const initialInvestment = inputs.initialInvestment || 0;
+  const years = getPlanYears(inputs);
+  const monthlyContribution = getContribution(inputs);
+  const inflation = getInflationSchedule(inputs);
+  const projections = calculateProjections(
+    initialInvestment,
+    monthlyContribution,
+    rateModel.projectionRate,
+    years,
+    rateModel.dividends,
+    inputs.benchmarks,
+    rateModel.fees,
+    inflation
+  );
+
+  return {
+    inputs,
+    rateModel,
+    inflation,
+    goal: solution,
+    initialInvestment,
+    years,
+    targetBalance,
+    projections,
+    metrics: calculateInvestmentMetrics(
+      projections,
+      initialInvestment,
+      contributionAfterFees(monthlyContribution, rateModel.fees),
+      rateModel.growthRate,
+      inputs.mode === 'goal' && inputs.goalTarget === 'income' ? inputs.targetMonthlyIncome : undefined,
+      getWithdrawalPlan(inputs)
+    )
+  };
+};
+
+/**
+ * A plan's projections and metrics re-expressed in today's dollars, for display
+ * Everything else (goal, target balance, rates) is left as it is
+ */
+export const planInTodaysDollars = (plan: PlanResult): PlanResult => ({
+  ...plan,
+  projections: deflateProjections(plan.projections, plan.inflation),
+  metrics: deflateMetrics(
+    plan.metrics,
+    plan.projections.length,
+    plan.inflation,
+    plan.initialInvestment,
+    contributionAfterFees(getContribution(plan.inputs), plan.rateModel.fees),
+    plan.rateModel.growthRate
+  )
+});
+
+/**
+ * The inputs behind a plan as label/value pairs, for exports and reports
+ * Only the settings that affect the current mode and rate choice are listed;
+ * repeated settings such as contribution rules are numbered
+ */
+export const describeAssumptions = (
+  state: CalculatorState,
+  rateModel: RateModel = getRateModel(state)
+): ExportAssumption[] => {
+  // Amounts are listed in the plan currency, as they were entered
+  const code = state.currency.currency;
+  const format = createMoneyFormat({ ...state.currency, displayCurrency: code });
+  const money = format.full;
+  const assumptions: ExportAssumption[] = [
+    { label: 'Currency', value: code },
+    { label: 'Mode', value: state.mode === 'investment' ? 'Investment (I have $X)' : 'Goal (I want $X)' }
+  ];
+
+  if (state.mode === 'investment') {
+    assumptions.push(
+      { label: `Initial Investment (${code})`, value: state.initialInvestment || 0 },
+      { label: `Monthly Contribution (${code})`, value: state.monthlyContribution || 0 },
+      { label: 'Investment Period (years)', value: state.investmentYears || 30 }
+    );
+  } else {
+    assumptions.push(
+      state.goalTarget === 'income'
+        ? { label: `Target Monthly Income (${code})`, value: state.targetMonthlyIncome || 0 }
+        : { label: `Target Balance (${code})`, value: state.targetBalance || 0 },
+      { label: 'Solved For', value: GOAL_UNKNOWNS[state.solveFor].label },
+      { label: `Initial Investment (${code})`, value: Math.round(state.initialInvestment || 0) },
+      { label: `Monthly Contribution (${code})`, value: Math.round(state.monthlyContribution || 0) },
+      { label: 'Time to Goal (years)', value: Math.round((state.targetYears || 30) * 100) / 100 }
+    );
+  }
+
+  state.contributionPlan.rules.forEach((rule, i) => {
+    const span = rule.endYear === 0 ? `from year ${rule.startYear}` : `years ${rule.startYear}-${rule.endYear}`;
+    assumptions.push({
+      label: `Contribution Rule ${i + 1}`,
+      value: rule.type === 'step-up'
+        ? `+${rule.value}% a year, ${span}`
+        : rule.type === 'pause'
+          ? `Paused ${span}`
+          : `${money(rule.value)}/mo from year ${rule.startYear}`
+    });
+  });
+  for (const lumpSum of state.contributionPlan.lumpSums) {
+    assumptions.push({ label: `Lump Sum: ${lumpSum.label}`, value: `${money(lumpSum.amount)} in year ${lumpSum.year}` });
+  }
+
+  assumptions.push({ label: 'Plan Start', value: state.timeline.startDate });
+  if (state.timeline.birthYear !== null) {
+    assumptions.push({ label: 'Birth Year', value: state.timeline.birthYear });
+  }
+  for (const event of state.timeline.events) {
+    const span = event.endYear > event.startYear ? `${event.startYear}-${event.endYear}` : `in ${event.startYear}`;
+    assumptions.push({
+      label: `Life Event: ${event.label}`,
+      value: event.type === 'withdrawal'
+        ? `${money(event.amount)} withdrawn in ${event.startYear}`
+        : event.type === 'expense'
+          ? `${money(event.amount)} a year, ${span}`
+          : event.type === 'part-time'
+            ? `Contributions at ${event.amount}%, ${span}`
+            : `No contributions, ${span}`
+    });
+  }
+
+  if (state.useAllocation) {
+    const weights = (allocation: Allocation) => {
+      const normalized = normalizeAllocation(allocation);
+      return (Object.keys(ASSET_CLASSES) as AssetClass[])
+        .map((key) => `${format.percent(normalized[key], 0)} ${ASSET_CLASSES[key].label.toLowerCase()}`)
+        .join(', ');
+    };
+    assumptions.push(
+      { label: 'Return Model', value: state.allocation.glidePath ? 'Asset allocation with glide path' : 'Asset allocation' },
+      { label: state.allocation.glidePath ? 'Starting Allocation' : 'Allocation', value: weights(state.allocation.start) }
+    );
+    if (state.allocation.glidePath) {
+      assumptions.push({ label: 'Ending Allocation', value: weights(state.allocation.end) });
+    }
+  } else {
+    assumptions.push({ label: 'Return Model', value: state.useCustomRate ? 'Custom rate' : 'S&P 500 average' });
+  }
+
+  assumptions.push(
+    { label: 'Annual Return (%)', value: Math.round(rateModel.rate * 100) / 100 },
+    { label: 'Annual Volatility (%)', value: Math.round(rateModel.volatility * 100) / 100 },
+    { label: 'Dividend Yield (%)', value: state.dividends.dividendYield },
+    { label: 'Dividends', value: state.dividends.reinvest ? 'Reinvested' : 'Paid out' },
+    { label: 'Dividend Tax (%)', value: rateModel.dividends.taxRate },
+    { label: 'Expense Ratio (%)', value: state.fees.expenseRatio },
+    { label: 'Advisor Fee (%)', value: state.fees.advisorFee },
+    { label: `Platform Fee (${code}/yr)`, value: state.fees.platformFee },
+    { label: `Transaction Fee (${code} per contribution)`, value: state.fees.transactionFee },
+    state.inflation.series
+      ? { label: 'Inflation', value: `${CPI_SERIES[state.inflation.series].label} from ${state.inflation.startYear}` }
+      : { label: 'Inflation (%)', value: state.inflation.rate },
+    { label: 'Contributions Indexed to Inflation', value: state.indexContributions ? 'Yes' : 'No' },
+    { label: 'Amounts In', value: state.todaysDollars ? "Today's dollars" : 'Future dollars' },
+    ...(state.currency.displayCurrency === code ? [] : [{
+      label: 'Shown In',
+      value: `${state.currency.displayCurrency} at ${fxRate(state.currency).toFixed(4)} per ${code}`
+    }]),
+    ...state.benchmarks.map((benchmark) => benchmark.series
+      ? { label: `Benchmark: ${benchmark.name}`, value: `${HISTORICAL_SERIES[benchmark.series].label} from ${benchmark.startYear}` }
+      : { label: `Benchmark: ${benchmark.name} (%)`, value: benchmark.annualRate }),
+    { label: 'Account Type', value: ACCOUNT_TYPES[state.account.type].label },
+    { label: 'Withdrawal Strategy', value: WITHDRAWAL_STRATEGIES[state.withdrawalStrategy].label },
+    { label: 'Withdrawal Rate (%)', value: state.withdrawalRate },
+    { label: 'Retirement Age', value: state.retirementAge },
+    { label: 'Retirement Length (years)', value: state.retirementYears }
+  );
+
+  if (state.pension.enabled) {
+    assumptions.push(
+      { label: 'Pension Start Age', value: state.pension.startAge },
+      { label: `Full Pension (${code}/mo, today's dollars)`, value: state.pension.monthlyAmount },
+      {
+        label: 'Pension Means Test',
+        value: state.pension.meansTest === 'au-assets'
+          ? `Australian assets test, ${state.pension.couple ? 'couple' : 'single'}, ${state.pension.homeowner ? 'homeowner' : 'non-homeowner'}`
+          : 'None'
+      }
+    );
+    if (state.pension.meansTest === 'au-assets') {
+      assumptions.push({ label: `Other Assessable Assets (${code})`, value: state.pension.otherAssets });
+    }
+  }
+
+  if (state.showSequenceRisk) {
+    state.marketShocks.forEach((shock, i) => {
+      assumptions.push({
+        label: `Market Shock ${i + 1}`,
+        value: `-${shock.drop}% in ${shock.phase} year ${shock.year}, ${shock.recoveryYears > 0 ? `recovering over ${shock.recoveryYears} years` : 'never recovered'}`
+      });
+    });
+  }
+
+  if (state.showDcaComparison) {
+    assumptions.push(
+      { label: `Windfall (${code})`, value: state.dca.amount },
+      { label: 'DCA Period (months)', value: state.dca.months },
+      { label: 'DCA Holding Period (years)', value: state.dca.holdYears },
+      { label: 'Cash Rate While Waiting (%)', value: state.dca.cashRate }
+    );
+  }
+
+  if (state.showDebtPayoff) {
+    assumptions.push(
+      { label: `Loan Balance (${code})`, value: state.loan.balance },
+      { label: 'Loan Interest Rate (%)', value: state.loan.rate },
+      { label: 'Loan Term Left (years)', value: state.loan.termYears },
+      { label: `Spare Cash (${code}/mo)`, value: state.loan.extraPayment },
+      { label: 'Tax on Investment Returns (%)', value: state.loan.taxRate }
+    );
+  }
+
+  for (const account of state.additionalAccounts) {
+    assumptions.push({
+      label: `Additional Account: ${account.name}`,
+      value: `${money(account.initialInvestment)} + ${money(account.monthlyContribution)}/mo at ${account.annualRate}% for ${account.years} years`
+    });
+  }
+
+  return assumptions;
+};
+
+// Bumped whenever a field changes meaning, so old links can be migrated instead of misread
+const URL_STATE_VERSION = 1;
+const VERSION_PARAM = 'v';
+
+// Validators for values decoded from a URL
+type Validator = (value: unknown) => boolean;
+
+const number = (min = -Infinity, max = Infinity): Validator =>
+  (value) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const integer = (min = -Infinity, max = Infinity): Validator =>
+  (value) => number(min, max)(value) && Number.isInteger(value);
+const boolean: Validator = (value) => typeof value === 'boolean';
+const string = (maxLength: number): Validator =>
+  (value) => typeof value === 'string' && value.length <= maxLength;
+const oneOf = (options: readonly string[]): Validator =>
+  (value) => typeof value === 'string' && options.includes(value);
+const shape = (fields: Record<string, Validator>): Validator =>
+  (value) => typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.entries(fields).every(([key, check]) => check((value as Record<string, unknown>)[key]));
+const record = (keys: readonly string[], check: Validator): Validator =>
+  shape(Object.fromEntries(keys.map((key) => [key, check])));
+const listOf = (check: Validator, maxLength: number): Validator =>
+  (value) => Array.isArray(value) && value.length <= maxLength && value.every(check);
+const nullable = (check: Validator): Validator => (value) => value === null || check(value);
+const optional = (check: Validator): Validator => (value) => value === undefined || check(value);
+const hexColor: Validator = (value) => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+const yearMonth: Validator = (value) => typeof value === 'string' && /^\d{4}-(0[1-9]|1[0-2])$/.test(value);
+
+const amount = number(0, 1e12);
+const age = integer(0, 120);
+const percentage = number(0, 100);
+const rate = number(-100, 100);
+const years = number(0, MAX_PROJECTION_YEARS);
+const calendarYear = number(1900, 2200);
+const contributionPlan = shape({
+  rules: listOf(shape({
+    id: string(64),
+    type: oneOf(['step-up', 'pause', 'set-amount']),
+    startYear: years,
+    endYear: years,
+    value: amount
+  }), 50),
+  lumpSums: listOf(shape({ id: string(64), label: string(100), year: years, amount }), 50)
+});
+const assetClasses = Object.keys(ASSET_CLASSES);
+const currencyCodes = Object.keys(CURRENCIES);
+
+const STATE_VALIDATORS: Record<keyof CalculatorState, Validator> = {
+  mode: oneOf(['goal', 'investment']),
+  goalTarget: oneOf(['income', 'balance']),
+  targetMonthlyIncome: amount,
+  targetBalance: amount,
+  targetYears: years,
+  solveFor: oneOf(Object.keys(GOAL_UNKNOWNS)),
+  initialInvestment: amount,
+  monthlyContribution: amount,
+  investmentYears: years,
+  contributionPlan,
+  timeline: shape({
+    startDate: yearMonth,
+    birthYear: nullable(calendarYear),
+    events: listOf(shape({
+      id: string(64),
+      type: oneOf(Object.keys(LIFE_EVENT_TYPES)),
+      label: string(100),
+      startYear: calendarYear,
+      endYear: calendarYear,
+      amount
+    }), 50)
+  }),
+  chartAxis: oneOf(['plan', 'calendar', 'age']),
+  useCustomRate: boolean,
+  customInterestRate: rate,
+  useAllocation: boolean,
+  allocation: shape({
+    assumptions: record(assetClasses, shape({ expectedReturn: rate, volatility: number(0, 100) })),
+    start: record(assetClasses, percentage),
+    end: record(assetClasses, percentage),
+    glidePath: boolean
+  }),
+  showBacktest: boolean,
+  showSequenceRisk: boolean,
+  marketShocks: listOf(shape({
+    id: string(64),
+    phase: oneOf(['accumulation', 'retirement']),
+    year: years,
+    drop: percentage,
+    recoveryYears: years
+  }), 20),
+  showDcaComparison: boolean,
+  dca: shape({ amount, months: number(1, 120), holdYears: years, cashRate: rate }),
+  showDebtPayoff: boolean,
+  loan: (value) => shape({ balance: amount, rate: percentage, termYears: years, extraPayment: amount, taxRate: percentage })(value) &&
+    // A balance still owed needs at least a month left to repay it
+    ((value as LoanSettings).balance === 0 || (value as LoanSettings).termYears * 12 >= 1),
+  simulationMethod: oneOf(['parametric', 'bootstrap']),
+  volatility: number(0, 100),
+  dividends: shape({ dividendYield: percentage, reinvest: boolean, taxRate: percentage }),
+  fees: shape({ expenseRatio: percentage, advisorFee: percentage, platformFee: amount, transactionFee: amount }),
+  inflation: shape({ rate, series: nullable(oneOf(Object.keys(CPI_SERIES))), startYear: number(1900, 2100) }),
+  indexContributions: boolean,
+  todaysDollars: boolean,
+  showDrawdown: boolean,
+  monthlyWithdrawal: amount,
+  indexWithdrawals: boolean,
+  withdrawalStrategy: oneOf(Object.keys(WITHDRAWAL_STRATEGIES)),
+  withdrawalRate: percentage,
+  retirementAge: age,
+  retirementYears: years,
+  pension: shape({
+    enabled: boolean,
+    startAge: age,
+    monthlyAmount: amount,
+    meansTest: oneOf(['none', 'au-assets']),
+    couple: boolean,
+    homeowner: boolean,
+    otherAssets: amount
+  }),
+  account: shape({
+    type: oneOf(Object.keys(ACCOUNT_TYPES)),
+    annualContributionCap: amount,
+    employerMatchRate: number(0, 1000),
+    employerMatchCap: amount,
+    contributionTaxRate: percentage,
+    earningsTaxRate: percentage,
+    withdrawalTaxRate: percentage
+  }),
+  additionalAccounts: listOf(shape({
+    id: string(64),
+    name: string(100),
+    initialInvestment: amount,
+    monthlyContribution: amount,
+    annualRate: rate,
+    years,
+    contributionPlan: optional(contributionPlan)
+  }), 20),
+  benchmarks: listOf(shape({
+    id: string(64),
+    name: string(100),
+    color: hexColor,
+    annualRate: rate,
+    series: nullable(oneOf(Object.keys(HISTORICAL_SERIES))),
+    startYear: calendarYear
+  }), 20),
+  currency: shape({
+    currency: oneOf(currencyCodes),
+    displayCurrency: oneOf(currencyCodes),
+    locale: oneOf(LOCALES.map((l) => l.tag)),
+    fxRates: record(currencyCodes, number(1e-6, 1e6))
+  })
+};
+
+const STATE_KEYS = Object.keys(STATE_VALIDATORS) as (keyof CalculatorState)[];
+
+/**
+ * Encodes the calculator state as URL query parameters
+ * Plain values are written as-is for readable links; nested settings as JSON
+ */
+export const serializeCalculatorState = (state: CalculatorState): URLSearchParams => {
+  const params = new URLSearchParams();
+  params.set(VERSION_PARAM, String(URL_STATE_VERSION));
+  for (const key of STATE_KEYS) {
+    const value = state[key];
+    if (value === undefined) continue;
+    params.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return params;
+};
+
+const decode = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw; // Plain strings such as the mode aren't JSON
+  }
+};
+
+export interface ParsedCalculatorState {
+  state: CalculatorState;
+  invalidFields: string[]; // Fields that were present but rejected
+}
+
+/**
+ * Checks every field of an untrusted state (a link, a saved scenario) on its own
+ * Missing fields keep their defaults; invalid ones are reported and replaced by the default
+ */
+export const validateCalculatorState = (
+  values: Partial<Record<keyof CalculatorState, unknown>>,
+  defaults: CalculatorState = DEFAULT_CALCULATOR_STATE
+): ParsedCalculatorState => {
+  const state: CalculatorState = { ...defaults };
+  const invalidFields: string[] = [];
+
+  for (const key of STATE_KEYS) {
+    const value = values[key];
+    if (value === undefined) continue;
+    if (STATE_VALIDATORS[key](value)) {
+      Object.assign(state, { [key]: value });
+    } else {
+      invalidFields.push(key);
+    }
+  }
+
+  return { state, invalidFields };
+};
+
+/**
+ * Restores the calculator state from URL query parameters
+ * Links from an unknown version are rejected as a whole rather than half-read
+ */
+export const parseCalculatorState = (
+  params: URLSearchParams,
+  defaults: CalculatorState = DEFAULT_CALCULATOR_STATE
+): ParsedCalculatorState => {
+  const version = params.get(VERSION_PARAM);
+  if (version !== null && Number(version) !== URL_STATE_VERSION) {
+    return { state: { ...defaults }, invalidFields: [VERSION_PARAM] };
+  }
+
+  const values: Partial<Record<keyof CalculatorState, unknown>> = {};
+  for (const key of STATE_KEYS) {
+    const raw = params.get(key);
+    if (raw !== null) values[key] = decode(raw);
+  }
+  return validateCalculatorState(values, defaults);
+};
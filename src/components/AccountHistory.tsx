@@ -0,0 +1,202 @@
+import { useMemo } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { monthLabel, trackPlan, type HistoryParseResult, type MoneyFormat } from '../lib';
+import { getContribution, getPlanYears, type CalculatorState, type RateModel } from '../calculatorState';
+import { MetricCard } from './fields';
+
+export type AccountHistory = HistoryParseResult & { fileName: string };
+
+/**
+ * Importing an account history CSV, with any rows that couldn't be read
+ */
+export const AccountHistorySettings: React.FC<{
+  accountHistory: AccountHistory | null;
+  onImport: (file: File) => void;
+  onClear: () => void;
+}> = ({ accountHistory, onImport, onClear }) => (
+  <div className="mb-6">
+    <label className="block text-sm font-semibold text-slate-200 mb-3">
+      Track Actual Results
+    </label>
+    <label className="block w-full p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200 text-center cursor-pointer">
+      {accountHistory ? `📄 ${accountHistory.fileName}` : '+ Import Account History (CSV)'}
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = ''; // Allow re-importing the same file after fixing it
+        }}
+      />
+    </label>
+    {accountHistory && accountHistory.errors.length > 0 && (
+      <div className="mt-3 p-3 bg-red-500/10 border-2 border-red-500/50 rounded-lg text-xs text-slate-200">
+        <div className="font-semibold text-red-400 mb-1">
+          {accountHistory.entries.length > 0
+            ? `${accountHistory.errors.length} problem${accountHistory.errors.length === 1 ? '' : 's'} found; those rows were skipped`
+            : "This file couldn't be imported"}
+        </div>
+        <ul className="space-y-1">
+          {accountHistory.errors.slice(0, 8).map((error, i) => (
+            <li key={i}>Line {error.row}: {error.message}</li>
+          ))}
+        </ul>
+        {accountHistory.errors.length > 8 && (
+          <div className="mt-1 text-slate-400">…and {accountHistory.errors.length - 8} more</div>
+        )}
+      </div>
+    )}
+    {accountHistory && (
+      <button
+        onClick={onClear}
+        className="mt-2 text-xs text-slate-400 hover:text-red-400"
+      >
+        Clear history
+      </button>
+    )}
+    <div className="text-xs text-slate-400 mt-2">
+      Columns: Date (YYYY-MM-DD), Balance and optionally Contributions paid in since the previous row.
+      The plan is compared from the first date.
+    </div>
+  </div>
+);
+
+/**
+ * The imported history against the plan, started on the history's first date
+ * Renders nothing until a history with at least one entry is imported
+ */
+export const PlanTrackingPanel: React.FC<{
+  accountHistory: AccountHistory | null;
+  planInputs: CalculatorState;
+  rateModel: RateModel;
+  todaysDollars: boolean;
+  money: MoneyFormat;
+}> = ({ accountHistory, planInputs, rateModel, todaysDollars, money }) => {
+  const initialInvestment = planInputs.initialInvestment || 0;
+  const planYears = getPlanYears(planInputs);
+  // Only rerun when the history or the plan changes
+  const planTracking = useMemo(() => accountHistory && trackPlan(
+    accountHistory.entries,
+    initialInvestment,
+    getContribution(planInputs),
+    rateModel.projectionRate,
+    planYears,
+    rateModel.dividends,
+    rateModel.fees
+  ), [accountHistory, initialInvestment, planInputs, planYears, rateModel]);
+  if (!planTracking) return null;
+
+  // Several entries in one month plot as that month's latest balance
+  const actualByMonth = new Map(planTracking.points.map((p) => [p.month, p.actual]));
+  const { latest, reprojection } = planTracking;
+  const trackingChartData = Array.from({ length: planYears * 12 + 1 }, (_, month) => ({
+    month,
+    date: monthLabel(planTracking.start, month),
+    planned: month === 0 ? initialInvestment : planTracking.plan[month - 1]?.balance,
+    actual: actualByMonth.get(month),
+    reprojected: month === latest.month
+      ? latest.actual
+      : month > latest.month ? reprojection[month - latest.month - 1]?.balance : undefined
+  }));
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">📍</span>
+        Plan vs Reality
+      </h3>
+      {todaysDollars && (
+        <p className="text-sm text-slate-400 -mt-4 mb-6">
+          Your statements are in actual dollars, so this comparison is too.
+        </p>
+      )}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <MetricCard
+          title="Actual Balance"
+          value={money.short(planTracking.latest.actual)}
+          subtitle={`As of ${planTracking.latest.date}`}
+        />
+        <MetricCard
+          title="Planned Balance"
+          value={money.short(planTracking.latest.planned)}
+          subtitle={`${money.full(planTracking.latest.contributions)} of ${money.full(planTracking.latest.plannedContributions)} planned contributions`}
+        />
+        <MetricCard
+          title={planTracking.status === 'ahead' ? 'Ahead of Plan' : planTracking.status === 'behind' ? 'Behind Plan' : 'On Track'}
+          value={`${planTracking.difference >= 0 ? '+' : '-'}${money.short(Math.abs(planTracking.difference))}`}
+          subtitle={planTracking.latest.planned > 0
+            ? `${((planTracking.difference / planTracking.latest.planned) * 100).toFixed(1)}% vs plan`
+            : undefined}
+          highlight={planTracking.status !== 'behind'}
+        />
+        <MetricCard
+          title="Re-Projected Final"
+          value={money.short(planTracking.reprojectedFinalBalance)}
+          subtitle={`vs ${money.short(planTracking.plannedFinalBalance)} planned`}
+        />
+      </div>
+      <div className="h-[350px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={trackingChartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="date" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              minTickGap={40}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value) => money.full(Number(value))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <ReferenceLine 
+              x={planTracking.latest.date.slice(0, 7)} 
+              stroke="#a0aec0" 
+              strokeDasharray="3 3"
+              label={{ value: 'Today', fill: '#a0aec0', position: 'top' }}
+            />
+            <Line 
+              type="monotone" 
+              dataKey="planned" 
+              stroke="#3b82f6" 
+              strokeWidth={2}
+              dot={false}
+              name="Original Plan"
+            />
+            <Line 
+              type="monotone" 
+              dataKey="actual" 
+              stroke="#10b981" 
+              strokeWidth={3}
+              connectNulls
+              name="Actual Balance"
+            />
+            <Line 
+              type="monotone" 
+              dataKey="reprojected" 
+              stroke="#f59e0b" 
+              strokeWidth={2}
+              strokeDasharray="5 5"
+              dot={false}
+              name="Re-Projected"
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
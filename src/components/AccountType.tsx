@@ -0,0 +1,94 @@
+import { ACCOUNT_TYPES, getDefaultAccountSettings, type AccountType, type MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * Account type with its contribution caps, employer match and tax rates
+ */
+export const AccountTypeSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const accountInfo = ACCOUNT_TYPES[state.account.type];
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Account Type
+      </label>
+      <select
+        value={state.account.type}
+        onChange={(e) => setState({ ...state, account: getDefaultAccountSettings(e.target.value as AccountType) })}
+        className="w-full px-4 py-3 mb-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+      >
+        {Object.values(ACCOUNT_TYPES).map((type) => (
+          <option key={type.id} value={type.id}>{type.label}</option>
+        ))}
+      </select>
+      <div className="text-xs text-slate-400 mb-4">{accountInfo.description}</div>
+      <div className="grid grid-cols-2 gap-x-3">
+        <InputField
+          label="Contribution Cap"
+          value={state.account.annualContributionCap}
+          onChange={(v) => setState({ ...state, account: { ...state.account, annualContributionCap: v } })}
+          prefix={money.symbol}
+          suffix="/yr"
+          min={0}
+          step={500}
+        />
+        <InputField
+          label="Employer Match"
+          value={state.account.employerMatchRate}
+          onChange={(v) => setState({ ...state, account: { ...state.account, employerMatchRate: v } })}
+          suffix="%"
+          min={0}
+          max={200}
+          step={5}
+        />
+        <InputField
+          label="Match Cap"
+          value={state.account.employerMatchCap}
+          onChange={(v) => setState({ ...state, account: { ...state.account, employerMatchCap: v } })}
+          prefix={money.symbol}
+          suffix="/yr"
+          min={0}
+          step={500}
+        />
+        <InputField
+          label="Contributions Tax"
+          value={state.account.contributionTaxRate}
+          onChange={(v) => setState({ ...state, account: { ...state.account, contributionTaxRate: v } })}
+          suffix="%"
+          min={0}
+          max={60}
+          step={1}
+        />
+        <InputField
+          label="Earnings Tax"
+          value={state.account.earningsTaxRate}
+          onChange={(v) => setState({ ...state, account: { ...state.account, earningsTaxRate: v } })}
+          suffix="%"
+          min={0}
+          max={60}
+          step={1}
+        />
+        <InputField
+          label="Withdrawal Tax"
+          value={state.account.withdrawalTaxRate}
+          onChange={(v) => setState({ ...state, account: { ...state.account, withdrawalTaxRate: v } })}
+          suffix="%"
+          min={0}
+          max={60}
+          step={1}
+        />
+      </div>
+      <div className="text-xs text-slate-400">
+        {accountInfo.withdrawalTaxBasis === 'gains'
+          ? 'Withdrawal tax applies to gains only.'
+          : 'Withdrawal tax applies to the whole balance.'}{' '}
+        Caps of 0 mean no limit.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,270 @@
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  ASSET_CLASSES,
+  SP500_DIVIDEND_YIELD,
+  SP500_INTEREST,
+  SP500_PRICE_RETURN,
+  allocationAt,
+  blendedReturn,
+  type AllocationPlan,
+  type AssetClass,
+  type MoneyFormat
+} from '../lib';
+import type { CalculatorState, RateModel } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Annual return: the S&P 500 average, a custom rate or an asset allocation with a glide path
+ */
+export const ReturnRateSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  currentRate: number;
+  money: MoneyFormat;
+}> = ({ state, setState, currentRate, money }) => {
+  const updateAllocation = (changes: Partial<AllocationPlan>) => setState({
+    ...state,
+    allocation: { ...state.allocation, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Annual Return Rate
+      </label>
+      <div className="space-y-3">
+        <button
+          onClick={() => setState({ ...state, useCustomRate: false, useAllocation: false })}
+          className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+            !state.useCustomRate && !state.useAllocation
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-semibold text-white">S&P 500 Average</div>
+              <div className="text-xs text-slate-400 mt-1">
+                {SP500_PRICE_RETURN}% price growth + {SP500_DIVIDEND_YIELD}% dividends
+              </div>
+            </div>
+            <div className="text-2xl font-bold text-blue-400">{SP500_INTEREST}%</div>
+          </div>
+        </button>
+
+        <button
+          onClick={() => setState({ ...state, useCustomRate: true, useAllocation: false })}
+          className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+            state.useCustomRate && !state.useAllocation
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white mb-2">Custom Rate</div>
+          {state.useCustomRate && !state.useAllocation && (
+            <InputField
+              label=""
+              value={state.customInterestRate}
+              onChange={(v) => setState({ ...state, customInterestRate: v })}
+              suffix="%"
+              min={0}
+              max={50}
+              step={0.1}
+            />
+          )}
+        </button>
+
+        <button
+          onClick={() => setState({ ...state, useAllocation: true })}
+          className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+            state.useAllocation
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="font-semibold text-white">Asset Allocation</div>
+              <div className="text-xs text-slate-400 mt-1">Stocks, bonds &amp; cash with a glide path</div>
+            </div>
+            {state.useAllocation && (
+              <div className="text-2xl font-bold text-blue-400">{money.percent(currentRate)}</div>
+            )}
+          </div>
+        </button>
+      </div>
+
+      {state.useAllocation && (
+        <div className="mt-4">
+          {(Object.keys(ASSET_CLASSES) as AssetClass[]).map((key) => (
+            <div key={key} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+              <div className="flex items-center gap-2 mb-4">
+                <span className="w-3 h-3 rounded-full" style={{ background: ASSET_CLASSES[key].color }} />
+                <span className="font-semibold text-white">{ASSET_CLASSES[key].label}</span>
+              </div>
+              <div className="grid grid-cols-2 gap-x-3">
+                <InputField
+                  label={state.allocation.glidePath ? 'Today' : 'Weight'}
+                  value={state.allocation.start[key]}
+                  onChange={(v) => updateAllocation({ start: { ...state.allocation.start, [key]: v } })}
+                  suffix="%"
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+                {state.allocation.glidePath && (
+                  <InputField
+                    label="At End"
+                    value={state.allocation.end[key]}
+                    onChange={(v) => updateAllocation({ end: { ...state.allocation.end, [key]: v } })}
+                    suffix="%"
+                    min={0}
+                    max={100}
+                    step={5}
+                  />
+                )}
+                <InputField
+                  label="Return"
+                  value={state.allocation.assumptions[key].expectedReturn}
+                  onChange={(v) => updateAllocation({
+                    assumptions: {
+                      ...state.allocation.assumptions,
+                      [key]: { ...state.allocation.assumptions[key], expectedReturn: v }
+                    }
+                  })}
+                  suffix="%"
+                  step={0.1}
+                />
+                <InputField
+                  label="Volatility"
+                  value={state.allocation.assumptions[key].volatility}
+                  onChange={(v) => updateAllocation({
+                    assumptions: {
+                      ...state.allocation.assumptions,
+                      [key]: { ...state.allocation.assumptions[key], volatility: v }
+                    }
+                  })}
+                  suffix="%"
+                  min={0}
+                  step={0.1}
+                />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => updateAllocation({ glidePath: !state.allocation.glidePath })}
+            className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+              state.allocation.glidePath
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+            }`}
+          >
+            <div className="font-semibold text-white text-sm">
+              {state.allocation.glidePath ? 'Glide Path On' : 'Glide Path Off'}
+            </div>
+            <div className="text-xs text-slate-400 mt-1">
+              Shift gradually from today's mix to the end mix, like a target-date fund
+            </div>
+          </button>
+          <div className="text-xs text-slate-400 mt-2">
+            Weights are scaled to add up to 100%.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Asset mix and blended return for each year of the plan
+ */
+export const AllocationPanel: React.FC<{
+  allocation: AllocationPlan;
+  months: number;
+  rateModel: RateModel;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ allocation, months, rateModel, yearAxis, lifeEventLines, money }) => {
+  const allocationChartData = Array.from({ length: months / 12 + 1 }, (_, year) => {
+    const mix = allocationAt(allocation, Math.max(1, year * 12), months);
+    return {
+      year,
+      ...mix,
+      blendedRate: blendedReturn(mix, allocation)
+    };
+  });
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🧭</span>
+        Asset Allocation Glide Path
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <MetricCard
+          title="Starting Return"
+          value={money.percent(allocationChartData[0].blendedRate)}
+          subtitle={`${money.percent(allocationChartData[0].stocks, 0)} stocks`}
+        />
+        <MetricCard
+          title="Average Return"
+          value={money.percent(rateModel.rate)}
+          subtitle={`${money.percent(rateModel.volatility)} volatility`}
+          highlight
+        />
+        <MetricCard
+          title="Ending Return"
+          value={money.percent(rateModel.retirementRate)}
+          subtitle={`${money.percent(allocationChartData[allocationChartData.length - 1].stocks, 0)} stocks`}
+        />
+      </div>
+      <div className="h-[300px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={allocationChartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              domain={[0, 100]}
+              tickFormatter={(value) => `${value}%`}
+            />
+            <Tooltip 
+              formatter={(value) => [money.percent(Number(value))]}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            {(Object.keys(ASSET_CLASSES) as AssetClass[]).map((key) => (
+              <Area 
+                key={key}
+                type="monotone"
+                dataKey={key}
+                stackId="allocation"
+                stroke={ASSET_CLASSES[key].color}
+                fill={ASSET_CLASSES[key].color}
+                fillOpacity={0.4}
+                name={ASSET_CLASSES[key].label}
+              />
+            ))}
+            {lifeEventLines}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
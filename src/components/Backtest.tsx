@@ -0,0 +1,163 @@
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SP500_ANNUAL_RETURNS, type BacktestSummary, type MoneyFormat, type MonthData } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { MetricCard } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Historical backtest toggle
+ */
+export const BacktestSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+}> = ({ state, setState }) => (
+  <div className="mb-6">
+    <label className="block text-sm font-semibold text-slate-200 mb-3">
+      Historical Backtest
+    </label>
+    <button
+      onClick={() => setState({ ...state, showBacktest: !state.showBacktest })}
+      className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+        state.showBacktest
+          ? 'border-blue-500 bg-blue-500/10'
+          : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+      }`}
+    >
+      <div className="font-semibold text-white">
+        {state.showBacktest ? 'Backtest On' : 'Backtest Off'}
+      </div>
+      <div className="text-xs text-slate-400 mt-1">
+        Replay your plan through every S&P 500 period since {SP500_ANNUAL_RETURNS[0].year}
+      </div>
+    </button>
+  </div>
+);
+
+/**
+ * Best, median and worst historical windows against the constant-rate projection
+ * backtest is null when the plan is longer than the bundled history
+ */
+export const BacktestPanel: React.FC<{
+  backtest: BacktestSummary | null;
+  projections: MonthData[];
+  rateLabel: string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ backtest, projections, rateLabel, yearAxis, lifeEventLines, money }) => {
+  // Goal mode can solve for a part year, e.g. 12.3 years
+  const planLength = `${Math.round((projections.length / 12) * 10) / 10}-year`;
+  const backtestChartData = backtest
+    ? projections.map((d, i) => ({
+        ...d,
+        backtestBest: backtest.best.balances[i],
+        backtestMedian: backtest.median.balances[i],
+        backtestWorst: backtest.worst.balances[i]
+      }))
+    : [];
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🕰️</span>
+        Historical Backtest
+      </h3>
+      {backtest ? (
+        <>
+          <p className="text-sm text-slate-400 mb-6">
+            Your plan replayed through {backtest.windowCount} historical {planLength}
+            windows of actual S&P 500 total returns ({SP500_ANNUAL_RETURNS[0].year}–{SP500_ANNUAL_RETURNS[SP500_ANNUAL_RETURNS.length - 1].year}).
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <MetricCard
+              title="Best Start"
+              value={money.short(backtest.best.finalBalance)}
+              subtitle={`${backtest.best.startYear}–${backtest.best.endYear}`}
+            />
+            <MetricCard
+              title="Median Start"
+              value={money.short(backtest.median.finalBalance)}
+              subtitle={`${backtest.median.startYear}–${backtest.median.endYear}`}
+              highlight
+            />
+            <MetricCard
+              title="Worst Start"
+              value={money.short(backtest.worst.finalBalance)}
+              subtitle={`${backtest.worst.startYear}–${backtest.worst.endYear}`}
+            />
+          </div>
+          <div className="h-[400px] -mx-2 pr-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={backtestChartData.filter((_, i) => i % 6 === 0)}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                <XAxis 
+                  dataKey="year" 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  tickFormatter={yearAxis.tick}
+                  label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                />
+                <YAxis 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  width={90}
+                  tickMargin={5}
+                  tickFormatter={money.short}
+                />
+                <Tooltip 
+                  formatter={(value) => [money.full(Number(value))]}
+                  labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+                  contentStyle={{
+                    background: '#1a202c',
+                    border: '1px solid #4a5568',
+                    borderRadius: '0.5rem',
+                  }}
+                />
+                <Legend />
+                <Line 
+                  type="monotone" 
+                  dataKey="backtestBest" 
+                  stroke="#10b981" 
+                  strokeWidth={2}
+                  dot={false}
+                  name={`Best (${backtest.best.startYear})`}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="backtestMedian" 
+                  stroke="#8b5cf6" 
+                  strokeWidth={2}
+                  dot={false}
+                  name={`Median (${backtest.median.startYear})`}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="backtestWorst" 
+                  stroke="#ef4444" 
+                  strokeWidth={2}
+                  dot={false}
+                  name={`Worst (${backtest.worst.startYear})`}
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="balance" 
+                  stroke="#3b82f6" 
+                  strokeWidth={3}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  name={`Constant ${rateLabel}`}
+                />
+                {lifeEventLines}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400">
+          Not enough history to backtest a {planLength}
+          plan. The bundled data covers {SP500_ANNUAL_RETURNS.length} years.
+        </p>
+      )}
+    </div>
+  );
+};
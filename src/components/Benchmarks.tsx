@@ -0,0 +1,188 @@
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  BENCHMARK_PRESETS,
+  HISTORICAL_SERIES,
+  benchmarkRate,
+  type Benchmark,
+  type HistoricalSeriesId,
+  type MoneyFormat,
+  type MonthData
+} from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { benchmarkLabel } from './benchmarkLabel';
+import { InputField } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Benchmarks the plan is compared against, each at a fixed return or replaying history
+ */
+export const BenchmarksSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateBenchmark = (id: string, changes: Partial<Benchmark>) => setState({
+    ...state,
+    benchmarks: state.benchmarks.map((b) => (b.id === id ? { ...b, ...changes } : b))
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Comparison Benchmarks
+      </label>
+      {state.benchmarks.map((benchmark) => (
+        <div key={benchmark.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+          <div className="flex items-center gap-2 mb-4">
+            <input
+              type="color"
+              value={benchmark.color}
+              onChange={(e) => updateBenchmark(benchmark.id, { color: e.target.value })}
+              className="w-8 h-8 shrink-0 rounded bg-transparent cursor-pointer"
+              aria-label={`${benchmark.name} colour`}
+            />
+            <input
+              type="text"
+              value={benchmark.name}
+              onChange={(e) => updateBenchmark(benchmark.id, { name: e.target.value })}
+              className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+            />
+            <button
+              onClick={() => setState({
+                ...state,
+                benchmarks: state.benchmarks.filter((b) => b.id !== benchmark.id)
+              })}
+              className="text-xs text-slate-400 hover:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+          <select
+            value={benchmark.series ?? 'fixed'}
+            onChange={(e) => updateBenchmark(benchmark.id, {
+              series: e.target.value === 'fixed' ? null : e.target.value as HistoricalSeriesId
+            })}
+            className="w-full px-4 py-3 mb-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+          >
+            <option value="fixed">Fixed annual return</option>
+            {(Object.keys(HISTORICAL_SERIES) as HistoricalSeriesId[]).map((id) => (
+              <option key={id} value={id}>{HISTORICAL_SERIES[id].label} (historical)</option>
+            ))}
+          </select>
+          {benchmark.series ? (
+            <>
+              <InputField
+                label="Replay From"
+                value={benchmark.startYear}
+                onChange={(v) => updateBenchmark(benchmark.id, { startYear: v })}
+                min={HISTORICAL_SERIES[benchmark.series].returns[0].year}
+                max={HISTORICAL_SERIES[benchmark.series].returns[HISTORICAL_SERIES[benchmark.series].returns.length - 1].year}
+                step={1}
+              />
+              <div className="text-xs text-slate-400 -mt-4">
+                {HISTORICAL_SERIES[benchmark.series].label} from {benchmark.startYear} onwards, then its {money.percent(benchmarkRate(benchmark))} long-run average
+              </div>
+            </>
+          ) : (
+            <InputField
+              label="Annual Return"
+              value={benchmark.annualRate}
+              onChange={(v) => updateBenchmark(benchmark.id, { annualRate: v })}
+              suffix="%"
+              min={-20}
+              max={50}
+              step={0.1}
+            />
+          )}
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={(e) => {
+          const preset = BENCHMARK_PRESETS[Number(e.target.value)];
+          if (preset) setState({ ...state, benchmarks: [...state.benchmarks, { id: crypto.randomUUID(), ...preset }] });
+        }}
+        className="w-full p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200 focus:outline-none"
+      >
+        <option value="" disabled>+ Add Benchmark</option>
+        {BENCHMARK_PRESETS.map((preset, i) => (
+          <option key={preset.name} value={i}>{preset.name}</option>
+        ))}
+      </select>
+      <div className="text-xs text-slate-400 mt-2">
+        Each benchmark receives the same contributions as your plan.
+      </div>
+    </div>
+  );
+};
+
+/**
+ * The plan against each benchmark given the same contributions
+ */
+export const BenchmarkComparisonPanel: React.FC<{
+  projections: MonthData[];
+  benchmarks: Benchmark[];
+  useAllocation: boolean;
+  rateLabel: string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ projections, benchmarks, useAllocation, rateLabel, yearAxis, lifeEventLines, money }) => (
+  <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+      <span className="text-3xl">📊</span>
+      Investment Comparison
+    </h3>
+    <div className="h-[400px] -mx-2 pr-2">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={projections.filter((_, i) => i % 6 === 0)}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+          <XAxis 
+            dataKey="year" 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            tickFormatter={yearAxis.tick}
+            label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+          />
+          <YAxis 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            width={90}
+            tickMargin={5}
+            tickFormatter={money.short}
+          />
+          <Tooltip 
+            formatter={(value) => [money.full(Number(value))]}
+            labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+            contentStyle={{
+              background: '#1a202c',
+              border: '1px solid #4a5568',
+              borderRadius: '0.5rem',
+            }}
+          />
+          <Legend />
+          <Line 
+            type="monotone" 
+            dataKey="balance" 
+            stroke="#3b82f6" 
+            strokeWidth={2}
+            dot={false}
+            name={useAllocation ? `Your Allocation (${rateLabel})` : `S&P 500 (${rateLabel})`}
+          />
+          {benchmarks.map((benchmark) => (
+            <Line 
+              key={benchmark.id}
+              type="monotone" 
+              dataKey={(d: MonthData) => d.benchmarks[benchmark.id]} 
+              stroke={benchmark.color} 
+              strokeWidth={2}
+              dot={false}
+              name={benchmarkLabel(benchmark)}
+            />
+          ))}
+          {lifeEventLines}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
@@ -0,0 +1,147 @@
+import { MAX_PROJECTION_YEARS, MILESTONES, type Benchmark, type InvestmentMetrics, type MoneyFormat, type MonthData } from '../lib';
+
+export const BigPictureCard: React.FC<{ 
+  metrics: InvestmentMetrics;
+  finalMonth?: MonthData;
+  incomeLabel: string;
+  afterTax?: { balance: number; monthlyIncome: number; accountLabel: string };
+  accountBreakdown?: { id: string; name: string; finalBalance: number; color: string }[];
+  benchmarks: Benchmark[];
+  money: MoneyFormat;
+ }> = ({ metrics, finalMonth, incomeLabel, afterTax, accountBreakdown, benchmarks, money }) => {
+  if (!finalMonth) {
+    return (
+      <div className="bg-gradient-to-br from-blue-500/20 to-purple-500/20 border-2 border-blue-500/50 rounded-xl p-8 shadow-xl">
+        <h3 className="text-2xl font-bold text-white mb-6">Loading data...</h3>
+      </div>
+    );
+  }
+  
+  const householdTotal = accountBreakdown?.reduce((sum, a) => sum + a.finalBalance, 0) ?? 0;
+
+  const roi = metrics.totalContributions > 0 
+    ? (metrics.totalGains / metrics.totalContributions) * 100
+    : 0;
+  
+  return (
+    <div className="bg-gradient-to-br from-blue-500/20 to-purple-500/20 border-2 border-blue-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">💰</span>
+        Investment Dashboard
+      </h3>
+      
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Final Balance</div>
+          <div className="text-3xl font-bold text-blue-400">{money.short(metrics.finalBalance)}</div>
+          <div className="text-xs text-slate-400 mt-1">After {finalMonth.year} years</div>
+        </div>
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Total Gains</div>
+          <div className="text-3xl font-bold text-green-500">{money.short(metrics.totalGains)}</div>
+          <div className="text-xs text-slate-400 mt-1">Investment returns</div>
+        </div>
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">ROI</div>
+          <div className="text-3xl font-bold text-blue-400">{money.percent(roi)}</div>
+          <div className="text-xs text-slate-400 mt-1">Return on investment</div>
+        </div>
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Monthly Income</div>
+          <div className="text-3xl font-bold text-blue-400">{money.full(metrics.monthlyIncome)}</div>
+          <div className="text-xs text-slate-400 mt-1">{incomeLabel}</div>
+        </div>
+        
+        {metrics.pensionIncome > 0 && (
+          <div>
+            <div className="text-sm text-slate-400 mb-1">Pension</div>
+            <div className="text-3xl font-bold text-blue-400">{money.full(metrics.pensionIncome)}</div>
+            <div className="text-xs text-slate-400 mt-1">Monthly, on top of withdrawals</div>
+          </div>
+        )}
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Inflation-Adjusted</div>
+          <div className="text-3xl font-bold text-yellow-500">{money.short(metrics.inflationAdjustedValue)}</div>
+          <div className="text-xs text-slate-400 mt-1">Real purchasing power</div>
+        </div>
+        
+        {benchmarks.map((benchmark) => {
+          const advantage = metrics.vsBenchmarks[benchmark.id] ?? 0;
+          return (
+            <div key={benchmark.id}>
+              <div className="text-sm text-slate-400 mb-1">vs {benchmark.name}</div>
+              <div className={`text-3xl font-bold ${advantage >= 0 ? 'text-green-500' : 'text-red-400'}`}>
+                {advantage >= 0 ? '+' : '-'}{money.short(Math.abs(advantage))}
+              </div>
+              <div className="text-xs text-slate-400 mt-1">{advantage >= 0 ? 'Extra earnings' : 'Behind this benchmark'}</div>
+            </div>
+          );
+        })}
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Years to {money.short(MILESTONES.yearsTo1M)}</div>
+          <div className={`text-3xl font-bold ${metrics.yearsTo1M < 100 ? 'text-blue-400' : 'text-slate-600'}`}>
+            {metrics.yearsTo1M < 100 ? `${metrics.yearsTo1M} yr` : 'N/A'}
+          </div>
+          <div className="text-xs text-slate-400 mt-1">Millionaire status</div>
+        </div>
+        
+        <div>
+          <div className="text-sm text-slate-400 mb-1">Sustainability</div>
+          <div className="text-3xl font-bold text-blue-400">
+            {metrics.withdrawalSustainability >= MAX_PROJECTION_YEARS ? `${MAX_PROJECTION_YEARS}+` : metrics.withdrawalSustainability} yr
+          </div>
+          <div className="text-xs text-slate-400 mt-1">At first-year income</div>
+        </div>
+
+        {afterTax && (
+          <>
+            <div>
+              <div className="text-sm text-slate-400 mb-1">After-Tax Balance</div>
+              <div className="text-3xl font-bold text-yellow-500">{money.short(afterTax.balance)}</div>
+              <div className="text-xs text-slate-400 mt-1">{afterTax.accountLabel}</div>
+            </div>
+
+            <div>
+              <div className="text-sm text-slate-400 mb-1">After-Tax Income</div>
+              <div className="text-3xl font-bold text-yellow-500">{money.full(afterTax.monthlyIncome)}</div>
+              <div className="text-xs text-slate-400 mt-1">Per month, first year</div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {accountBreakdown && (
+        <div className="mt-8 pt-6 border-t border-slate-700">
+          <div className="text-sm text-slate-400 mb-3">Household Breakdown</div>
+          <div className="space-y-2">
+            {accountBreakdown.map((account) => (
+              <div key={account.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="w-3 h-3 rounded-full" style={{ background: account.color }} />
+                  <span className="text-white">{account.name}</span>
+                </div>
+                <div className="text-white font-semibold">
+                  {money.short(account.finalBalance)}
+                  <span className="text-xs text-slate-400 ml-2">
+                    {money.percent(householdTotal > 0 ? (account.finalBalance / householdTotal) * 100 : 0, 0)}
+                  </span>
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2 border-t border-slate-700">
+              <span className="text-slate-400">Household Total</span>
+              <span className="text-xl font-bold text-blue-400">
+                {money.short(householdTotal)}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
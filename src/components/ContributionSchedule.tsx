@@ -0,0 +1,170 @@
+import type { ContributionPlan, ContributionRule, ContributionRuleType, LumpSum, MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+const CONTRIBUTION_RULE_TYPES: Record<ContributionRuleType, string> = {
+  'step-up': 'Annual step-up',
+  pause: 'Pause',
+  'set-amount': 'Change amount'
+};
+
+/**
+ * Step-ups, pauses, amount changes and lump sums on top of the monthly contribution
+ */
+export const ContributionScheduleSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateContributionPlan = (changes: Partial<ContributionPlan>) => setState({
+    ...state,
+    contributionPlan: { ...state.contributionPlan, ...changes }
+  });
+
+  return (
+    <div className="mb-6 mt-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Contribution Schedule
+      </label>
+      {state.contributionPlan.rules.map((rule) => {
+        const updateRule = (changes: Partial<ContributionRule>) => updateContributionPlan({
+          rules: state.contributionPlan.rules.map((r) => (r.id === rule.id ? { ...r, ...changes } : r))
+        });
+        return (
+          <div key={rule.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+            <div className="flex items-center gap-2 mb-4">
+              <select
+                value={rule.type}
+                onChange={(e) => updateRule({ type: e.target.value as ContributionRuleType })}
+                className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+              >
+                {(Object.keys(CONTRIBUTION_RULE_TYPES) as ContributionRuleType[]).map((type) => (
+                  <option key={type} value={type}>{CONTRIBUTION_RULE_TYPES[type]}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => updateContributionPlan({
+                  rules: state.contributionPlan.rules.filter((r) => r.id !== rule.id)
+                })}
+                className="text-xs text-slate-400 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3">
+              {rule.type === 'step-up' && (
+                <InputField
+                  label="Raise"
+                  value={rule.value}
+                  onChange={(v) => updateRule({ value: v })}
+                  suffix="%/yr"
+                  min={0}
+                  max={50}
+                  step={0.5}
+                />
+              )}
+              {rule.type === 'set-amount' && (
+                <InputField
+                  label="New Monthly"
+                  value={rule.value}
+                  onChange={(v) => updateRule({ value: v })}
+                  prefix={money.symbol}
+                  min={0}
+                  step={100}
+                />
+              )}
+              <InputField
+                label="From Year"
+                value={rule.startYear}
+                onChange={(v) => updateRule({ startYear: v })}
+                min={1}
+                max={50}
+                step={1}
+              />
+              {rule.type !== 'set-amount' && (
+                <InputField
+                  label="To Year"
+                  value={rule.endYear}
+                  onChange={(v) => updateRule({ endYear: v })}
+                  min={0}
+                  max={50}
+                  step={1}
+                />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      {state.contributionPlan.lumpSums.map((lumpSum) => {
+        const updateLumpSum = (changes: Partial<LumpSum>) => updateContributionPlan({
+          lumpSums: state.contributionPlan.lumpSums.map((l) => (l.id === lumpSum.id ? { ...l, ...changes } : l))
+        });
+        return (
+          <div key={lumpSum.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+            <div className="flex items-center gap-2 mb-4">
+              <input
+                type="text"
+                value={lumpSum.label}
+                onChange={(e) => updateLumpSum({ label: e.target.value })}
+                className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+              />
+              <button
+                onClick={() => updateContributionPlan({
+                  lumpSums: state.contributionPlan.lumpSums.filter((l) => l.id !== lumpSum.id)
+                })}
+                className="text-xs text-slate-400 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-x-3">
+              <InputField
+                label="Amount"
+                value={lumpSum.amount}
+                onChange={(v) => updateLumpSum({ amount: v })}
+                prefix={money.symbol}
+                min={0}
+                step={1000}
+              />
+              <InputField
+                label="Year"
+                value={lumpSum.year}
+                onChange={(v) => updateLumpSum({ year: v })}
+                min={1}
+                max={50}
+                step={1}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => updateContributionPlan({
+            rules: [
+              ...state.contributionPlan.rules,
+              { id: crypto.randomUUID(), type: 'step-up', startYear: 2, endYear: 0, value: 3 }
+            ]
+          })}
+          className="p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200"
+        >
+          + Add Rule
+        </button>
+        <button
+          onClick={() => updateContributionPlan({
+            lumpSums: [
+              ...state.contributionPlan.lumpSums,
+              { id: crypto.randomUUID(), label: 'Bonus', year: 5, amount: 10000 }
+            ]
+          })}
+          className="p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200"
+        >
+          + Add Lump Sum
+        </button>
+      </div>
+      <div className="text-xs text-slate-400 mt-2">
+        Step-ups compound each year from the monthly contribution above. Leave "To Year" empty to run to the end of the plan.
+      </div>
+    </div>
+  );
+};
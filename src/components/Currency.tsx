@@ -0,0 +1,88 @@
+import { CURRENCIES, DEFAULT_FX_RATES, LOCALES, fxRate, type CurrencyCode, type CurrencySettings } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * Plan and display currencies, the exchange rate between them and the number format
+ */
+export const CurrencyFormatSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+}> = ({ state, setState }) => {
+  const updateCurrency = (changes: Partial<CurrencySettings>) => setState({
+    ...state,
+    currency: { ...state.currency, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Currency & Formatting
+      </label>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Invest In</div>
+          <select
+            value={state.currency.currency}
+            onChange={(e) => updateCurrency({ currency: e.target.value as CurrencyCode })}
+            className="w-full px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+          >
+            {(Object.keys(CURRENCIES) as CurrencyCode[]).map((code) => (
+              <option key={code} value={code}>{code} · {CURRENCIES[code].label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <div className="text-xs text-slate-400 mb-1">Show In</div>
+          <select
+            value={state.currency.displayCurrency}
+            onChange={(e) => updateCurrency({ displayCurrency: e.target.value as CurrencyCode })}
+            className="w-full px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+          >
+            {(Object.keys(CURRENCIES) as CurrencyCode[]).map((code) => (
+              <option key={code} value={code}>{code} · {CURRENCIES[code].label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="text-xs text-slate-400 mb-1">Number Format</div>
+      <select
+        value={state.currency.locale}
+        onChange={(e) => updateCurrency({ locale: e.target.value })}
+        className="w-full px-3 py-2 mb-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+      >
+        {LOCALES.map((locale) => (
+          <option key={locale.tag} value={locale.tag}>{locale.label}</option>
+        ))}
+      </select>
+      {state.currency.displayCurrency !== state.currency.currency && (
+        <>
+          <InputField
+            label={`Exchange Rate (${state.currency.displayCurrency} per ${state.currency.currency})`}
+            value={Math.round(fxRate(state.currency) * 10000) / 10000}
+            onChange={(v) => {
+              if (v <= 0) return;
+              updateCurrency({
+                fxRates: {
+                  ...state.currency.fxRates,
+                  [state.currency.displayCurrency]: v * state.currency.fxRates[state.currency.currency]
+                }
+              });
+            }}
+            min={0}
+            step={0.01}
+          />
+          <div className="flex items-center justify-between text-xs text-slate-400 -mt-4">
+            <span>One rate for the whole plan; currency swings aren't modelled.</span>
+            <button
+              onClick={() => updateCurrency({ fxRates: DEFAULT_FX_RATES })}
+              className="text-blue-400 hover:text-blue-300 font-semibold ml-2 shrink-0"
+            >
+              Use bundled rate
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SP500_MONTHLY_RETURNS, type DcaComparison, type DcaSettings, type MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+
+/**
+ * Lump sum vs DCA toggle and the windfall to test
+ */
+export const DcaComparisonSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateDca = (changes: Partial<DcaSettings>) => setState({
+    ...state,
+    dca: { ...state.dca, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Lump Sum vs Dollar-Cost Averaging
+      </label>
+      <button
+        onClick={() => setState({ ...state, showDcaComparison: !state.showDcaComparison })}
+        className={`w-full p-3 mb-3 rounded-lg border-2 transition-all text-left ${
+          state.showDcaComparison
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white">
+          {state.showDcaComparison ? 'Comparison On' : 'Comparison Off'}
+        </div>
+        <div className="text-xs text-slate-400 mt-1">
+          Invest a windfall at once or drip it in, from every start month since {SP500_MONTHLY_RETURNS[0].year}
+        </div>
+      </button>
+      {state.showDcaComparison && (
+        <div className="grid grid-cols-2 gap-x-3">
+          <InputField
+            label="Windfall"
+            value={state.dca.amount}
+            onChange={(v) => updateDca({ amount: v })}
+            prefix={money.symbol}
+            min={0}
+            step={10000}
+          />
+          <InputField
+            label="Drip Over"
+            value={state.dca.months}
+            onChange={(v) => updateDca({ months: v })}
+            suffix="months"
+            min={1}
+            max={120}
+            step={1}
+          />
+          <InputField
+            label="Compare After"
+            value={state.dca.holdYears}
+            onChange={(v) => updateDca({ holdYears: v })}
+            suffix="years"
+            min={1}
+            max={50}
+            step={1}
+          />
+          <InputField
+            label="Cash Rate"
+            value={state.dca.cashRate}
+            onChange={(v) => updateDca({ cashRate: v })}
+            suffix="%"
+            min={0}
+            max={20}
+            step={0.25}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * How investing a windfall at once fared against drip-feeding it, for every historical start
+ * dcaComparison is null when the holding period is longer than the history
+ */
+export const DcaComparisonPanel: React.FC<{
+  dca: DcaSettings;
+  dcaComparison: DcaComparison | null;
+  money: MoneyFormat;
+}> = ({ dca, dcaComparison, money }) => {
+  const dcaChartData = dcaComparison?.periods.map((p) => ({
+    start: `${p.startYear}-${String(p.startMonth).padStart(2, '0')}`,
+    difference: Math.round(p.difference * 10) / 10
+  })) ?? [];
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🪣</span>
+        Lump Sum vs Dollar-Cost Averaging
+      </h3>
+      {dcaComparison ? (
+        <>
+          <p className="text-sm text-slate-400 mb-6">
+            {money.full(dca.amount)} invested at once, or in {dca.months} monthly parts, from each of
+            {' '}{money.number(dcaComparison.periods.length)} historical start months and compared {dca.holdYears} years on.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <MetricCard
+              title="Lump Sum Won"
+              value={money.percent(dcaComparison.lumpSumWinRate, 0)}
+              subtitle={`of periods, by ${money.percent(dcaComparison.averageLumpSumMargin)} (${money.short(dcaComparison.averageLumpSumLead)}) on average`}
+              highlight={dcaComparison.lumpSumWinRate >= dcaComparison.dcaWinRate}
+            />
+            <MetricCard
+              title="DCA Won"
+              value={money.percent(dcaComparison.dcaWinRate, 0)}
+              subtitle={`of periods, by ${money.percent(dcaComparison.averageDcaMargin)} (${money.short(dcaComparison.averageDcaLead)}) on average`}
+              highlight={dcaComparison.dcaWinRate > dcaComparison.lumpSumWinRate}
+            />
+            <MetricCard
+              title="Typical Difference"
+              value={`${dcaComparison.medianDifference >= 0 ? '+' : ''}${money.percent(dcaComparison.medianDifference)}`}
+              subtitle={`Median, for lump sum. Range ${money.percent(dcaComparison.worst.difference, 0)} (${dcaComparison.worst.startYear}) to +${money.percent(dcaComparison.best.difference, 0)} (${dcaComparison.best.startYear})`}
+            />
+          </div>
+          <div className="h-[350px] -mx-2 pr-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={dcaChartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                <XAxis 
+                  dataKey="start" 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  minTickGap={40}
+                />
+                <YAxis 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  width={90}
+                  tickMargin={5}
+                  tickFormatter={(value) => `${value}%`}
+                />
+                <Tooltip 
+                  formatter={(value) => [money.percent(Number(value)), 'Lump sum ahead by']}
+                  labelFormatter={(start) => `Starting ${start}`}
+                  contentStyle={{
+                    background: '#1a202c',
+                    border: '1px solid #4a5568',
+                    borderRadius: '0.5rem',
+                  }}
+                />
+                <ReferenceLine y={0} stroke="#a0aec0" />
+                <Area 
+                  type="monotone" 
+                  dataKey="difference" 
+                  stroke="#3b82f6" 
+                  fill="#3b82f6" 
+                  fillOpacity={0.3}
+                  isAnimationActive={false}
+                  name="Lump sum vs DCA"
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-slate-400 mt-4">
+            Above zero, investing at once finished ahead. Cash waiting to be invested earns {dca.cashRate}% a year.
+            Monthly S&P 500 total returns from Robert Shiller's data, measured between monthly average prices.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400">
+          Not enough history to hold for {dca.holdYears} years. The bundled data covers {Math.floor(SP500_MONTHLY_RETURNS.length / 12)} years.
+        </p>
+      )}
+    </div>
+  );
+};
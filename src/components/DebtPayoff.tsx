@@ -0,0 +1,198 @@
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { DebtPayoffComparison, LoanSettings, MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+
+/**
+ * Debt payoff toggle and the loan to compare against investing
+ */
+export const DebtPayoffSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateLoan = (changes: Partial<LoanSettings>) => setState({
+    ...state,
+    loan: { ...state.loan, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Pay Off Debt or Invest
+      </label>
+      <button
+        onClick={() => setState({ ...state, showDebtPayoff: !state.showDebtPayoff })}
+        className={`w-full p-3 mb-3 rounded-lg border-2 transition-all text-left ${
+          state.showDebtPayoff
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white">
+          {state.showDebtPayoff ? 'Comparison On' : 'Comparison Off'}
+        </div>
+        <div className="text-xs text-slate-400 mt-1">
+          Put spare cash towards a mortgage or loan, or into the S&P 500
+        </div>
+      </button>
+      {state.showDebtPayoff && (
+        <div className="grid grid-cols-2 gap-x-3">
+          <InputField
+            label="Loan Balance"
+            value={state.loan.balance}
+            onChange={(v) => updateLoan({ balance: v })}
+            prefix={money.symbol}
+            min={0}
+            step={10000}
+          />
+          <InputField
+            label="Loan Rate"
+            value={state.loan.rate}
+            onChange={(v) => updateLoan({ rate: v })}
+            suffix="%"
+            min={0}
+            max={30}
+            step={0.05}
+          />
+          <InputField
+            label="Years Left"
+            value={state.loan.termYears}
+            onChange={(v) => updateLoan({ termYears: v })}
+            suffix="years"
+            min={0}
+            max={40}
+            step={0.5}
+          />
+          <InputField
+            label="Spare Cash"
+            value={state.loan.extraPayment}
+            onChange={(v) => updateLoan({ extraPayment: v })}
+            prefix={money.symbol}
+            suffix="/mo"
+            min={0}
+            step={50}
+          />
+          <InputField
+            label="Tax on Returns"
+            value={state.loan.taxRate}
+            onChange={(v) => updateLoan({ taxRate: v })}
+            suffix="%"
+            min={0}
+            max={99}
+            step={1}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Net worth from prepaying the loan against investing the spare cash
+ * debtPayoff is null when a balance is owed with less than a month left to repay it
+ */
+export const DebtPayoffPanel: React.FC<{
+  loan: LoanSettings;
+  debtPayoff: DebtPayoffComparison | null;
+  investmentRate: number;
+  money: MoneyFormat;
+}> = ({ loan, debtPayoff, investmentRate, money }) => (
+  <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+      <span className="text-3xl">⚖️</span>
+      Pay Off Debt or Invest
+    </h3>
+    {debtPayoff ? (
+      <>
+        <p className="text-sm text-slate-400 mb-6">
+          {money.full(loan.extraPayment)}/mo of spare cash on top of the {money.full(debtPayoff.monthlyPayment)}/mo repayment,
+          {' '}either prepaying the {loan.rate}% loan or invested at {money.percent(investmentRate)}, compared when the loan's {loan.termYears}-year term ends.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <MetricCard
+            title="Prepay the Loan"
+            value={money.short(debtPayoff.prepayNetWorth)}
+            subtitle={`Paid off in ${(debtPayoff.payoffMonths / 12).toFixed(1)} years, saving ${money.short(debtPayoff.interestSaved)} interest`}
+            highlight={debtPayoff.prepayNetWorth > debtPayoff.investNetWorth}
+          />
+          <MetricCard
+            title="Invest the Difference"
+            value={money.short(debtPayoff.investNetWorth)}
+            subtitle={`Loan paid on schedule over ${loan.termYears} years`}
+            highlight={debtPayoff.investNetWorth >= debtPayoff.prepayNetWorth}
+          />
+          <MetricCard
+            title="Break-Even Return"
+            value={Number.isFinite(debtPayoff.breakEvenRate) ? money.percent(debtPayoff.breakEvenRate, 2) : 'None'}
+            subtitle={investmentRate > debtPayoff.breakEvenRate
+              ? `Investing wins by ${money.short(debtPayoff.investNetWorth - debtPayoff.prepayNetWorth)} above this`
+              : `Prepaying wins by ${money.short(debtPayoff.prepayNetWorth - debtPayoff.investNetWorth)} below this`}
+          />
+        </div>
+        <div className="h-[350px] -mx-2 pr-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={debtPayoff.years}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+              <XAxis 
+                dataKey="year" 
+                tick={{ fill: '#a0aec0' }}
+                axisLine={{ stroke: '#4a5568' }}
+                label={{ value: 'Years', position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+              />
+              <YAxis 
+                tick={{ fill: '#a0aec0' }}
+                axisLine={{ stroke: '#4a5568' }}
+                width={90}
+                tickMargin={5}
+                tickFormatter={money.short}
+              />
+              <Tooltip 
+                formatter={(value, name) => [money.full(Number(value)), name]}
+                labelFormatter={(year) => `Year ${year}`}
+                contentStyle={{
+                  background: '#1a202c',
+                  border: '1px solid #4a5568',
+                  borderRadius: '0.5rem',
+                }}
+              />
+              <Legend />
+              <ReferenceLine y={0} stroke="#a0aec0" />
+              <ReferenceLine
+                x={Math.ceil(debtPayoff.payoffMonths / 12)}
+                stroke="#f59e0b"
+                strokeDasharray="4 4"
+                label={{ value: 'Loan paid off', fill: '#f59e0b', fontSize: 12, position: 'insideTopLeft' }}
+              />
+              <Line 
+                type="monotone" 
+                dataKey="prepayNetWorth" 
+                stroke="#10b981" 
+                strokeWidth={2}
+                dot={false}
+                name="Prepay the loan"
+              />
+              <Line 
+                type="monotone" 
+                dataKey="investNetWorth" 
+                stroke="#3b82f6" 
+                strokeWidth={2}
+                dot={false}
+                name="Invest the difference"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-xs text-slate-400 mt-4">
+          Net worth is investments less what's still owed on the loan. Both strategies spend the same each month;
+          once the loan is gone, prepaying invests the whole {money.full(debtPayoff.monthlyPayment + loan.extraPayment)}/mo.
+          Investing comes out ahead when returns after {loan.taxRate}% tax beat the loan rate, but unlike the loan rate they aren't guaranteed.
+        </p>
+      </>
+    ) : (
+      <p className="text-sm text-slate-400">
+        A loan with {money.full(loan.balance)} still owed needs at least a month left to repay it. Set the years left to 0.1 or more.
+      </p>
+    )}
+  </div>
+);
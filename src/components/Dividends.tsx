@@ -0,0 +1,163 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ACCOUNT_TYPES, type DividendSettings, type MoneyFormat, type MonthData } from '../lib';
+import type { CalculatorState, RateModel } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Dividend yield, reinvested or paid out, and the tax on it
+ */
+export const DividendsSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  currentRate: number;
+  rateLabel: string;
+  money: MoneyFormat;
+}> = ({ state, setState, currentRate, rateLabel, money }) => {
+  const updateDividends = (changes: Partial<DividendSettings>) => setState({
+    ...state,
+    dividends: { ...state.dividends, ...changes }
+  });
+  const accountInfo = ACCOUNT_TYPES[state.account.type];
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Dividends
+      </label>
+      <InputField
+        label="Dividend Yield"
+        value={state.dividends.dividendYield}
+        onChange={(v) => updateDividends({ dividendYield: v })}
+        suffix="%"
+        min={0}
+        max={Math.max(0, currentRate)}
+        step={0.1}
+      />
+      <div className="text-xs text-slate-400 -mt-4 mb-4">
+        {rateLabel} total return = {money.percent(currentRate - state.dividends.dividendYield)} price growth + {money.percent(state.dividends.dividendYield)} dividends
+      </div>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        <button
+          onClick={() => updateDividends({ reinvest: true })}
+          className={`p-3 rounded-lg border-2 transition-all ${
+            state.dividends.reinvest
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white text-sm">Reinvest (DRIP)</div>
+          <div className="text-xs text-slate-400 mt-1">Buy more shares</div>
+        </button>
+        <button
+          onClick={() => updateDividends({ reinvest: false })}
+          className={`p-3 rounded-lg border-2 transition-all ${
+            !state.dividends.reinvest
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white text-sm">Pay Out</div>
+          <div className="text-xs text-slate-400 mt-1">Take the cash</div>
+        </button>
+      </div>
+      {state.account.type === 'taxable' ? (
+        <InputField
+          label="Dividend Tax Rate"
+          value={state.dividends.taxRate}
+          onChange={(v) => updateDividends({ taxRate: v })}
+          suffix="%"
+          min={0}
+          max={100}
+          step={1}
+        />
+      ) : (
+        <div className="text-xs text-slate-400">
+          Dividends are sheltered from tax inside a {accountInfo.label} account.
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dividends received in each year of the plan
+ */
+export const DividendIncomePanel: React.FC<{
+  projections: MonthData[];
+  reinvest: boolean;
+  rateModel: RateModel;
+  rateLabel: string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ projections, reinvest, rateModel, rateLabel, yearAxis, lifeEventLines, money }) => {
+  const dividendChartData = projections
+    .filter((d) => d.month % 12 === 0)
+    .map((d) => ({
+      year: d.year,
+      income: projections.slice(d.month - 12, d.month).reduce((sum, m) => sum + m.dividendIncome, 0)
+    }));
+  const finalMonth = projections[projections.length - 1];
+  const finalDividendYear = dividendChartData[dividendChartData.length - 1];
+  if (!finalMonth || !finalDividendYear) return null;
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🪙</span>
+        Dividend Income
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <MetricCard
+          title="Final-Year Dividends"
+          value={`${money.full(Math.round(finalDividendYear.income / 12))}/mo`}
+          subtitle={reinvest ? 'Reinvested each month' : 'Paid out as cash'}
+          highlight
+        />
+        <MetricCard
+          title="Total Dividends"
+          value={money.short(finalMonth.dividends)}
+          subtitle={rateModel.dividends.taxRate > 0 ? `After ${rateModel.dividends.taxRate}% dividend tax` : 'Tax-free in this account'}
+        />
+        <MetricCard
+          title="Balance Growth"
+          value={money.percent(rateModel.growthRate)}
+          subtitle={`Of the ${rateLabel} total return`}
+        />
+      </div>
+      <div className="h-[300px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={dividendChartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value) => [money.full(Number(value)), 'Annual Dividends']}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Bar dataKey="income" fill="#f59e0b" name="Annual Dividends" />
+            {lifeEventLines}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
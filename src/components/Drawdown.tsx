@@ -0,0 +1,97 @@
+import { longRunInflation, type DrawdownResult, type MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+
+/**
+ * Drawdown toggle and the monthly withdrawal to take from the final balance
+ */
+export const DrawdownSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => (
+  <div className="mb-6">
+    <label className="block text-sm font-semibold text-slate-200 mb-3">
+      Retirement Drawdown
+    </label>
+    <button
+      onClick={() => setState({ ...state, showDrawdown: !state.showDrawdown })}
+      className={`w-full p-3 rounded-lg border-2 transition-all text-left mb-3 ${
+        state.showDrawdown
+          ? 'border-blue-500 bg-blue-500/10'
+          : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+      }`}
+    >
+      <div className="font-semibold text-white">
+        {state.showDrawdown ? 'Drawdown On' : 'Drawdown Off'}
+      </div>
+      <div className="text-xs text-slate-400 mt-1">
+        Withdraw from your final balance and see how long it lasts
+      </div>
+    </button>
+    {state.showDrawdown && (
+      <>
+        <InputField
+          label="Monthly Withdrawal"
+          value={state.monthlyWithdrawal}
+          onChange={(v) => setState({ ...state, monthlyWithdrawal: v })}
+          prefix={money.symbol}
+          min={0}
+          step={100}
+        />
+        <button
+          onClick={() => setState({ ...state, indexWithdrawals: !state.indexWithdrawals })}
+          className={`w-full p-3 rounded-lg border-2 transition-all text-left ${
+            state.indexWithdrawals
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white text-sm">
+            {state.indexWithdrawals ? `Indexed to ${money.percent(longRunInflation(state.inflation))} inflation` : 'Flat withdrawals'}
+          </div>
+          <div className="text-xs text-slate-400 mt-1">Click to toggle</div>
+        </button>
+      </>
+    )}
+  </div>
+);
+
+/**
+ * How long the final balance lasts under the monthly withdrawal
+ */
+export const DrawdownPanel: React.FC<{
+  drawdown: DrawdownResult;
+  retirementYears: number;
+  indexWithdrawals: boolean;
+  money: MoneyFormat;
+}> = ({ drawdown, retirementYears, indexWithdrawals, money }) => (
+  <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+      <span className="text-3xl">🏖️</span>
+      Retirement Drawdown
+    </h3>
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <MetricCard
+        title="Money Lasts"
+        value={drawdown.depletedAtMonth === null
+          ? `${retirementYears}+ yr`
+          : `${(drawdown.depletedAtMonth / 12).toFixed(1)} yr`}
+        subtitle={drawdown.depletedAtMonth === null
+          ? 'Never runs out'
+          : `Runs out in year ${Math.ceil(drawdown.depletedAtMonth / 12)} of retirement`}
+        highlight
+      />
+      <MetricCard
+        title="Ending Balance"
+        value={money.short(drawdown.endingBalance)}
+        subtitle={`After ${(drawdown.months.length / 12).toFixed(0)} years of withdrawals`}
+      />
+      <MetricCard
+        title="Total Withdrawn"
+        value={money.short(drawdown.totalWithdrawn)}
+        subtitle={indexWithdrawals ? 'Inflation-indexed income' : 'Flat income'}
+      />
+    </div>
+  </div>
+);
@@ -0,0 +1,39 @@
+import { EXPORT_FORMATS, type ExportFormat } from './download';
+
+/**
+ * Download buttons for each export format and the printable report
+ */
+export const ExportSettings: React.FC<{
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+  onPrint: () => void;
+}> = ({ disabled, onExport, onPrint }) => (
+  <div className="mb-6">
+    <label className="block text-sm font-semibold text-slate-200 mb-3">
+      Export Data
+    </label>
+    <div className="grid grid-cols-3 gap-2">
+      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={disabled}
+          className="p-3 rounded-lg border-2 border-slate-700 bg-slate-900 hover:border-blue-500/50 transition-all text-sm font-semibold text-white disabled:opacity-50"
+        >
+          {EXPORT_FORMATS[format].label}
+        </button>
+      ))}
+    </div>
+    <button
+      onClick={onPrint}
+      disabled={disabled}
+      className="w-full mt-2 p-3 rounded-lg border-2 border-slate-700 bg-slate-900 hover:border-blue-500/50 transition-all text-sm font-semibold text-white disabled:opacity-50"
+    >
+      🖨️ Generate Report
+    </button>
+    <div className="text-xs text-slate-400 mt-2">
+      Monthly and yearly schedules with every column, the summary metrics and your assumptions.
+      The report opens your browser's print dialog; choose "Save as PDF" for a file.
+    </div>
+  </div>
+);
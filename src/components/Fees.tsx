@@ -0,0 +1,162 @@
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { FEE_PRESETS, type FeeSettings, type InvestmentMetrics, type MoneyFormat, type MonthData } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Fee presets and the percentage and flat fees they set
+ */
+export const FeesSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateFees = (changes: Partial<FeeSettings>) => setState({
+    ...state,
+    fees: { ...state.fees, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Fees
+      </label>
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {FEE_PRESETS.map((preset) => {
+          const active = (Object.keys(preset.fees) as (keyof FeeSettings)[])
+            .every((key) => preset.fees[key] === state.fees[key]);
+          return (
+            <button
+              key={preset.label}
+              onClick={() => setState({ ...state, fees: preset.fees })}
+              className={`p-3 rounded-lg border-2 transition-all ${
+                active
+                  ? 'border-blue-500 bg-blue-500/10'
+                  : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+              }`}
+            >
+              <div className="font-semibold text-white text-sm">{preset.label}</div>
+              <div className="text-xs text-slate-400 mt-1">{preset.description}</div>
+            </button>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-2 gap-x-3">
+        <InputField
+          label="Expense Ratio"
+          value={state.fees.expenseRatio}
+          onChange={(v) => updateFees({ expenseRatio: v })}
+          suffix="%"
+          min={0}
+          max={5}
+          step={0.01}
+        />
+        <InputField
+          label="Advisor Fee"
+          value={state.fees.advisorFee}
+          onChange={(v) => updateFees({ advisorFee: v })}
+          suffix="%"
+          min={0}
+          max={5}
+          step={0.05}
+        />
+        <InputField
+          label="Platform Fee"
+          value={state.fees.platformFee}
+          onChange={(v) => updateFees({ platformFee: v })}
+          prefix={money.symbol}
+          suffix="/yr"
+          min={0}
+          step={10}
+        />
+        <InputField
+          label="Transaction Fee"
+          value={state.fees.transactionFee}
+          onChange={(v) => updateFees({ transactionFee: v })}
+          prefix={money.symbol}
+          min={0}
+          step={1}
+        />
+      </div>
+      <div className="text-xs text-slate-400 -mt-4">
+        Percentage fees come out of the balance each month; the platform fee is charged monthly and the per-contribution fee each time you invest.
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Fees paid and the balance they cost, against a fee-free projection
+ */
+export const FeesPanel: React.FC<{
+  projections: MonthData[];
+  metrics: InvestmentMetrics;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ projections, metrics, yearAxis, lifeEventLines, money }) => {
+  const finalMonth = projections[projections.length - 1];
+  if (!finalMonth) return null;
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🧾</span>
+        Cost of Fees
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <MetricCard
+          title="Lifetime Fees Paid"
+          value={money.short(metrics.totalFees)}
+          subtitle={`Over ${finalMonth.year} years`}
+          highlight
+        />
+        <MetricCard
+          title="Balance Lost to Fees"
+          value={money.short(metrics.feeImpact)}
+          subtitle="Fees plus the growth they would have earned"
+        />
+        <MetricCard
+          title="Share of Balance"
+          value={money.percent(finalMonth.balanceBeforeFees > 0 ? (metrics.feeImpact / finalMonth.balanceBeforeFees) * 100 : 0)}
+          subtitle="Of the fee-free final balance"
+        />
+      </div>
+      <div className="h-[300px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={projections.filter((_, i) => i % 6 === 0)}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value) => [money.full(Number(value))]}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <Area type="monotone" dataKey="balanceBeforeFees" stroke="#64748b" fill="#64748b" fillOpacity={0.2} name="Before Fees" />
+            <Area type="monotone" dataKey="balance" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.4} name="After Fees" />
+            {lifeEventLines}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import { GOAL_UNKNOWNS, type GoalSolution, type GoalUnknown, type MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * A solved goal input for display
+ * A solved return is shown as the total return, dividends included
+ */
+const formatGoalSolution = (unknown: GoalUnknown, value: number, totalRate: number, money: MoneyFormat): string => {
+  switch (unknown) {
+    case 'initialInvestment':
+      return money.full(Math.round(value));
+    case 'monthlyContribution':
+      return `${money.full(Math.ceil(value))}/mo`;
+    case 'years': {
+      if (value === 0) return 'Already reached';
+      const months = Math.round(value * 12);
+      return months % 12 === 0 ? `${months / 12} years` : `${Math.floor(months / 12)} yr ${months % 12} mo`;
+    }
+    case 'annualRate':
+      return value === 0 ? 'No growth needed' : money.percent(totalRate, 2);
+  }
+};
+
+/**
+ * Goal mode inputs: the target, the unknown to solve for, the inputs already known and the solved value
+ */
+export const GoalSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  solution: GoalSolution | null;
+  totalRate: number; // The solved plan's total return, dividends included
+  pensionIncome: number;
+  money: MoneyFormat;
+}> = ({ state, setState, solution, totalRate, pensionIncome, money }) => (
+  <>
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Goal
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {([['income', 'Monthly Income'], ['balance', 'Target Balance']] as const).map(([target, label]) => (
+          <button
+            key={target}
+            onClick={() => setState({ ...state, goalTarget: target })}
+            className={`p-3 rounded-lg border-2 transition-all font-semibold text-white text-sm ${
+              state.goalTarget === target
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    {state.goalTarget === 'income' ? (
+      <>
+        <InputField
+          label="Target Monthly Income"
+          value={state.targetMonthlyIncome || 0}
+          onChange={(v) => setState({ ...state, targetMonthlyIncome: v })}
+          prefix={money.symbol}
+          min={0}
+          step={100}
+        />
+        {state.pension.enabled && (
+          <div className="text-xs text-slate-400 -mt-4 mb-6">
+            {state.pension.startAge <= state.retirementAge
+              ? `The pension pays ${money.full(pensionIncome)}/mo at retirement, so the portfolio only has to fund the rest.`
+              : `The pension starts at ${state.pension.startAge}, after retirement, so the portfolio has to fund the full income.`}
+          </div>
+        )}
+      </>
+    ) : (
+      <InputField
+        label="Target Balance"
+        value={state.targetBalance || 0}
+        onChange={(v) => setState({ ...state, targetBalance: v })}
+        prefix={money.symbol}
+        min={0}
+        step={10000}
+      />
+    )}
+
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Solve For
+      </label>
+      <select
+        value={state.solveFor}
+        onChange={(e) => setState({ ...state, solveFor: e.target.value as GoalUnknown })}
+        className="w-full px-4 py-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+      >
+        {(Object.keys(GOAL_UNKNOWNS) as GoalUnknown[]).map((unknown) => (
+          <option key={unknown} value={unknown}>{GOAL_UNKNOWNS[unknown].label}</option>
+        ))}
+      </select>
+      {state.solveFor === 'annualRate' && (
+        <div className="text-xs text-slate-400 mt-2">
+          The solved return replaces the return rate settings below.
+        </div>
+      )}
+    </div>
+
+    {state.solveFor !== 'initialInvestment' && (
+      <InputField
+        label="Initial Investment"
+        value={state.initialInvestment || 0}
+        onChange={(v) => setState({ ...state, initialInvestment: v })}
+        prefix={money.symbol}
+        min={0}
+        step={1000}
+      />
+    )}
+
+    {state.solveFor !== 'monthlyContribution' && (
+      <InputField
+        label="Monthly Contribution"
+        value={state.monthlyContribution || 0}
+        onChange={(v) => setState({ ...state, monthlyContribution: v })}
+        prefix={money.symbol}
+        min={0}
+        step={100}
+      />
+    )}
+
+    {state.solveFor !== 'years' && (
+      <InputField
+        label="Time to Goal"
+        value={state.targetYears || 0}
+        onChange={(v) => setState({ ...state, targetYears: v })}
+        suffix="years"
+        min={1}
+        max={50}
+        step={1}
+      />
+    )}
+
+    {solution && (solution.value === null ? (
+      <div className="p-4 bg-amber-500/10 border-2 border-amber-500 rounded-lg">
+        <div className="text-sm font-semibold text-amber-300 mb-1">Goal out of reach</div>
+        <div className="text-xs text-slate-300">{solution.unreachableReason}</div>
+      </div>
+    ) : (
+      <div className="p-4 bg-blue-500/10 border-2 border-blue-500 rounded-lg">
+        <div className="text-sm text-slate-400 mb-1">{GOAL_UNKNOWNS[solution.unknown].resultLabel}</div>
+        <div className="text-2xl font-bold text-blue-400">
+          {formatGoalSolution(solution.unknown, solution.value, totalRate, money)}
+        </div>
+        <div className="text-xs text-slate-400 mt-1">To reach your goal</div>
+      </div>
+    ))}
+  </>
+);
@@ -0,0 +1,148 @@
+import { Area, AreaChart, CartesianGrid, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { AccountMonth, DrawdownResult, MoneyFormat, MonthData } from '../lib';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Balance and contributions through saving, then the drawdown when it's on,
+ * with the account's pre- and after-tax balances and markers for schedule changes
+ */
+export const GrowthChartPanel: React.FC<{
+  projections: MonthData[];
+  accountProjections: AccountMonth[];
+  drawdown: DrawdownResult | null;
+  accountLabel: string;
+  retirementLabel: string;
+  contributionMarkers: Map<number, string[]>;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ projections, accountProjections, drawdown, accountLabel, retirementLabel, contributionMarkers, yearAxis, lifeEventLines, money }) => {
+  const accumulationYears = projections.length / 12;
+  const accumulationChartData = projections.map((d, i) => ({
+    ...d,
+    preTaxBalance: accountProjections[i]?.preTaxBalance,
+    afterTaxBalance: accountProjections[i]?.afterTaxBalance
+  }));
+  // Accumulation followed by drawdown on one continuous month axis
+  const growthChartData = drawdown
+    ? [
+        ...accumulationChartData,
+        ...drawdown.months.map((d) => ({
+          month: projections.length + d.month,
+          year: Math.floor((projections.length + d.month) / 12),
+          balance: d.balance,
+          withdrawal: d.withdrawal
+        }))
+      ]
+    : accumulationChartData;
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">📈</span>
+        Investment Growth Projection
+      </h3>
+      <div className="h-[400px] -mx-2 pr-2">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={growthChartData.filter((_, i) => i % 6 === 0)}>
+            <defs>
+              <linearGradient id="colorBalance" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
+                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0.1}/>
+              </linearGradient>
+              <linearGradient id="colorContributions" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.8}/>
+                <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0.1}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value, name) => {
+                const label = name === 'balance' ? 'Total Balance' : 
+                             name === 'contributions' ? 'Total Contributions' : name;
+                return [money.full(Number(value)), label];
+              }}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <Area 
+              type="monotone"
+              dataKey="balance"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              fillOpacity={0.2}
+              fill="url(#colorBalance)"
+              name="Total Balance"
+              activeDot={{ r: 6, fill: '#3b82f6' }}
+            />
+            <Area 
+              type="monotone"
+              dataKey="contributions"
+              stroke="#8b5cf6"
+              strokeWidth={2}
+              fillOpacity={0.2}
+              fill="url(#colorContributions)"
+              name="Total Contributions"
+              activeDot={{ r: 6, fill: '#8b5cf6' }}
+            />
+            <Line 
+              type="monotone"
+              dataKey="preTaxBalance"
+              stroke="#10b981"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              name={`Pre-Tax (${accountLabel})`}
+            />
+            <Line 
+              type="monotone"
+              dataKey="afterTaxBalance"
+              stroke="#eab308"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+              name="After-Tax"
+            />
+            {drawdown && (
+              <ReferenceLine
+                x={accumulationYears}
+                stroke="#f59e0b"
+                strokeDasharray="4 4"
+                label={{ value: retirementLabel, fill: '#f59e0b', position: 'insideTopRight' }}
+              />
+            )}
+            {[...contributionMarkers].map(([year, labels]) => (
+              <ReferenceLine
+                key={year}
+                x={year}
+                stroke="#22d3ee"
+                strokeDasharray="2 4"
+                label={{ value: labels.join(', '), fill: '#22d3ee', fontSize: 11, position: 'insideTopLeft' }}
+              />
+            ))}
+            {lifeEventLines}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
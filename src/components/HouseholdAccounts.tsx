@@ -0,0 +1,170 @@
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SP500_INTEREST, type MoneyFormat, type PortfolioAccount, type PortfolioMonth, type PortfolioProjection } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Accounts saved alongside the main plan, such as a partner's or a child's
+ */
+export const HouseholdAccountsSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  accountColor: (id: string) => string;
+  money: MoneyFormat;
+}> = ({ state, setState, accountColor, money }) => {
+  const updateAccount = (id: string, changes: Partial<PortfolioAccount>) => setState({
+    ...state,
+    additionalAccounts: state.additionalAccounts.map((a) => (a.id === id ? { ...a, ...changes } : a))
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Additional Accounts
+      </label>
+      {state.additionalAccounts.map((account) => (
+        <div key={account.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ background: accountColor(account.id) }} />
+            <input
+              type="text"
+              value={account.name}
+              onChange={(e) => updateAccount(account.id, { name: e.target.value })}
+              className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+            />
+            <button
+              onClick={() => setState({
+                ...state,
+                additionalAccounts: state.additionalAccounts.filter((a) => a.id !== account.id)
+              })}
+              className="text-xs text-slate-400 hover:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-x-3">
+            <InputField
+              label="Initial"
+              value={account.initialInvestment}
+              onChange={(v) => updateAccount(account.id, { initialInvestment: v })}
+              prefix={money.symbol}
+              min={0}
+              step={1000}
+            />
+            <InputField
+              label="Monthly"
+              value={account.monthlyContribution}
+              onChange={(v) => updateAccount(account.id, { monthlyContribution: v })}
+              prefix={money.symbol}
+              min={0}
+              step={100}
+            />
+            <InputField
+              label="Return Rate"
+              value={account.annualRate}
+              onChange={(v) => updateAccount(account.id, { annualRate: v })}
+              suffix="%"
+              min={0}
+              max={50}
+              step={0.1}
+            />
+            <InputField
+              label="Timeline"
+              value={account.years}
+              onChange={(v) => updateAccount(account.id, { years: v })}
+              suffix="years"
+              min={1}
+              max={50}
+              step={1}
+            />
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={() => setState({
+          ...state,
+          additionalAccounts: [
+            ...state.additionalAccounts,
+            {
+              id: crypto.randomUUID(),
+              name: `Account ${state.additionalAccounts.length + 2}`,
+              initialInvestment: 0,
+              monthlyContribution: 200,
+              annualRate: SP500_INTEREST,
+              years: 18
+            }
+          ]
+        })}
+        className="w-full p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200"
+      >
+        + Add Account
+      </button>
+      <div className="text-xs text-slate-400 mt-2">
+        Each account drops out of the household total when its timeline ends.
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Every household account stacked into the household total
+ */
+export const HouseholdPortfolioPanel: React.FC<{
+  portfolio: PortfolioProjection;
+  accountColor: (id: string) => string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ portfolio, accountColor, yearAxis, lifeEventLines, money }) => (
+  <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+      <span className="text-3xl">🏠</span>
+      Household Portfolio
+    </h3>
+    <div className="h-[400px] -mx-2 pr-2">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={portfolio.months.filter((_, i) => i % 6 === 0)}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+          <XAxis 
+            dataKey="year" 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            tickFormatter={yearAxis.tick}
+            label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+          />
+          <YAxis 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            width={90}
+            tickMargin={5}
+            tickFormatter={money.short}
+          />
+          <Tooltip 
+            formatter={(value) => [money.full(Number(value))]}
+            labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+            contentStyle={{
+              background: '#1a202c',
+              border: '1px solid #4a5568',
+              borderRadius: '0.5rem',
+            }}
+          />
+          <Legend />
+          {portfolio.accounts.map((account) => (
+            <Area 
+              key={account.id}
+              type="monotone"
+              dataKey={(d: PortfolioMonth) => d.balances[account.id] ?? 0}
+              stackId="household"
+              stroke={accountColor(account.id)}
+              fill={accountColor(account.id)}
+              fillOpacity={0.4}
+              name={account.name}
+            />
+          ))}
+          {lifeEventLines}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
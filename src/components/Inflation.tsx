@@ -0,0 +1,91 @@
+import { CPI_SERIES, longRunInflation, type CpiSeriesId, type InflationSettings, type MoneyFormat } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * Fixed or historical inflation, indexed contributions and the today's-dollars view
+ */
+export const InflationAdjustmentSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updateInflation = (changes: Partial<InflationSettings>) => setState({
+    ...state,
+    inflation: { ...state.inflation, ...changes }
+  });
+  const inflationSeries = state.inflation.series && CPI_SERIES[state.inflation.series];
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Inflation
+      </label>
+      <select
+        value={state.inflation.series ?? 'fixed'}
+        onChange={(e) => updateInflation({
+          series: e.target.value === 'fixed' ? null : e.target.value as CpiSeriesId
+        })}
+        className="w-full px-4 py-3 mb-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+      >
+        <option value="fixed">Fixed annual rate</option>
+        {(Object.keys(CPI_SERIES) as CpiSeriesId[]).map((id) => (
+          <option key={id} value={id}>Historical {CPI_SERIES[id].label}</option>
+        ))}
+      </select>
+      {inflationSeries ? (
+        <>
+          <InputField
+            label="Replay From"
+            value={state.inflation.startYear}
+            onChange={(v) => updateInflation({ startYear: v })}
+            min={inflationSeries.rates[0].year}
+            max={inflationSeries.rates[inflationSeries.rates.length - 1].year}
+            step={1}
+          />
+          <div className="text-xs text-slate-400 -mt-4 mb-3">
+            {inflationSeries.label} from {state.inflation.startYear} onwards, then its {money.percent(longRunInflation(state.inflation))} long-run average
+          </div>
+        </>
+      ) : (
+        <InputField
+          label="Inflation Rate"
+          value={state.inflation.rate}
+          onChange={(v) => updateInflation({ rate: v })}
+          suffix="%"
+          min={-5}
+          max={20}
+          step={0.1}
+        />
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => setState({ ...state, indexContributions: !state.indexContributions })}
+          className={`p-3 rounded-lg border-2 transition-all ${
+            state.indexContributions
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white text-sm">Index Contributions</div>
+          <div className="text-xs text-slate-400 mt-1">
+            {state.indexContributions ? 'Rise with inflation' : 'Stay as entered'}
+          </div>
+        </button>
+        <button
+          onClick={() => setState({ ...state, todaysDollars: !state.todaysDollars })}
+          className={`p-3 rounded-lg border-2 transition-all ${
+            state.todaysDollars
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+          }`}
+        >
+          <div className="font-semibold text-white text-sm">Today's Dollars</div>
+          <div className="text-xs text-slate-400 mt-1">
+            {state.todaysDollars ? 'Results after inflation' : 'Results in future dollars'}
+          </div>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { MILESTONES, type MonthData } from '../lib';
+import { getInsights, type InsightInputs } from './insights';
+
+export const InsightsCard: React.FC<InsightInputs & { finalMonth: MonthData | undefined }> = ({ finalMonth, ...inputs }) => {
+  const { metrics, money } = inputs;
+  const insights = getInsights(inputs);
+  
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">💡</span>
+        Insights & What-If Scenarios
+      </h3>
+      
+      <div className="space-y-4">
+        {insights.map((insight, index) => (
+          <div 
+            key={index}
+            className={`p-4 rounded-lg border-l-4 ${
+              insight.type === 'success' ? 'bg-green-500/10 border-green-500' :
+              insight.type === 'warning' ? 'bg-yellow-500/10 border-yellow-500' :
+              insight.type === 'danger' ? 'bg-red-500/10 border-red-500' :
+              'bg-blue-500/10 border-blue-500'
+            }`}
+          >
+            <p className="text-sm text-slate-200 leading-relaxed">{insight.text}</p>
+          </div>
+        ))}
+      </div>
+      
+      {finalMonth && metrics.yearsTo1M < 100 && (
+        <div className="mt-6 p-6 rounded-lg border-l-4 border-purple-500 bg-purple-500/10">
+          <h4 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+            <span className="text-xl">🎯</span>
+            Milestone Timeline
+          </h4>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 text-sm">
+            <div className="flex items-start gap-2">
+              <span className="text-slate-400">•</span>
+              <div>
+                <div className="text-white font-medium">{metrics.yearsTo1M} years</div>
+                <div className="text-slate-400 text-xs">To {money.short(MILESTONES.yearsTo1M)}</div>
+              </div>
+            </div>
+            {metrics.yearsTo2M < 100 && (
+              <div className="flex items-start gap-2">
+                <span className="text-slate-400">•</span>
+                <div>
+                  <div className="text-white font-medium">{metrics.yearsTo2M} years</div>
+                  <div className="text-slate-400 text-xs">To {money.short(MILESTONES.yearsTo2M)}</div>
+                </div>
+              </div>
+            )}
+            {metrics.yearsTo5M < 100 && (
+              <div className="flex items-start gap-2">
+                <span className="text-slate-400">•</span>
+                <div>
+                  <div className="text-white font-medium">{metrics.yearsTo5M} years</div>
+                  <div className="text-slate-400 text-xs">To {money.short(MILESTONES.yearsTo5M)}</div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import {
+  LIFE_EVENT_TYPES,
+  MAX_PROJECTION_YEARS,
+  ageAt,
+  calendarYearAt,
+  yearsUntilAge,
+  type LifeEvent,
+  type LifeEventType,
+  type LifeTimeline,
+  type MoneyFormat
+} from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * Plan start date, birth year, chart axis and life events
+ */
+export const LifeTimelineSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  planYears: number;
+  money: MoneyFormat;
+}> = ({ state, setState, planYears, money }) => {
+  const updateTimeline = (changes: Partial<LifeTimeline>) => setState({
+    ...state,
+    timeline: { ...state.timeline, ...changes }
+  });
+  const updateLifeEvent = (id: string, changes: Partial<LifeEvent>) => updateTimeline({
+    events: state.timeline.events.map((e) => (e.id === id ? { ...e, ...changes } : e))
+  });
+  const planStartYear = Number(state.timeline.startDate.slice(0, 4));
+  const ageSuffix = (year: number) => (state.timeline.birthYear === null ? '' : ` (age ${year - state.timeline.birthYear})`);
+  // Saving until the retirement age can't be set when goal mode is solving for the time
+  const yearsToRetirementAge = state.mode === 'goal' && state.solveFor === 'years'
+    ? null
+    : yearsUntilAge(state.timeline, state.retirementAge);
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Life Timeline
+      </label>
+      <div className="grid grid-cols-2 gap-x-3">
+        <div className="mb-6">
+          <label className="block text-sm font-semibold text-slate-200 mb-2">
+            Plan Starts
+          </label>
+          <input
+            type="month"
+            value={state.timeline.startDate}
+            onChange={(e) => {
+              if (e.target.value) updateTimeline({ startDate: e.target.value });
+            }}
+            className="w-full px-4 py-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-lg font-semibold"
+          />
+        </div>
+        <InputField
+          label="Birth Year"
+          value={state.timeline.birthYear ?? 0}
+          onChange={(v) => updateTimeline({ birthYear: v > 0 ? v : null })}
+          min={1900}
+          max={planStartYear}
+          step={1}
+        />
+      </div>
+      {state.timeline.birthYear !== null && (
+        <div className="text-xs text-slate-400 -mt-4 mb-3">
+          You'll be {ageAt(state.timeline, planYears)} when the plan ends, in {calendarYearAt(state.timeline, planYears)}.
+        </div>
+      )}
+      {yearsToRetirementAge !== null && yearsToRetirementAge > 0 && yearsToRetirementAge !== planYears && (
+        <button
+          onClick={() => setState({
+            ...state,
+            [state.mode === 'investment' ? 'investmentYears' : 'targetYears']: Math.min(yearsToRetirementAge, MAX_PROJECTION_YEARS)
+          })}
+          className="w-full p-3 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900 hover:border-blue-500/50 transition-all text-sm font-semibold text-white"
+        >
+          Save Until Retirement at {state.retirementAge} ({yearsToRetirementAge} years)
+        </button>
+      )}
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        {([['plan', 'Plan Years'], ['calendar', 'Calendar'], ['age', 'Age']] as const).map(([axis, label]) => (
+          <button
+            key={axis}
+            onClick={() => setState({ ...state, chartAxis: axis })}
+            disabled={axis === 'age' && state.timeline.birthYear === null}
+            className={`p-3 rounded-lg border-2 transition-all font-semibold text-white text-sm disabled:opacity-50 ${
+              state.chartAxis === axis
+                ? 'border-blue-500 bg-blue-500/10'
+                : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {state.timeline.events.map((event) => (
+        <div key={event.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+          <div className="flex items-center gap-2 mb-4">
+            <select
+              value={event.type}
+              onChange={(e) => updateLifeEvent(event.id, { type: e.target.value as LifeEventType })}
+              className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+            >
+              {(Object.keys(LIFE_EVENT_TYPES) as LifeEventType[]).map((type) => (
+                <option key={type} value={type}>{LIFE_EVENT_TYPES[type].label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => updateTimeline({ events: state.timeline.events.filter((e) => e.id !== event.id) })}
+              className="text-xs text-slate-400 hover:text-red-400"
+            >
+              Remove
+            </button>
+          </div>
+          <input
+            type="text"
+            value={event.label}
+            onChange={(e) => updateLifeEvent(event.id, { label: e.target.value })}
+            className="w-full mb-4 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+          />
+          <div className="grid grid-cols-2 gap-x-3">
+            {(event.type === 'withdrawal' || event.type === 'expense') && (
+              <InputField
+                label={LIFE_EVENT_TYPES[event.type].amountLabel}
+                value={event.amount}
+                onChange={(v) => updateLifeEvent(event.id, { amount: v })}
+                prefix={money.symbol}
+                min={0}
+                step={1000}
+              />
+            )}
+            {event.type === 'part-time' && (
+              <InputField
+                label={LIFE_EVENT_TYPES[event.type].amountLabel}
+                value={event.amount}
+                onChange={(v) => updateLifeEvent(event.id, { amount: v })}
+                suffix="%"
+                min={0}
+                max={100}
+                step={10}
+              />
+            )}
+            <InputField
+              label={`${event.type === 'withdrawal' ? 'Year' : 'From'}${ageSuffix(event.startYear)}`}
+              value={event.startYear}
+              onChange={(v) => updateLifeEvent(event.id, { startYear: v })}
+              min={planStartYear}
+              step={1}
+            />
+            {event.type !== 'withdrawal' && (
+              <InputField
+                label={`To${ageSuffix(event.endYear)}`}
+                value={event.endYear}
+                onChange={(v) => updateLifeEvent(event.id, { endYear: v })}
+                min={planStartYear}
+                step={1}
+              />
+            )}
+          </div>
+          <div className="text-xs text-slate-400 -mt-4">{LIFE_EVENT_TYPES[event.type].description}</div>
+        </div>
+      ))}
+      <button
+        onClick={() => updateTimeline({
+          events: [
+            ...state.timeline.events,
+            {
+              id: crypto.randomUUID(),
+              type: 'withdrawal',
+              label: 'House Deposit',
+              startYear: planStartYear + 5,
+              endYear: planStartYear + 5,
+              amount: 100000
+            }
+          ]
+        })}
+        className="w-full p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200"
+      >
+        + Add Life Event
+      </button>
+      <div className="text-xs text-slate-400 mt-2">
+        Events run for whole calendar years. Withdrawals and expenses while saving come out of the balance; in retirement they're added to the drawdown.
+      </div>
+    </div>
+  );
+};
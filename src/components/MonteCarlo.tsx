@@ -0,0 +1,180 @@
+import { Area, AreaChart, CartesianGrid, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { MoneyFormat, MonteCarloResult, MonthData } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * How simulated markets are drawn: a normal distribution or resampled history
+ */
+export const MonteCarloSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+}> = ({ state, setState }) => (
+  <div className="mb-6">
+    <label className="block text-sm font-semibold text-slate-200 mb-3">
+      Volatility Model
+    </label>
+    <div className="grid grid-cols-2 gap-2 mb-3">
+      <button
+        onClick={() => setState({ ...state, simulationMethod: 'parametric' })}
+        className={`p-3 rounded-lg border-2 transition-all ${
+          state.simulationMethod === 'parametric'
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white text-sm">Parametric</div>
+        <div className="text-xs text-slate-400 mt-1">Mean &amp; volatility</div>
+      </button>
+      <button
+        onClick={() => setState({ ...state, simulationMethod: 'bootstrap' })}
+        className={`p-3 rounded-lg border-2 transition-all ${
+          state.simulationMethod === 'bootstrap'
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white text-sm">Historical</div>
+        <div className="text-xs text-slate-400 mt-1">Resample real years</div>
+      </button>
+    </div>
+    {state.simulationMethod === 'parametric' && (
+      <InputField
+        label="Annual Volatility"
+        value={state.volatility}
+        onChange={(v) => setState({ ...state, volatility: v })}
+        suffix="%"
+        min={0}
+        max={60}
+        step={0.1}
+      />
+    )}
+  </div>
+);
+
+/**
+ * Percentile fan of simulated markets around the constant-rate projection
+ * monteCarlo is null until the first simulation finishes
+ */
+export const MonteCarloPanel: React.FC<{
+  monteCarlo: MonteCarloResult | null;
+  running: boolean;
+  goalMode: boolean;
+  projections: MonthData[];
+  rateLabel: string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ monteCarlo, running, goalMode, projections, rateLabel, yearAxis, lifeEventLines, money }) => {
+  const monteCarloChartData = monteCarlo
+    ? monteCarlo.bands.map((band) => ({
+        ...band,
+        outerBand: [band.p5, band.p95],
+        innerBand: [band.p25, band.p75],
+        balance: band.year === 0 ? band.p50 : projections[band.year * 12 - 1]?.balance
+      }))
+    : [];
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">⚡</span>
+        Market Volatility Scenarios
+      </h3>
+      {monteCarlo ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <MetricCard
+              title={goalMode ? 'Chance of Reaching Goal' : 'Chance of Beating Projection'}
+              value={money.percent(monteCarlo.probabilityOfGoal, 0)}
+              subtitle={`${money.number(monteCarlo.simulations)} simulations${running ? ' · updating…' : ''}`}
+              highlight
+            />
+            <MetricCard
+              title="Median Outcome"
+              value={money.short(monteCarlo.bands[monteCarlo.bands.length - 1].p50)}
+              subtitle="50th percentile"
+            />
+            <MetricCard
+              title="Bad Market Outcome"
+              value={money.short(monteCarlo.bands[monteCarlo.bands.length - 1].p5)}
+              subtitle="5th percentile"
+            />
+          </div>
+          <div className="h-[400px] -mx-2 pr-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={monteCarloChartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                <XAxis 
+                  dataKey="year" 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  tickFormatter={yearAxis.tick}
+                  label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                />
+                <YAxis 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  width={90}
+                  tickMargin={5}
+                  tickFormatter={money.short}
+                />
+                <Tooltip 
+                  formatter={(value) => [
+                    Array.isArray(value)
+                      ? `${money.full(Number(value[0]))} – ${money.full(Number(value[1]))}`
+                      : money.full(Number(value))
+                  ]}
+                  labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+                  contentStyle={{
+                    background: '#1a202c',
+                    border: '1px solid #4a5568',
+                    borderRadius: '0.5rem',
+                  }}
+                />
+                <Legend />
+                <Area 
+                  type="monotone" 
+                  dataKey="outerBand" 
+                  stroke="none" 
+                  fill="#8b5cf6"
+                  fillOpacity={0.15}
+                  name="5th–95th percentile"
+                />
+                <Area 
+                  type="monotone" 
+                  dataKey="innerBand" 
+                  stroke="none" 
+                  fill="#8b5cf6"
+                  fillOpacity={0.35}
+                  name="25th–75th percentile"
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="p50" 
+                  stroke="#10b981" 
+                  strokeWidth={2}
+                  dot={false}
+                  name="Median"
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="balance" 
+                  stroke="#3b82f6" 
+                  strokeWidth={3}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  name={`Constant ${rateLabel}`}
+                />
+                {lifeEventLines}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400">Running simulations…</p>
+      )}
+    </div>
+  );
+};
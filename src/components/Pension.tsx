@@ -0,0 +1,127 @@
+import { PENSION_PRESETS, type MoneyFormat, type PensionMeansTest, type PensionSettings } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+
+/**
+ * Government pension toggle, its amount and the optional Australian assets test
+ */
+export const GovernmentPensionSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+  money: MoneyFormat;
+}> = ({ state, setState, money }) => {
+  const updatePension = (changes: Partial<PensionSettings>) => setState({
+    ...state,
+    pension: { ...state.pension, ...changes }
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Government Pension
+      </label>
+      <button
+        onClick={() => updatePension({ enabled: !state.pension.enabled })}
+        className={`w-full p-3 rounded-lg border-2 transition-all text-left mb-3 ${
+          state.pension.enabled
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white">
+          {state.pension.enabled ? 'Pension On' : 'Pension Off'}
+        </div>
+        <div className="text-xs text-slate-400 mt-1">
+          Social Security or the Age Pension, paid on top of portfolio withdrawals
+        </div>
+      </button>
+      {state.pension.enabled && (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-3">
+            {PENSION_PRESETS.map((preset) => {
+              const active = (Object.keys(preset.settings) as (keyof typeof preset.settings)[])
+                .every((key) => preset.settings[key] === state.pension[key]);
+              return (
+                <button
+                  key={preset.label}
+                  onClick={() => updatePension(preset.settings)}
+                  className={`p-3 rounded-lg border-2 transition-all ${
+                    active
+                      ? 'border-blue-500 bg-blue-500/10'
+                      : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+                  }`}
+                >
+                  <div className="font-semibold text-white text-sm">{preset.label}</div>
+                  <div className="text-xs text-slate-400 mt-1">{preset.description}</div>
+                </button>
+              );
+            })}
+          </div>
+          <div className="grid grid-cols-2 gap-x-3">
+            <InputField
+              label="Start Age"
+              value={state.pension.startAge}
+              onChange={(v) => updatePension({ startAge: v })}
+              suffix="years old"
+              min={0}
+              max={120}
+              step={1}
+            />
+            <InputField
+              label="Full Amount"
+              value={state.pension.monthlyAmount}
+              onChange={(v) => updatePension({ monthlyAmount: v })}
+              prefix={money.symbol}
+              suffix="/mo"
+              min={0}
+              step={10}
+            />
+          </div>
+          <select
+            value={state.pension.meansTest}
+            onChange={(e) => updatePension({ meansTest: e.target.value as PensionMeansTest })}
+            className="w-full px-4 py-3 mb-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+          >
+            <option value="none">No means test</option>
+            <option value="au-assets">Australian assets test</option>
+          </select>
+          {state.pension.meansTest === 'au-assets' && (
+            <>
+              <div className="grid grid-cols-2 gap-2 mb-3">
+                {([
+                  ['couple', 'Couple', 'Single'],
+                  ['homeowner', 'Homeowner', 'Non-Homeowner']
+                ] as const).map(([key, on, off]) => (
+                  <button
+                    key={key}
+                    onClick={() => updatePension({ [key]: !state.pension[key] })}
+                    className={`p-3 rounded-lg border-2 transition-all ${
+                      state.pension[key]
+                        ? 'border-blue-500 bg-blue-500/10'
+                        : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+                    }`}
+                  >
+                    <div className="font-semibold text-white text-sm">{state.pension[key] ? on : off}</div>
+                  </button>
+                ))}
+              </div>
+              <InputField
+                label="Other Assessable Assets"
+                value={state.pension.otherAssets}
+                onChange={(v) => updatePension({ otherAssets: v })}
+                prefix={money.symbol}
+                min={0}
+                step={10000}
+              />
+            </>
+          )}
+          <div className="text-xs text-slate-400">
+            Amounts are in today's dollars and rise with inflation.
+            {state.pension.meansTest === 'au-assets' &&
+              ' The pension falls by $3 a fortnight for every $1,000 of portfolio and other assets over the September 2024 thresholds; the family home is excluded.'}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
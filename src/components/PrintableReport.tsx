@@ -0,0 +1,181 @@
+import { Area, AreaChart, CartesianGrid, Legend, Line, LineChart, XAxis, YAxis } from 'recharts';
+import {
+  MAX_PROJECTION_YEARS,
+  MILESTONES,
+  type Benchmark,
+  type ExportAssumption,
+  type InvestmentMetrics,
+  type MoneyFormat,
+  type MonteCarloResult,
+  type MonthData
+} from '../lib';
+import { benchmarkLabel } from './benchmarkLabel';
+import type { Insight } from './insights';
+import type { YearAxis } from './yearAxis';
+
+// Printed with every report
+const DISCLAIMERS = [
+  'This calculator is for educational and planning purposes only and is not financial advice.',
+  'Past S&P 500 performance does not guarantee future results. The historical average annual return is not guaranteed, and actual returns may vary significantly.',
+  'Projections assume steady returns, but real markets rise and fall from year to year. Simulated ranges show possible outcomes, not predictions.',
+  'Tax, dividend and inflation assumptions are simplified. Always consult a qualified financial advisor before making investment decisions.'
+];
+
+// Fixed-size charts print crisply as SVG; ResponsiveContainer can't measure a hidden page
+const REPORT_CHART_WIDTH = 680;
+const REPORT_CHART_HEIGHT = 280;
+
+const ReportSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-8 break-inside-avoid">
+    <h2 className="text-xl font-bold text-slate-900 border-b-2 border-slate-300 pb-1 mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+/**
+ * Multi-page client report, laid out for the browser's print dialog (or "Save as PDF")
+ * Charts render as SVG, so they stay vector in the printed output
+ */
+export const PrintableReport: React.FC<{
+  assumptions: ExportAssumption[];
+  metrics: InvestmentMetrics;
+  projections: MonthData[];
+  monteCarlo: MonteCarloResult | null;
+  insights: Insight[];
+  incomeLabel: string;
+  rateLabel: string;
+  benchmarks: Benchmark[];
+  todaysDollars: boolean;
+  money: MoneyFormat;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+}> = ({ assumptions, metrics, projections, monteCarlo, insights, incomeLabel, rateLabel, benchmarks, todaysDollars, money, yearAxis, lifeEventLines }) => {
+  const yearlyData = projections.filter((d) => d.month % 12 === 0);
+  const keyMetrics = [
+    { label: 'Final Balance', value: money.full(metrics.finalBalance) },
+    { label: 'Total Contributions', value: money.full(metrics.totalContributions) },
+    { label: 'Investment Gains', value: money.full(metrics.totalGains) },
+    { label: "In Today's Dollars", value: money.full(metrics.inflationAdjustedValue) },
+    { label: 'Lifetime Fees Paid', value: money.full(metrics.totalFees) },
+    { label: `Monthly Income (${incomeLabel})`, value: money.full(metrics.monthlyIncome) },
+    { label: 'Income Lasts', value: metrics.withdrawalSustainability >= MAX_PROJECTION_YEARS ? `${MAX_PROJECTION_YEARS}+ years` : `${metrics.withdrawalSustainability} years` },
+    { label: `Years to ${money.short(MILESTONES.yearsTo1M)}`, value: metrics.yearsTo1M < 100 ? `${metrics.yearsTo1M} years` : 'Not reached' },
+    ...benchmarks.map((b) => ({ label: `Advantage vs ${b.name}`, value: money.full(metrics.vsBenchmarks[b.id] ?? 0) }))
+  ];
+
+  return (
+    <div className="text-slate-900 bg-white">
+      {/* Page 1: inputs and headline numbers */}
+      <div className="break-after-page">
+        <h1 className="text-3xl font-bold mb-1">S&P 500 Investment Plan</h1>
+        <p className="text-sm text-slate-600 mb-8">Prepared {new Date().toLocaleDateString()}</p>
+
+        <ReportSection title="Key Results">
+          <div className="grid grid-cols-3 gap-3">
+            {keyMetrics.map((metric) => (
+              <div key={metric.label} className="border border-slate-300 rounded p-3">
+                <div className="text-xs text-slate-600">{metric.label}</div>
+                <div className="text-lg font-bold">{metric.value}</div>
+              </div>
+            ))}
+          </div>
+        </ReportSection>
+
+        <ReportSection title="Inputs & Assumptions">
+          <table className="w-full text-sm">
+            <tbody>
+              {assumptions.map((assumption, i) => (
+                <tr key={i} className="border-b border-slate-200">
+                  <td className="py-1 pr-4 text-slate-600">{assumption.label}</td>
+                  <td className="py-1 font-semibold">{assumption.value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ReportSection>
+      </div>
+
+      {/* Page 2: growth and comparison */}
+      <div className="break-after-page">
+        <ReportSection title="Portfolio Growth">
+          <AreaChart width={REPORT_CHART_WIDTH} height={REPORT_CHART_HEIGHT} data={yearlyData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="year" tick={{ fill: '#475569' }} tickFormatter={yearAxis.tick} />
+            <YAxis width={70} tick={{ fill: '#475569' }} tickFormatter={money.short} />
+            <Legend />
+            <Area type="monotone" dataKey="balance" stroke="#2563eb" fill="#2563eb" fillOpacity={0.25} isAnimationActive={false} name={`Balance (${rateLabel})`} />
+            <Area type="monotone" dataKey="contributions" stroke="#059669" fill="#059669" fillOpacity={0.25} isAnimationActive={false} name="Contributions" />
+            {!todaysDollars && (
+              <Line type="monotone" dataKey="inflationAdjusted" stroke="#d97706" strokeDasharray="5 5" dot={false} isAnimationActive={false} name="Inflation-Adjusted" />
+            )}
+            {lifeEventLines}
+          </AreaChart>
+        </ReportSection>
+
+        <ReportSection title="Investment Comparison">
+          <LineChart width={REPORT_CHART_WIDTH} height={REPORT_CHART_HEIGHT} data={yearlyData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="year" tick={{ fill: '#475569' }} tickFormatter={yearAxis.tick} />
+            <YAxis width={70} tick={{ fill: '#475569' }} tickFormatter={money.short} />
+            <Legend />
+            <Line type="monotone" dataKey="balance" stroke="#2563eb" strokeWidth={2} dot={false} isAnimationActive={false} name={`Your Plan (${rateLabel})`} />
+            {benchmarks.map((b) => (
+              <Line key={b.id} type="monotone" dataKey={(d: MonthData) => d.benchmarks[b.id]} stroke={b.color} strokeWidth={2} dot={false} isAnimationActive={false} name={benchmarkLabel(b)} />
+            ))}
+            {lifeEventLines}
+          </LineChart>
+        </ReportSection>
+      </div>
+
+      {/* Page 3: volatility and insights */}
+      <div className="break-after-page">
+        <ReportSection title="Market Volatility">
+          {monteCarlo ? (
+            <>
+              <AreaChart
+                width={REPORT_CHART_WIDTH}
+                height={REPORT_CHART_HEIGHT}
+                data={monteCarlo.bands.map((band) => ({
+                  ...band,
+                  outerBand: [band.p5, band.p95],
+                  innerBand: [band.p25, band.p75]
+                }))}
+              >
+                <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                <XAxis dataKey="year" tick={{ fill: '#475569' }} tickFormatter={yearAxis.tick} />
+                <YAxis width={70} tick={{ fill: '#475569' }} tickFormatter={money.short} />
+                <Legend />
+                <Area type="monotone" dataKey="outerBand" stroke="none" fill="#7c3aed" fillOpacity={0.15} isAnimationActive={false} name="5th–95th percentile" />
+                <Area type="monotone" dataKey="innerBand" stroke="none" fill="#7c3aed" fillOpacity={0.3} isAnimationActive={false} name="25th–75th percentile" />
+                <Line type="monotone" dataKey="p50" stroke="#059669" strokeWidth={2} dot={false} isAnimationActive={false} name="Median" />
+                {lifeEventLines}
+              </AreaChart>
+              <p className="text-sm text-slate-600 mt-2">
+                {money.number(monteCarlo.simulations)} simulated markets; {money.percent(monteCarlo.probabilityOfGoal, 0)} reach the target balance.
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-slate-600">The market simulation hadn't finished when this report was generated.</p>
+          )}
+        </ReportSection>
+
+        <ReportSection title="Insights">
+          <ul className="space-y-2 text-sm">
+            {insights.map((insight, index) => (
+              <li key={index} className="border-l-4 border-slate-400 pl-3">{insight.text}</li>
+            ))}
+          </ul>
+        </ReportSection>
+      </div>
+
+      {/* Final page: disclaimers */}
+      <ReportSection title="Important Disclaimers">
+        <div className="space-y-2 text-sm text-slate-700">
+          {DISCLAIMERS.map((disclaimer) => (
+            <p key={disclaimer}>{disclaimer}</p>
+          ))}
+        </div>
+      </ReportSection>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  MAX_PROJECTION_YEARS,
+  WITHDRAWAL_STRATEGIES,
+  type IncomeYear,
+  type MoneyFormat,
+  type WithdrawalStrategyId
+} from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField, MetricCard } from './fields';
+
+/**
+ * Withdrawal strategy, retirement age and how long retirement lasts
+ */
+export const WithdrawalStrategySettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+}> = ({ state, setState }) => {
+  const withdrawalStrategy = WITHDRAWAL_STRATEGIES[state.withdrawalStrategy];
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Withdrawal Strategy
+      </label>
+      <select
+        value={state.withdrawalStrategy}
+        onChange={(e) => setState({ ...state, withdrawalStrategy: e.target.value as WithdrawalStrategyId })}
+        className="w-full px-4 py-3 mb-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+      >
+        {Object.values(WITHDRAWAL_STRATEGIES).map((strategy) => (
+          <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+        ))}
+      </select>
+      <div className="text-xs text-slate-400 mb-4">{withdrawalStrategy.description}</div>
+      {(state.withdrawalStrategy === 'fixed-percentage' ||
+        state.withdrawalStrategy === 'constant-dollar' ||
+        state.withdrawalStrategy === 'guardrails') && (
+        <InputField
+          label="Initial Withdrawal Rate"
+          value={state.withdrawalRate}
+          onChange={(v) => setState({ ...state, withdrawalRate: v })}
+          suffix="%"
+          min={0}
+          max={20}
+          step={0.1}
+        />
+      )}
+      <InputField
+        label="Retirement Age"
+        value={state.retirementAge}
+        onChange={(v) => setState({ ...state, retirementAge: v })}
+        suffix="years old"
+        min={18}
+        max={100}
+        step={1}
+      />
+      <InputField
+        label="Retirement Length"
+        value={state.retirementYears}
+        onChange={(v) => setState({ ...state, retirementYears: v })}
+        suffix="years"
+        min={1}
+        max={MAX_PROJECTION_YEARS}
+        step={1}
+      />
+    </div>
+  );
+};
+
+/**
+ * Income in each year of retirement under the withdrawal strategy, plus any pension
+ */
+export const IncomeSchedulePanel: React.FC<{
+  incomeSchedule: IncomeYear[];
+  strategyLabel: string;
+  pensionEnabled: boolean;
+  money: MoneyFormat;
+}> = ({ incomeSchedule, strategyLabel, pensionEnabled, money }) => (
+  <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+    <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+      <span className="text-3xl">💵</span>
+      Retirement Income Schedule
+    </h3>
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+      <MetricCard
+        title="First-Year Income"
+        value={`${money.full(Math.round(incomeSchedule[0].income / 12))}/mo`}
+        subtitle={incomeSchedule[0].pension > 0
+          ? `Plus ${money.full(Math.round(incomeSchedule[0].pension / 12))}/mo pension`
+          : `${money.percent(incomeSchedule[0].withdrawalRate)} withdrawal rate`}
+        highlight
+      />
+      <MetricCard
+        title="Lowest Year"
+        value={`${money.full(Math.round(Math.min(...incomeSchedule.map((y) => y.income)) / 12))}/mo`}
+        subtitle={strategyLabel}
+      />
+      <MetricCard
+        title="Total Income"
+        value={money.short(incomeSchedule.reduce((sum, y) => sum + y.income, 0))}
+        subtitle={`Ending balance ${money.short(incomeSchedule[incomeSchedule.length - 1].endBalance)}`}
+      />
+    </div>
+    <div className="h-[300px] -mx-2 pr-2">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={incomeSchedule}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+          <XAxis 
+            dataKey="age" 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            label={{ value: 'Age', position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+          />
+          <YAxis 
+            tick={{ fill: '#a0aec0' }}
+            axisLine={{ stroke: '#4a5568' }}
+            width={90}
+            tickMargin={5}
+            tickFormatter={money.short}
+          />
+          <Tooltip 
+            formatter={(value, name) => [money.full(Number(value)), name]}
+            labelFormatter={(age) => `Age ${age}`}
+            contentStyle={{
+              background: '#1a202c',
+              border: '1px solid #4a5568',
+              borderRadius: '0.5rem',
+            }}
+          />
+          <Bar dataKey="income" stackId="income" fill="#10b981" name={pensionEnabled ? 'Portfolio Withdrawals' : 'Annual Income'} />
+          {pensionEnabled && (
+            <Bar dataKey="pension" stackId="income" fill="#f59e0b" name="Government Pension" />
+          )}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { MAX_PROJECTION_YEARS, MILESTONES, type InvestmentMetrics, type MonthData, type MoneyFormat } from '../lib';
+import type { CalculatorState, PlanResult } from '../calculatorState';
+import type { SavedScenario } from '../savedScenarios';
+import type { YearAxis } from './yearAxis';
+
+// A saved scenario recalculated for the comparison
+export interface ComparedScenario {
+  id: string;
+  name: string;
+  color: string;
+  plan: PlanResult;
+}
+
+/**
+ * Saving the current plan, and loading, deleting and comparing saved ones
+ */
+export const SavedScenariosSettings: React.FC<{
+  scenarios: SavedScenario[];
+  comparedIds: string[];
+  storageFailed: boolean;
+  onSave: (name: string) => void;
+  onLoad: (state: CalculatorState) => void;
+  onDelete: (id: string) => void;
+  onToggleCompared: (id: string) => void;
+}> = ({ scenarios, comparedIds, storageFailed, onSave, onLoad, onDelete, onToggleCompared }) => {
+  const [name, setName] = useState('');
+  const save = () => {
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Saved Scenarios
+      </label>
+      <div className="flex gap-2 mb-3">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && save()}
+          placeholder={`Scenario ${scenarios.length + 1}`}
+          className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+        />
+        <button
+          onClick={save}
+          className="px-4 py-2 rounded-lg border-2 border-blue-500 bg-blue-500/10 hover:bg-blue-500/20 text-sm font-semibold text-white"
+        >
+          Save
+        </button>
+      </div>
+      {scenarios.map((scenario) => (
+        <div
+          key={scenario.id}
+          className={`p-3 mb-2 rounded-lg border-2 transition-all ${
+            comparedIds.includes(scenario.id)
+              ? 'border-blue-500 bg-blue-500/10'
+              : 'border-slate-700 bg-slate-900'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <button
+              onClick={() => onToggleCompared(scenario.id)}
+              className="flex-1 min-w-0 text-left"
+              title="Toggle in the comparison"
+            >
+              <div className="font-semibold text-white text-sm truncate">{scenario.name}</div>
+              <div className="text-xs text-slate-400 mt-1">
+                Saved {new Date(scenario.savedAt).toLocaleDateString()}
+              </div>
+            </button>
+            <button
+              onClick={() => onLoad(scenario.state)}
+              className="text-xs text-slate-400 hover:text-blue-400"
+            >
+              Load
+            </button>
+            <button
+              onClick={() => onDelete(scenario.id)}
+              className="text-xs text-slate-400 hover:text-red-400"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+      <div className="text-xs text-slate-400 mt-2">
+        {storageFailed
+          ? "This browser won't store scenarios, so they'll be lost when you leave the page."
+          : 'Scenarios are kept in this browser. Click one to add it to the comparison.'}
+      </div>
+    </div>
+  );
+};
+
+type ScenarioMetricUnit = 'money' | 'income' | 'milestone' | 'duration';
+
+/**
+ * Metrics compared across saved scenarios, with milestone amounts in the given money format
+ * Better is the direction that counts as an improvement
+ */
+const scenarioMetrics = (money: MoneyFormat): {
+  key: Exclude<keyof InvestmentMetrics, 'requiredRate' | 'vsBenchmarks'>;
+  label: string;
+  unit: ScenarioMetricUnit;
+  better: 'higher' | 'lower' | null;
+}[] => [
+  { key: 'finalBalance', label: 'Final Balance', unit: 'money', better: 'higher' },
+  { key: 'monthlyIncome', label: 'Monthly Income', unit: 'income', better: 'higher' },
+  { key: 'totalContributions', label: 'Total Contributions', unit: 'money', better: null },
+  { key: 'totalGains', label: 'Total Gains', unit: 'money', better: 'higher' },
+  { key: 'totalFees', label: 'Lifetime Fees', unit: 'money', better: 'lower' },
+  { key: 'yearsTo1M', label: `Years to ${money.short(MILESTONES.yearsTo1M)}`, unit: 'milestone', better: 'lower' },
+  { key: 'yearsTo2M', label: `Years to ${money.short(MILESTONES.yearsTo2M)}`, unit: 'milestone', better: 'lower' },
+  { key: 'yearsTo5M', label: `Years to ${money.short(MILESTONES.yearsTo5M)}`, unit: 'milestone', better: 'lower' },
+  { key: 'withdrawalSustainability', label: 'Income Lasts', unit: 'duration', better: 'higher' }
+];
+
+const formatScenarioValue = (value: number, unit: ScenarioMetricUnit, money: MoneyFormat): string => {
+  switch (unit) {
+    case 'money':
+      return money.short(value);
+    case 'income':
+      return `${money.full(value)}/mo`;
+    case 'milestone':
+      return value >= MAX_PROJECTION_YEARS ? 'Never' : `${value} yr`;
+    case 'duration':
+      return value >= MAX_PROJECTION_YEARS ? `${MAX_PROJECTION_YEARS}+ yr` : `${value} yr`;
+  }
+};
+
+const formatScenarioDelta = (delta: number, unit: ScenarioMetricUnit, money: MoneyFormat): string => {
+  const sign = delta > 0 ? '+' : '−';
+  const size = Math.abs(delta);
+  if (unit === 'money') return `${sign}${money.short(size)}`;
+  if (unit === 'income') return `${sign}${money.full(size)}/mo`;
+  return `${sign}${size.toFixed(1)} yr`;
+};
+
+const ScenarioComparisonTable: React.FC<{
+  current: InvestmentMetrics;
+  scenarios: { id: string; name: string; color: string; metrics: InvestmentMetrics }[];
+  money: MoneyFormat;
+}> = ({ current, scenarios, money }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-slate-700">
+          <th className="text-left text-slate-400 font-semibold py-3 pr-4">Metric</th>
+          <th className="text-right text-blue-400 font-semibold py-3 px-4">Current Plan</th>
+          {scenarios.map((scenario) => (
+            <th key={scenario.id} className="text-right font-semibold py-3 px-4" style={{ color: scenario.color }}>
+              {scenario.name}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {scenarioMetrics(money).map((row) => (
+          <tr key={row.key} className="border-b border-slate-700/50">
+            <td className="text-slate-300 py-3 pr-4">{row.label}</td>
+            <td className="text-right text-white font-semibold py-3 px-4">
+              {formatScenarioValue(current[row.key], row.unit, money)}
+            </td>
+            {scenarios.map((scenario) => {
+              const value = scenario.metrics[row.key];
+              const delta = value - current[row.key];
+              // Unreached milestones are capped, so a difference against them means nothing
+              const capped = (row.unit === 'milestone' || row.unit === 'duration') &&
+                (value >= MAX_PROJECTION_YEARS || current[row.key] >= MAX_PROJECTION_YEARS);
+              const improved = row.better === 'higher' ? delta > 0 : delta < 0;
+              return (
+                <td key={scenario.id} className="text-right py-3 px-4">
+                  <div className="text-white font-semibold">{formatScenarioValue(value, row.unit, money)}</div>
+                  {delta !== 0 && !capped && (
+                    <div className={`text-xs ${row.better === null ? 'text-slate-400' : improved ? 'text-green-400' : 'text-red-400'}`}>
+                      {formatScenarioDelta(delta, row.unit, money)}
+                    </div>
+                  )}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const balanceAtYear = (monthData: MonthData[], startBalance: number, year: number) =>
+  year === 0 ? startBalance : monthData[year * 12 - 1]?.balance;
+
+/**
+ * The current plan's growth and metrics against each compared scenario
+ */
+export const ScenarioComparisonPanel: React.FC<{
+  comparedScenarios: ComparedScenario[];
+  projections: MonthData[];
+  initialInvestment: number;
+  metrics: InvestmentMetrics;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ comparedScenarios, projections, initialInvestment, metrics, yearAxis, lifeEventLines, money }) => {
+  const accumulationYears = projections.length / 12;
+  const scenarioChartData = Array.from(
+    { length: Math.max(accumulationYears, ...comparedScenarios.map((s) => s.plan.years)) + 1 },
+    (_, year) => ({
+      year,
+      current: balanceAtYear(projections, initialInvestment, year),
+      ...Object.fromEntries(comparedScenarios.map((s) => [
+        s.id,
+        balanceAtYear(s.plan.projections, s.plan.initialInvestment, year)
+      ]))
+    })
+  );
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🆚</span>
+        Scenario Comparison
+      </h3>
+      <div className="h-[350px] -mx-2 pr-2 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={scenarioChartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value) => money.full(Number(value))}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <Line 
+              type="monotone" 
+              dataKey="current" 
+              stroke="#3b82f6" 
+              strokeWidth={3}
+              dot={false}
+              name="Current Plan"
+            />
+            {comparedScenarios.map((scenario) => (
+              <Line 
+                key={scenario.id}
+                type="monotone" 
+                dataKey={scenario.id} 
+                stroke={scenario.color} 
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name={scenario.name}
+              />
+            ))}
+            {lifeEventLines}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <ScenarioComparisonTable
+        current={metrics}
+        scenarios={comparedScenarios.map((scenario) => ({ ...scenario, metrics: scenario.plan.metrics }))}
+        money={money}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  DEFAULT_MARKET_SHOCK,
+  MAX_PROJECTION_YEARS,
+  SP500_ANNUAL_RETURNS,
+  type MarketShock,
+  type MoneyFormat,
+  type SequencePath,
+  type SequenceRiskResult
+} from '../lib';
+import type { CalculatorState } from '../calculatorState';
+import { InputField } from './fields';
+import type { YearAxis } from './yearAxis';
+
+/**
+ * Sequence-risk toggle and the market shocks to inject
+ */
+export const SequenceRiskSettings: React.FC<{
+  state: CalculatorState;
+  setState: (state: CalculatorState) => void;
+}> = ({ state, setState }) => {
+  const updateShock = (id: string, changes: Partial<MarketShock>) => setState({
+    ...state,
+    marketShocks: state.marketShocks.map((s) => (s.id === id ? { ...s, ...changes } : s))
+  });
+
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-3">
+        Sequence-of-Returns Risk
+      </label>
+      <button
+        onClick={() => setState({ ...state, showSequenceRisk: !state.showSequenceRisk })}
+        className={`w-full p-3 mb-3 rounded-lg border-2 transition-all text-left ${
+          state.showSequenceRisk
+            ? 'border-blue-500 bg-blue-500/10'
+            : 'border-slate-700 bg-slate-900 hover:border-blue-500/50'
+        }`}
+      >
+        <div className="font-semibold text-white">
+          {state.showSequenceRisk ? 'Sequence Risk On' : 'Sequence Risk Off'}
+        </div>
+        <div className="text-xs text-slate-400 mt-1">
+          Test market crashes and reordered history through saving and retirement
+        </div>
+      </button>
+      {state.showSequenceRisk && (
+        <>
+          {state.marketShocks.map((shock) => (
+            <div key={shock.id} className="p-4 mb-3 rounded-lg border-2 border-slate-700 bg-slate-900">
+              <div className="flex items-center gap-2 mb-4">
+                <select
+                  value={shock.phase}
+                  onChange={(e) => updateShock(shock.id, { phase: e.target.value as MarketShock['phase'] })}
+                  className="flex-1 min-w-0 px-3 py-2 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white font-semibold"
+                >
+                  <option value="accumulation">While saving</option>
+                  <option value="retirement">In retirement</option>
+                </select>
+                <button
+                  onClick={() => setState({
+                    ...state,
+                    marketShocks: state.marketShocks.filter((s) => s.id !== shock.id)
+                  })}
+                  className="text-xs text-slate-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-x-3">
+                <InputField
+                  label="Year"
+                  value={shock.year}
+                  onChange={(v) => updateShock(shock.id, { year: v })}
+                  min={1}
+                  max={MAX_PROJECTION_YEARS}
+                  step={1}
+                />
+                <InputField
+                  label="Fall"
+                  value={shock.drop}
+                  onChange={(v) => updateShock(shock.id, { drop: v })}
+                  suffix="%"
+                  min={0}
+                  max={99}
+                  step={5}
+                />
+                <InputField
+                  label="Recovery"
+                  value={shock.recoveryYears}
+                  onChange={(v) => updateShock(shock.id, { recoveryYears: v })}
+                  suffix="yr"
+                  min={0}
+                  max={20}
+                  step={1}
+                />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setState({
+              ...state,
+              marketShocks: [...state.marketShocks, { id: crypto.randomUUID(), ...DEFAULT_MARKET_SHOCK }]
+            })}
+            className="w-full p-3 rounded-lg border-2 border-dashed border-slate-700 bg-slate-900 hover:border-blue-500/50 text-sm font-semibold text-slate-200"
+          >
+            + Add Market Shock
+          </button>
+          <div className="text-xs text-slate-400 mt-2">
+            Years count from the start of the phase. A recovery climbs back to where steady returns would have been; 0 makes the loss permanent.
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * The plan run through steady returns, market shocks and reordered history
+ */
+export const SequenceRiskPanel: React.FC<{
+  sequenceRisk: SequenceRiskResult;
+  monthlyWithdrawal: number;
+  rateLabel: string;
+  retirementLabel: string;
+  yearAxis: YearAxis;
+  lifeEventLines: React.ReactNode;
+  money: MoneyFormat;
+}> = ({ sequenceRisk, monthlyWithdrawal, rateLabel, retirementLabel, yearAxis, lifeEventLines, money }) => {
+  // Every sequence-risk path, split between the plan's own returns and reordered history
+  const { historical } = sequenceRisk;
+  const sequencePaths: { key: string; label: string; color: string; history: boolean; path: SequencePath }[] = [
+    { key: 'smooth', label: `Steady ${rateLabel}`, color: '#3b82f6', history: false, path: sequenceRisk.smooth },
+    ...(sequenceRisk.shocked
+      ? [{ key: 'shocked', label: 'With market shocks', color: '#ef4444', history: false, path: sequenceRisk.shocked }]
+      : []),
+    ...(historical
+      ? [
+          { key: 'historySmooth', label: `Steady ${money.percent(historical.averageReturn)} (history's average)`, color: '#94a3b8', history: true, path: historical.smooth },
+          { key: 'historyActual', label: `Actual ${historical.startYear}–${historical.endYear}`, color: '#10b981', history: true, path: historical.actual },
+          { key: 'historyReversed', label: 'Reversed', color: '#f59e0b', history: true, path: historical.reversed },
+          { key: 'shuffledMedian', label: 'Median shuffle', color: '#8b5cf6', history: true, path: historical.shuffled.median },
+          { key: 'shuffledWorst', label: 'Worst shuffle', color: '#ec4899', history: true, path: historical.shuffled.worst }
+        ]
+      : [])
+  ];
+  const sequenceChartData = sequenceRisk.smooth.balances.map((_, year) => ({
+    year,
+    ...Object.fromEntries(sequencePaths.map((p) => [p.key, p.path.balances[year]]))
+  }));
+
+  return (
+    <div className="bg-slate-800 border-2 border-purple-500/50 rounded-xl p-8 shadow-xl">
+      <h3 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+        <span className="text-3xl">🎢</span>
+        Sequence-of-Returns Risk
+      </h3>
+      <p className="text-sm text-slate-400 mb-6">
+        The same average return can end very differently depending on when the bad years land.
+        Your plan is run through {sequenceRisk.accumulationYears} years of saving and {sequenceRisk.retirementYears} years
+        of {money.full(monthlyWithdrawal)}/month withdrawals.
+      </p>
+      <div className="text-sm font-semibold text-slate-200 mb-2">Steady Returns vs Market Shocks</div>
+      <div className="h-[350px] -mx-2 pr-2 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={sequenceChartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+            <XAxis 
+              dataKey="year" 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              tickFormatter={yearAxis.tick}
+              label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+            />
+            <YAxis 
+              tick={{ fill: '#a0aec0' }}
+              axisLine={{ stroke: '#4a5568' }}
+              width={90}
+              tickMargin={5}
+              tickFormatter={money.short}
+            />
+            <Tooltip 
+              formatter={(value) => [money.full(Number(value))]}
+              labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+              contentStyle={{
+                background: '#1a202c',
+                border: '1px solid #4a5568',
+                borderRadius: '0.5rem',
+              }}
+            />
+            <Legend />
+            <ReferenceLine
+              x={sequenceRisk.accumulationYears}
+              stroke="#f59e0b"
+              strokeDasharray="4 4"
+              label={{ value: retirementLabel, fill: '#f59e0b', position: 'insideTopRight' }}
+            />
+            {sequencePaths.filter((p) => !p.history).map((p) => (
+              <Line
+                key={p.key}
+                type="monotone"
+                dataKey={p.key}
+                stroke={p.color}
+                strokeWidth={2}
+                dot={false}
+                name={p.label}
+              />
+            ))}
+            {lifeEventLines}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {sequenceRisk.historical ? (
+        <>
+          <div className="text-sm font-semibold text-slate-200 mb-2">Historical Order, {sequenceRisk.historical.startYear}–{sequenceRisk.historical.endYear}</div>
+          <div className="h-[350px] -mx-2 pr-2 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={sequenceChartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#2d3748" />
+                <XAxis 
+                  dataKey="year" 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  tickFormatter={yearAxis.tick}
+                  label={{ value: yearAxis.title, position: 'insideBottom', offset: -5, fill: '#a0aec0' }}
+                />
+                <YAxis 
+                  tick={{ fill: '#a0aec0' }}
+                  axisLine={{ stroke: '#4a5568' }}
+                  width={90}
+                  tickMargin={5}
+                  tickFormatter={money.short}
+                />
+                <Tooltip 
+                  formatter={(value) => [money.full(Number(value))]}
+                  labelFormatter={(year) => yearAxis.tooltip(Number(year))}
+                  contentStyle={{
+                    background: '#1a202c',
+                    border: '1px solid #4a5568',
+                    borderRadius: '0.5rem',
+                  }}
+                />
+                <Legend />
+                <ReferenceLine
+                  x={sequenceRisk.accumulationYears}
+                  stroke="#f59e0b"
+                  strokeDasharray="4 4"
+                  label={{ value: retirementLabel, fill: '#f59e0b', position: 'insideTopRight' }}
+                />
+                {sequencePaths.filter((p) => p.history).map((p) => (
+                  <Line
+                    key={p.key}
+                    type="monotone"
+                    dataKey={p.key}
+                    stroke={p.color}
+                    strokeWidth={2}
+                    dot={false}
+                    name={p.label}
+                  />
+                ))}
+                {lifeEventLines}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-slate-400 -mt-4 mb-6">
+            The same {sequenceRisk.accumulationYears + sequenceRisk.retirementYears} years of S&P 500 returns, as they happened,
+            reversed, and shuffled {money.number(sequenceRisk.historical.shuffleCount)} times.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm text-slate-400 mb-6">
+          Not enough history to reorder a {sequenceRisk.accumulationYears + sequenceRisk.retirementYears}-year
+          plan. The bundled data covers {SP500_ANNUAL_RETURNS.length} years.
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-slate-700">
+              <th className="text-left text-slate-400 font-semibold py-3 pr-4">Returns</th>
+              <th className="text-right text-slate-400 font-semibold py-3 px-4">At Retirement</th>
+              <th className="text-right text-slate-400 font-semibold py-3 px-4">Retirement Outcome</th>
+              <th className="text-right text-slate-400 font-semibold py-3 pl-4">Total Withdrawn</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sequencePaths.map((p) => (
+              <tr key={p.key} className="border-b border-slate-700/50">
+                <td className="py-3 pr-4 font-semibold" style={{ color: p.color }}>{p.label}</td>
+                <td className="text-right text-white py-3 px-4">{money.short(p.path.retirementBalance)}</td>
+                <td className={`text-right py-3 px-4 ${p.path.depletedYear !== null ? 'text-red-400' : 'text-green-400'}`}>
+                  {p.path.depletedYear !== null
+                    ? `Runs out in year ${p.path.depletedYear}`
+                    : `${money.short(p.path.endingBalance)} left`}
+                </td>
+                <td className="text-right text-white py-3 pl-4">{money.short(p.path.totalWithdrawn)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import type { Benchmark } from '../lib';
+
+/**
+ * Benchmark name with the annual return it grows at (or the year its series is replayed from),
+ * for legends and insights
+ */
+export const benchmarkLabel = (benchmark: Benchmark): string => benchmark.series
+  ? `${benchmark.name} (from ${benchmark.startYear})`
+  : `${benchmark.name} (${Math.round(benchmark.annualRate * 10) / 10}%)`;
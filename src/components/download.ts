@@ -0,0 +1,20 @@
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string }> = {
+  csv: { label: 'CSV', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', mimeType: 'application/json' },
+  xlsx: { label: 'Excel', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+/**
+ * Saves generated content through a temporary object URL
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download asynchronously, so release the URL afterwards
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,61 @@
+export const InputField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  prefix?: string;
+  suffix?: string;
+  min?: number;
+  max?: number;
+  step?: number;
+}> = ({ label, value, onChange, prefix = '', suffix = '', min, max, step = 1 }) => {
+  return (
+    <div className="mb-6">
+      <label className="block text-sm font-semibold text-slate-200 mb-2">
+        {label}
+      </label>
+      <div className="relative">
+        {prefix && (
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400">
+            {prefix}
+          </span>
+        )}
+        <input
+          type="number"
+          value={value || ''}
+          onChange={(e) => onChange(Number(e.target.value))}
+          min={min}
+          max={max}
+          step={step}
+          className={`w-full ${prefix.length > 1 ? 'pl-12' : prefix ? 'pl-8' : 'pl-4'} ${suffix ? 'pr-16' : 'pr-4'} py-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:outline-none focus:border-blue-500 text-white text-lg font-semibold`}
+        />
+        {suffix && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400">
+            {suffix}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+interface MetricCardProps extends React.HTMLAttributes<HTMLDivElement> {
+  title: string;
+  value: string | number;
+  subtitle?: string;
+  highlight?: boolean;
+  className?: string;
+}
+
+export const MetricCard: React.FC<MetricCardProps> = ({ 
+  title, 
+  value, 
+  subtitle, 
+  highlight = false,
+  className = '',
+}) => (
+  <div className={`p-6 rounded-lg border ${highlight ? 'bg-blue-500/10 border-blue-500' : 'bg-slate-800 border-slate-700'} ${className}`}>
+    <div className="text-sm text-slate-400 mb-1">{title}</div>
+    <div className={`text-3xl font-bold mb-1 ${highlight ? 'text-blue-400' : 'text-white'}`}>{value}</div>
+    {subtitle && <div className="text-xs text-slate-400">{subtitle}</div>}
+  </div>
+);
@@ -0,0 +1,153 @@
+import {
+  MAX_PROJECTION_YEARS,
+  MILESTONES,
+  calculateFutureValue,
+  flatFeesForMonth,
+  type Benchmark,
+  type FeeSettings,
+  type InvestmentMetrics,
+  type MoneyFormat,
+  type MonteCarloResult
+} from '../lib';
+import { benchmarkLabel } from './benchmarkLabel';
+
+export interface Insight {
+  type: 'success' | 'info' | 'warning' | 'danger';
+  text: string;
+}
+
+export interface InsightInputs {
+  metrics: InvestmentMetrics;
+  initialInvestment: number;
+  monthlyContribution: number;
+  years: number;
+  growthRate: number; // Annual % the balance compounds at, after dividend tax and percentage fees
+  fees: FeeSettings; // Flat fees come out of each contribution
+  monteCarlo: MonteCarloResult | null;
+  incomeLabel: string;
+  benchmarks: Benchmark[];
+  deflator: number; // Price level at the plan's end when amounts are in today's dollars, otherwise 1
+  money: MoneyFormat;
+}
+
+/**
+ * What-if observations about a plan, shared by the dashboard and the printed report
+ */
+export const getInsights = ({
+  metrics,
+  initialInvestment,
+  monthlyContribution,
+  years,
+  growthRate,
+  fees,
+  monteCarlo,
+  incomeLabel,
+  benchmarks,
+  deflator,
+  money
+}: InsightInputs): Insight[] => {
+  const insights: Insight[] = [];
+  // What-ifs are measured against the same plan at its constant growth rate,
+  // so fees and dividend tax weigh on both sides of the comparison
+  const futureValue = (contribution: number, months: number) => calculateFutureValue(
+    initialInvestment,
+    contribution - flatFeesForMonth(contribution, fees),
+    growthRate,
+    months
+  ) / deflator;
+  const baseline = futureValue(monthlyContribution, years * 12);
+  
+  // Early start advantage
+  const earlyAdvantage = futureValue(monthlyContribution, (years + 5) * 12) - baseline;
+  insights.push({ 
+    type: 'success', 
+    text: `Starting 5 years earlier would give you an extra ${money.short(earlyAdvantage)} (${money.percent((earlyAdvantage / baseline) * 100, 0)} more). Time is your biggest asset!` 
+  });
+  
+  // Higher contribution impact
+  const extraFromContribution = futureValue(monthlyContribution + 500, years * 12) - baseline;
+  insights.push({ 
+    type: 'info', 
+    text: `Adding just ${money.full(500)}/month more would give you an extra ${money.short(extraFromContribution)} over ${years} years. Small increases compound dramatically.` 
+  });
+  
+  // Millionaire timeline
+  if (metrics.yearsTo1M < 100) {
+    if (metrics.yearsTo1M <= years) {
+      insights.push({ 
+        type: 'success', 
+        text: `🎉 You'll reach ${money.short(MILESTONES.yearsTo1M)} in ${metrics.yearsTo1M} years! At this rate, you'll be a millionaire well within your investment timeline.` 
+      });
+    } else {
+      const extraYears = metrics.yearsTo1M - years;
+      insights.push({ 
+        type: 'warning', 
+        text: `You'll reach ${money.short(MILESTONES.yearsTo1M)} in ${metrics.yearsTo1M} years, which is ${extraYears.toFixed(1)} years beyond your current timeline. Consider extending your investment period or increasing contributions.` 
+      });
+    }
+    
+    if (metrics.yearsTo2M < 100) {
+      insights.push({ 
+        type: 'success', 
+        text: `After reaching ${money.short(MILESTONES.yearsTo1M)}, you'll hit ${money.short(MILESTONES.yearsTo2M)} in just ${(metrics.yearsTo2M - metrics.yearsTo1M).toFixed(1)} more years. Wealth compounds faster as your balance grows!` 
+      });
+    }
+  }
+  
+  // Market volatility reality check
+  const finalBand = monteCarlo?.bands[monteCarlo.bands.length - 1];
+  if (monteCarlo && finalBand) {
+    insights.push({ 
+      type: 'warning', 
+      text: `Market volatility: across ${money.number(monteCarlo.simulations)} simulated markets, the unluckiest 5% end below ${money.short(finalBand.p5)} while the luckiest 5% end above ${money.short(finalBand.p95)}. Stay invested through the ups and downs!` 
+    });
+  }
+  
+  // Fee drag
+  if (metrics.feeImpact > 0) {
+    const balanceBeforeFees = metrics.finalBalance + metrics.feeImpact;
+    insights.push({ 
+      type: 'warning', 
+      text: `Fees will cost you ${money.short(metrics.totalFees)} over ${years} years, and ${money.short(metrics.feeImpact)} of your final balance once the growth they would have earned is counted. That's ${money.percent((metrics.feeImpact / balanceBeforeFees) * 100, 0)} of what you'd have without them.` 
+    });
+  }
+  
+  // Inflation impact
+  const nominalBalance = metrics.finalBalance * deflator;
+  const inflationLoss = nominalBalance - metrics.inflationAdjustedValue;
+  insights.push({ 
+    type: 'info', 
+    text: `Inflation will erode about ${money.short(inflationLoss)} (${money.percent((inflationLoss / nominalBalance) * 100, 0)}) of your gains over ${years} years. This is why stocks typically outperform cash.` 
+  });
+  
+  // Withdrawal sustainability
+  if (metrics.withdrawalSustainability >= MAX_PROJECTION_YEARS) {
+    insights.push({ 
+      type: 'success', 
+      text: `Using the ${incomeLabel} strategy, you can start by withdrawing ${money.full(metrics.monthlyIncome)}/month, rising with inflation, for more than ${MAX_PROJECTION_YEARS} years. This is a sustainable retirement income strategy.` 
+    });
+  } else {
+    insights.push({ 
+      type: 'warning', 
+      text: `Using the ${incomeLabel} strategy, a first-year income of ${money.full(metrics.monthlyIncome)}/month rising with inflation would last ${metrics.withdrawalSustainability} years at this return rate. Plan for a longer retirement or a lower withdrawal.` 
+    });
+  }
+  
+  // Comparison advantage
+  const beaten = benchmarks.filter((b) => (metrics.vsBenchmarks[b.id] ?? 0) >= 0);
+  const ahead = benchmarks.filter((b) => (metrics.vsBenchmarks[b.id] ?? 0) < 0);
+  if (beaten.length > 0) {
+    insights.push({ 
+      type: 'success', 
+      text: `Compared with ${beaten.map((b) => `${benchmarkLabel(b)}, you'll earn an extra ${money.short(metrics.vsBenchmarks[b.id])}`).join('; with ')}.` 
+    });
+  }
+  if (ahead.length > 0) {
+    insights.push({ 
+      type: 'warning', 
+      text: `${ahead.map((b) => `${benchmarkLabel(b)} would finish ${money.short(-metrics.vsBenchmarks[b.id])} ahead`).join('; ')}. Check your return assumption or whether this plan suits you.` 
+    });
+  }
+
+  return insights;
+};
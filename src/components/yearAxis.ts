@@ -0,0 +1,26 @@
+import { calendarYearAt, type LifeTimeline } from '../lib';
+import type { CalculatorState } from '../calculatorState';
+
+// How a plan year reads on chart axes and tooltips
+export interface YearAxis {
+  title: string;
+  tick: (year: number) => string;
+  tooltip: (year: number) => string;
+}
+
+/**
+ * Chart year axis counting plan years, calendar years or ages
+ * Ages fall back to plan years until a birth year is given
+ */
+export const createYearAxis = (timeline: LifeTimeline, axis: CalculatorState['chartAxis']): YearAxis => {
+  const { birthYear } = timeline;
+  if (axis === 'age' && birthYear !== null) {
+    const age = (year: number) => calendarYearAt(timeline, year) - birthYear;
+    return { title: 'Age', tick: (year) => String(age(year)), tooltip: (year) => `Age ${age(year)}` };
+  }
+  if (axis === 'calendar') {
+    const calendarYear = (year: number) => String(calendarYearAt(timeline, year));
+    return { title: 'Year', tick: calendarYear, tooltip: calendarYear };
+  }
+  return { title: 'Years', tick: String, tooltip: (year) => `Year ${year}` };
+};
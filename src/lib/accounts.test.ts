@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { calculateAccountProjections, calculateAfterTaxIncome, getDefaultAccountSettings } from './accounts';
+import { calculateFutureValue } from './calculations';
+import type { AccountSettings } from './types';
+
+const untaxed = (type: AccountSettings['type']): AccountSettings => ({
+  ...getDefaultAccountSettings(type),
+  annualContributionCap: 0,
+  employerMatchRate: 0,
+  employerMatchCap: 0,
+  contributionTaxRate: 0,
+  earningsTaxRate: 0,
+  withdrawalTaxRate: 0
+});
+
+describe('calculateAccountProjections', () => {
+  it('grows like the plain projection with no caps or taxes', () => {
+    const months = calculateAccountProjections(10000, 500, 7, 30, untaxed('taxable'));
+    expect(months[359].preTaxBalance).toBeCloseTo(calculateFutureValue(10000, 500, 7, 360), -1);
+    expect(months[359].afterTaxBalance).toBe(months[359].preTaxBalance);
+  });
+
+  it('taxes only the gains of a taxable account on withdrawal', () => {
+    const [month] = calculateAccountProjections(10000, 0, 12, 1, getDefaultAccountSettings('taxable'));
+    expect(month.preTaxBalance).toBe(10100);
+    expect(month.afterTaxBalance).toBe(10085);
+    expect(month.taxesPaid).toBe(0);
+  });
+
+  it('taxes the whole of a traditional balance on withdrawal', () => {
+    const months = calculateAccountProjections(10000, 1000, 7, 5, { ...untaxed('traditional'), withdrawalTaxRate: 22 });
+    const final = months[months.length - 1];
+    expect(final.afterTaxBalance).toBeCloseTo(final.preTaxBalance * 0.78, -1);
+  });
+
+  it('stops member contributions and the employer match at their annual caps', () => {
+    const months = calculateAccountProjections(0, 3000, 0, 2, getDefaultAccountSettings('traditional'));
+    expect(months.map((m) => m.memberContributions).slice(6, 9)).toEqual([21000, 23500, 23500]);
+    expect(months[11]).toMatchObject({ memberContributions: 23500, employerContributions: 3000, preTaxBalance: 26500 });
+    expect(months[12]).toMatchObject({ memberContributions: 26500, employerContributions: 4500 });
+  });
+
+  it('taxes Roth contributions on the way in and nothing on the way out', () => {
+    const months = calculateAccountProjections(0, 1000, 0, 1, { ...getDefaultAccountSettings('roth'), annualContributionCap: 0 });
+    expect(months[11]).toMatchObject({ preTaxBalance: 9360, afterTaxBalance: 9360, taxesPaid: 2640 });
+  });
+
+  it('taxes super contributions and earnings inside the account', () => {
+    const months = calculateAccountProjections(100000, 0, 12, 1, getDefaultAccountSettings('super'));
+    expect(months[0]).toMatchObject({ preTaxBalance: 100850, taxesPaid: 150 });
+    const withContribution = calculateAccountProjections(0, 1000, 0, 1, getDefaultAccountSettings('super'));
+    expect(withContribution[0]).toMatchObject({ preTaxBalance: 850, taxesPaid: 150 });
+  });
+
+  it('takes a withdrawal out of the cost basis in proportion', () => {
+    const settings = getDefaultAccountSettings('taxable');
+    // Doubles in the first month, then half is withdrawn in the second: half the gain remains
+    const months = calculateAccountProjections(10000, (month) => (month === 2 ? -10000 : 0), (month) => (month === 1 ? 1200 : 0), 1, settings);
+    expect(months[1].preTaxBalance).toBe(10000);
+    expect(months[1].afterTaxBalance).toBe(10000 - 5000 * 0.15);
+  });
+});
+
+describe('calculateAfterTaxIncome', () => {
+  it('applies the withdrawal rate to the after-tax balance', () => {
+    const [month] = calculateAccountProjections(1200000, 0, 0, 1, { ...untaxed('traditional'), withdrawalTaxRate: 25 });
+    expect(calculateAfterTaxIncome(month, 7)).toBe(3000);
+  });
+});
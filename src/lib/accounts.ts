@@ -0,0 +1,183 @@
+import { contributionForMonth } from './contributions';
+import { rateForMonth } from './rates';
+import { DEFAULT_WITHDRAWAL_PLAN, WITHDRAWAL_STRATEGIES } from './withdrawalStrategies';
+import type { AccountMonth, AccountSettings, AccountType, AnnualRate, Contribution, WithdrawalPlan } from './types';
+
+export interface AccountTypeInfo {
+  id: AccountType;
+  label: string;
+  description: string;
+  // What withdrawal tax applies to: the whole balance or only the gains
+  withdrawalTaxBasis: 'balance' | 'gains';
+  defaults: Omit<AccountSettings, 'type'>;
+}
+
+// Preset rules per account type; every rate and cap stays user-editable
+export const ACCOUNT_TYPES: Record<AccountType, AccountTypeInfo> = {
+  taxable: {
+    id: 'taxable',
+    label: 'Taxable Brokerage',
+    description: 'No contribution limits; capital gains tax on growth when you sell',
+    withdrawalTaxBasis: 'gains',
+    defaults: {
+      annualContributionCap: 0,
+      employerMatchRate: 0,
+      employerMatchCap: 0,
+      contributionTaxRate: 0,
+      earningsTaxRate: 0,
+      withdrawalTaxRate: 15
+    }
+  },
+  traditional: {
+    id: 'traditional',
+    label: 'Traditional 401(k) / IRA',
+    description: 'Pre-tax contributions with employer match; taxed as income on withdrawal',
+    withdrawalTaxBasis: 'balance',
+    defaults: {
+      annualContributionCap: 23500,
+      employerMatchRate: 50,
+      employerMatchCap: 3000,
+      contributionTaxRate: 0,
+      earningsTaxRate: 0,
+      withdrawalTaxRate: 22
+    }
+  },
+  roth: {
+    id: 'roth',
+    label: 'Roth IRA / 401(k)',
+    description: 'Income tax paid before contributing; tax-free growth and withdrawals',
+    withdrawalTaxBasis: 'balance',
+    defaults: {
+      annualContributionCap: 7000,
+      employerMatchRate: 0,
+      employerMatchCap: 0,
+      contributionTaxRate: 22,
+      earningsTaxRate: 0,
+      withdrawalTaxRate: 0
+    }
+  },
+  super: {
+    id: 'super',
+    label: 'Australian Super',
+    description: '15% contributions tax and 15% earnings tax; tax-free withdrawals after 60',
+    withdrawalTaxBasis: 'balance',
+    defaults: {
+      annualContributionCap: 30000,
+      employerMatchRate: 0,
+      employerMatchCap: 0,
+      contributionTaxRate: 15,
+      earningsTaxRate: 15,
+      withdrawalTaxRate: 0
+    }
+  }
+};
+
+export const getDefaultAccountSettings = (type: AccountType): AccountSettings => ({
+  type,
+  ...ACCOUNT_TYPES[type].defaults
+});
+
+/**
+ * Tax owed if the whole balance were withdrawn today
+ */
+const withdrawalTax = (balance: number, costBasis: number, settings: AccountSettings): number => {
+  const taxable = ACCOUNT_TYPES[settings.type].withdrawalTaxBasis === 'gains'
+    ? Math.max(0, balance - costBasis)
+    : balance;
+  return taxable * settings.withdrawalTaxRate / 100;
+};
+
+/**
+ * Projects a plan inside a tax-advantaged (or taxable) account month by month
+ * The monthly contribution is treated as pre-tax salary set aside for investing:
+ * - Member contributions stop for the year once the annual cap is reached (0 = no cap)
+ * - Employer match is a % of member contributions, limited to employerMatchCap per year
+ * - Contributions tax is taken on the way in, earnings tax on each month's positive return
+ * The initial investment is an existing balance and isn't taxed again on entry.
+ * The after-tax balance is what would remain if everything were withdrawn that month.
+ */
+export const calculateAccountProjections = (
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  annualRate: AnnualRate,
+  years: number,
+  settings: AccountSettings
+): AccountMonth[] => {
+  const data: AccountMonth[] = [];
+  let balance = initialInvestment;
+  let costBasis = initialInvestment;
+  let memberContributions = 0;
+  let employerContributions = 0;
+  let taxesPaid = 0;
+  let memberThisYear = 0;
+  let employerThisYear = 0;
+
+  for (let month = 1; month <= years * 12; month++) {
+    if ((month - 1) % 12 === 0) {
+      memberThisYear = 0;
+      employerThisYear = 0;
+    }
+
+    // Investment earnings, less any tax levied inside the account
+    const earnings = balance * rateForMonth(annualRate, month) / 100 / 12;
+    const earningsTax = Math.max(0, earnings) * settings.earningsTaxRate / 100;
+    balance += earnings - earningsTax;
+
+    // Member contribution up to the annual cap
+    const memberRoom = settings.annualContributionCap > 0
+      ? Math.max(0, settings.annualContributionCap - memberThisYear)
+      : Infinity;
+    const contribution = contributionForMonth(monthlyContribution, month);
+    const member = Math.min(Math.max(0, contribution), memberRoom);
+    memberThisYear += member;
+
+    // Employer match up to its own annual cap
+    const employerRoom = settings.employerMatchCap > 0
+      ? Math.max(0, settings.employerMatchCap - employerThisYear)
+      : Infinity;
+    const employer = Math.min(member * settings.employerMatchRate / 100, employerRoom);
+    employerThisYear += employer;
+
+    const contributionTax = (member + employer) * settings.contributionTaxRate / 100;
+    const invested = member + employer - contributionTax;
+    balance += invested;
+    costBasis += invested;
+
+    // A negative contribution is a withdrawal: out of the balance, and the cost basis in proportion
+    const withdrawn = Math.min(balance, Math.max(0, -contribution));
+    if (withdrawn > 0) {
+      costBasis *= 1 - withdrawn / balance;
+      balance -= withdrawn;
+    }
+
+    memberContributions += member;
+    employerContributions += employer;
+    taxesPaid += earningsTax + contributionTax;
+
+    data.push({
+      month,
+      year: Math.floor(month / 12),
+      preTaxBalance: Math.round(balance),
+      afterTaxBalance: Math.round(balance - withdrawalTax(balance, costBasis, settings)),
+      memberContributions: Math.round(memberContributions),
+      employerContributions: Math.round(employerContributions),
+      taxesPaid: Math.round(taxesPaid)
+    });
+  }
+
+  return data;
+};
+
+/**
+ * First-year monthly income after withdrawal tax
+ * The withdrawal strategy's first-year rate is applied to the after-tax balance,
+ * so income carries the same effective tax rate as liquidating the account
+ */
+export const calculateAfterTaxIncome = (
+  finalMonth: AccountMonth,
+  annualRate: number,
+  plan: WithdrawalPlan = DEFAULT_WITHDRAWAL_PLAN
+): number => {
+  const initialRate = WITHDRAWAL_STRATEGIES[plan.strategy].initialRate(plan, annualRate);
+  return Math.round((finalMonth.afterTaxBalance * initialRate / 100) / 12);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocationAt,
+  averageAllocationStats,
+  blendedReturn,
+  blendedVolatility,
+  createRateSchedule,
+  normalizeAllocation
+} from './allocation';
+import type { AllocationPlan } from './types';
+
+const plan: AllocationPlan = {
+  assumptions: {
+    stocks: { expectedReturn: 10, volatility: 20 },
+    bonds: { expectedReturn: 4, volatility: 5 },
+    cash: { expectedReturn: 2, volatility: 0 }
+  },
+  start: { stocks: 100, bonds: 0, cash: 0 },
+  end: { stocks: 50, bonds: 50, cash: 0 },
+  glidePath: true
+};
+
+describe('normalizeAllocation', () => {
+  it('scales weights to 100% and ignores negatives', () => {
+    expect(normalizeAllocation({ stocks: 3, bonds: 1, cash: -5 })).toEqual({ stocks: 75, bonds: 25, cash: 0 });
+    expect(normalizeAllocation({ stocks: 0, bonds: 0, cash: 0 })).toEqual({ stocks: 0, bonds: 0, cash: 0 });
+  });
+});
+
+describe('blended rate and volatility', () => {
+  it('weights each return by its share', () => {
+    expect(blendedReturn({ stocks: 60, bonds: 30, cash: 10 }, plan)).toBeCloseTo(7.4, 10);
+    expect(blendedReturn({ stocks: 6, bonds: 3, cash: 1 }, plan)).toBeCloseTo(7.4, 10);
+  });
+
+  it('combines volatilities as uncorrelated', () => {
+    expect(blendedVolatility({ stocks: 60, bonds: 40, cash: 0 }, plan)).toBeCloseTo(Math.sqrt(12 * 12 + 2 * 2), 10);
+    expect(blendedVolatility({ stocks: 100, bonds: 0, cash: 0 }, plan)).toBe(20);
+    // Diversifying lowers volatility below the weighted average
+    expect(blendedVolatility({ stocks: 50, bonds: 50, cash: 0 }, plan)).toBeLessThan(12.5);
+  });
+});
+
+describe('glide path', () => {
+  it('moves in a straight line from the start allocation to the end one', () => {
+    expect(allocationAt(plan, 1, 121)).toEqual({ stocks: 100, bonds: 0, cash: 0 });
+    expect(allocationAt(plan, 61, 121)).toEqual({ stocks: 75, bonds: 25, cash: 0 });
+    expect(allocationAt(plan, 121, 121)).toEqual({ stocks: 50, bonds: 50, cash: 0 });
+    expect(allocationAt({ ...plan, glidePath: false }, 121, 121)).toEqual({ stocks: 100, bonds: 0, cash: 0 });
+  });
+
+  it('blends the rate month by month and averages it over the plan', () => {
+    const schedule = createRateSchedule(plan, 121);
+    expect([schedule(1), schedule(61), schedule(121)]).toEqual([10, 8.5, 7]);
+    const average = averageAllocationStats(plan, 121);
+    expect(average.annualRate).toBeCloseTo(8.5, 10);
+    expect(average.volatility).toBeGreaterThan(blendedVolatility({ stocks: 50, bonds: 50, cash: 0 }, plan));
+    expect(average.volatility).toBeLessThan(20);
+    expect(averageAllocationStats({ ...plan, glidePath: false }, 121)).toEqual({ annualRate: 10, volatility: 20 });
+  });
+});
@@ -0,0 +1,102 @@
+import { BONDS_INTEREST, SAVINGS_INTEREST, SP500_INTEREST, SP500_VOLATILITY } from './constants';
+import type { Allocation, AllocationPlan, AssetClass, RateSchedule } from './types';
+
+export const ASSET_CLASSES: Record<AssetClass, { label: string; color: string }> = {
+  stocks: { label: 'Stocks', color: '#3b82f6' },
+  bonds: { label: 'Bonds', color: '#f59e0b' },
+  cash: { label: 'Cash', color: '#10b981' }
+};
+
+// Target-date style default: growth-heavy today, drifting to income assets by the end
+export const DEFAULT_ALLOCATION_PLAN: AllocationPlan = {
+  assumptions: {
+    stocks: { expectedReturn: SP500_INTEREST, volatility: SP500_VOLATILITY },
+    bonds: { expectedReturn: BONDS_INTEREST, volatility: 6 },
+    cash: { expectedReturn: SAVINGS_INTEREST, volatility: 1 }
+  },
+  start: { stocks: 90, bonds: 10, cash: 0 },
+  end: { stocks: 40, bonds: 50, cash: 10 },
+  glidePath: true
+};
+
+const ASSET_KEYS = Object.keys(ASSET_CLASSES) as AssetClass[];
+
+/**
+ * Scales weights so they add up to 100%
+ * Lets users type rough numbers without the blend drifting above or below 100%
+ */
+export const normalizeAllocation = (allocation: Allocation): Allocation => {
+  const total = ASSET_KEYS.reduce((sum, key) => sum + Math.max(0, allocation[key]), 0);
+  if (total === 0) return { stocks: 0, bonds: 0, cash: 0 };
+  return {
+    stocks: (Math.max(0, allocation.stocks) / total) * 100,
+    bonds: (Math.max(0, allocation.bonds) / total) * 100,
+    cash: (Math.max(0, allocation.cash) / total) * 100
+  };
+};
+
+/**
+ * Allocation in force during a given month
+ * Without a glide path the start allocation holds throughout; with one, each
+ * weight moves in a straight line from start (month 1) to end (final month)
+ */
+export const allocationAt = (plan: AllocationPlan, month: number, totalMonths: number): Allocation => {
+  const start = normalizeAllocation(plan.start);
+  if (!plan.glidePath || totalMonths <= 1) return start;
+
+  const end = normalizeAllocation(plan.end);
+  const progress = Math.min(1, Math.max(0, (month - 1) / (totalMonths - 1)));
+  return {
+    stocks: start.stocks + (end.stocks - start.stocks) * progress,
+    bonds: start.bonds + (end.bonds - start.bonds) * progress,
+    cash: start.cash + (end.cash - start.cash) * progress
+  };
+};
+
+/**
+ * Weighted expected annual return of an allocation, as a percentage
+ */
+export const blendedReturn = (allocation: Allocation, plan: AllocationPlan): number => {
+  const weights = normalizeAllocation(allocation);
+  return ASSET_KEYS.reduce(
+    (sum, key) => sum + (weights[key] / 100) * plan.assumptions[key].expectedReturn,
+    0
+  );
+};
+
+/**
+ * Annual volatility of an allocation, as a percentage
+ * Treats the asset classes as uncorrelated: σ = √Σ(wᵢσᵢ)²
+ */
+export const blendedVolatility = (allocation: Allocation, plan: AllocationPlan): number => {
+  const weights = normalizeAllocation(allocation);
+  return Math.sqrt(ASSET_KEYS.reduce(
+    (sum, key) => sum + Math.pow((weights[key] / 100) * plan.assumptions[key].volatility, 2),
+    0
+  ));
+};
+
+/**
+ * Month-by-month blended return for calculateProjections
+ */
+export const createRateSchedule = (plan: AllocationPlan, totalMonths: number): RateSchedule =>
+  (month) => blendedReturn(allocationAt(plan, month, totalMonths), plan);
+
+/**
+ * Average blended return and volatility across the whole horizon
+ * Used where a single constant rate is needed (milestones, Monte Carlo)
+ */
+export const averageAllocationStats = (
+  plan: AllocationPlan,
+  totalMonths: number
+): { annualRate: number; volatility: number } => {
+  const months = Math.max(1, totalMonths);
+  let rateSum = 0;
+  let volatilitySum = 0;
+  for (let month = 1; month <= months; month++) {
+    const allocation = allocationAt(plan, month, months);
+    rateSum += blendedReturn(allocation, plan);
+    volatilitySum += blendedVolatility(allocation, plan);
+  }
+  return { annualRate: rateSum / months, volatility: volatilitySum / months };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { calculateBacktest, calculateBacktestPath } from './backtest';
+import { calculateProjections } from './calculations';
+
+const returns = [
+  { year: 2001, totalReturn: 0 },
+  { year: 2002, totalReturn: 10 },
+  { year: 2003, totalReturn: -20 },
+  { year: 2004, totalReturn: 50 },
+  { year: 2005, totalReturn: 5 }
+];
+
+describe('calculateBacktestPath', () => {
+  it('compounds each year evenly and adds contributions at month end', () => {
+    const path = calculateBacktestPath(1000, 100, 0, 2, [{ year: 2001, totalReturn: 0 }, { year: 2002, totalReturn: 0 }]);
+    expect(path.balances).toEqual(Array.from({ length: 24 }, (_, i) => 1000 + 100 * (i + 1)));
+    expect(calculateBacktestPath(1000, 0, 1, 1, returns).finalBalance).toBe(1100);
+  });
+});
+
+describe('calculateBacktest', () => {
+  it('ranks every window by its final balance', () => {
+    const backtest = calculateBacktest(1000, 0, 2, returns);
+    expect(backtest?.windowCount).toBe(4);
+    expect(backtest?.best).toMatchObject({ startYear: 2004, endYear: 2005, finalBalance: 1575 });
+    expect(backtest?.median).toMatchObject({ startYear: 2001, endYear: 2002, finalBalance: 1100 });
+    expect(backtest?.worst).toMatchObject({ startYear: 2002, endYear: 2003, finalBalance: 880 });
+  });
+
+  it("covers a part year in goal mode's solved time, month for month with the projection", () => {
+    const backtest = calculateBacktest(1000, 100, 1.5, returns);
+    expect(backtest?.windowCount).toBe(4);
+    expect(backtest?.best.balances).toHaveLength(18);
+    expect(backtest?.best.endYear).toBe(backtest!.best.startYear + 1);
+
+    const years = 148 / 12;
+    const projections = calculateProjections(1000, 100, 7, years);
+    const historical = calculateBacktest(1000, 100, years);
+    for (const path of [historical!.best, historical!.median, historical!.worst]) {
+      expect(path.balances).toHaveLength(projections.length);
+      expect(path.endYear - path.startYear).toBe(12);
+    }
+  });
+
+  it('needs at least one month and no more history than there is', () => {
+    expect(calculateBacktest(1000, 0, 5, returns)?.windowCount).toBe(1);
+    expect(calculateBacktest(1000, 0, 4.5, returns)?.windowCount).toBe(1);
+    expect(calculateBacktest(1000, 0, 5.5, returns)).toBeNull();
+    expect(calculateBacktest(1000, 0, 0.05, returns)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { addContribution, contributionForMonth } from './contributions';
+import { SP500_ANNUAL_RETURNS, type AnnualReturn } from './data/sp500Returns';
+import type { BacktestPath, BacktestSummary, Contribution } from './types';
+
+/**
+ * Replays an investment through actual S&P 500 history from a given start year
+ * Each year's total return is compounded evenly across its 12 months, with
+ * contributions added at the end of every month (same timing as calculateFutureValue).
+ * A fractional number of years stops part way through the last year, after the
+ * same number of months as calculateProjections
+ */
+export const calculateBacktestPath = (
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  startIndex: number,
+  years: number,
+  returns: readonly AnnualReturn[] = SP500_ANNUAL_RETURNS
+): BacktestPath => {
+  const months = Math.floor(years * 12);
+  const balances: number[] = [];
+  let balance = initialInvestment;
+
+  for (let month = 1; month <= months; month++) {
+    const { totalReturn } = returns[startIndex + Math.floor((month - 1) / 12)];
+    const monthlyRate = Math.pow(1 + totalReturn / 100, 1 / 12) - 1;
+    balance = addContribution(balance * (1 + monthlyRate), contributionForMonth(monthlyContribution, month));
+    balances.push(Math.round(balance));
+  }
+
+  return {
+    startYear: returns[startIndex].year,
+    endYear: returns[startIndex + Math.ceil(months / 12) - 1].year,
+    finalBalance: balances[balances.length - 1],
+    balances
+  };
+};
+
+/**
+ * Backtests a plan against every historical window of the given length
+ * and returns the best, median and worst outcomes ranked by final balance.
+ * Each path has one balance per projected month, so it lines up with calculateProjections.
+ * Returns null when the window is longer than the available history.
+ */
+export const calculateBacktest = (
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  years: number,
+  returns: readonly AnnualReturn[] = SP500_ANNUAL_RETURNS
+): BacktestSummary | null => {
+  const windowYears = Math.ceil(Math.floor(years * 12) / 12);
+  const windowCount = returns.length - windowYears + 1;
+  if (windowYears < 1 || windowCount < 1) return null;
+
+  const paths: BacktestPath[] = [];
+  for (let startIndex = 0; startIndex < windowCount; startIndex++) {
+    paths.push(calculateBacktestPath(initialInvestment, monthlyContribution, startIndex, years, returns));
+  }
+
+  paths.sort((a, b) => a.finalBalance - b.finalBalance);
+
+  return {
+    windowCount,
+    best: paths[paths.length - 1],
+    median: paths[Math.floor((paths.length - 1) / 2)],
+    worst: paths[0]
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BENCHMARKS, benchmarkRate, createBenchmarkSchedule, seriesAnnualRate } from './benchmarks';
+import { calculateProjections } from './calculations';
+import { rateForMonth } from './rates';
+import type { Benchmark } from './types';
+
+const sp500: Benchmark = { id: 'sp500', name: 'S&P 500', color: '#3b82f6', annualRate: 10, series: 'sp500', startYear: 2008 };
+
+describe('createBenchmarkSchedule', () => {
+  it('grows a fixed benchmark at its own rate', () => {
+    expect(createBenchmarkSchedule(DEFAULT_BENCHMARKS[0], 10)).toBe(DEFAULT_BENCHMARKS[0].annualRate);
+  });
+
+  it('replays a series year by year from its start year', () => {
+    const projections = calculateProjections(1000, 0, 0, 2, undefined, [sp500]);
+    // 2008: -36.55%, 2009: +25.94%
+    expect(projections[11].benchmarks.sp500).toBe(Math.round(1000 * (1 - 0.3655)));
+    expect(projections[23].benchmarks.sp500).toBe(Math.round(1000 * (1 - 0.3655) * 1.2594));
+  });
+
+  it('falls back to the long-run average once the series runs out', () => {
+    const schedule = createBenchmarkSchedule({ ...sp500, startYear: 2024 }, 5);
+    const longRun = rateForMonth(schedule, 13);
+    expect(Math.pow(1 + longRun / 100 / 12, 12)).toBeCloseTo(1 + seriesAnnualRate('sp500') / 100, 10);
+    expect(rateForMonth(schedule, 61)).toBeCloseTo(longRun, 10);
+  });
+});
+
+describe('benchmarkRate', () => {
+  it("is a series' long-run average", () => {
+    expect(benchmarkRate(sp500)).toBe(seriesAnnualRate('sp500'));
+    expect(benchmarkRate({ ...sp500, series: null })).toBe(10);
+  });
+});
@@ -0,0 +1,58 @@
+import { BONDS_INTEREST, SAVINGS_INTEREST, SP500_INTEREST } from './constants';
+import { SP500_ANNUAL_RETURNS, type AnnualReturn } from './data/sp500Returns';
+import type { AnnualRate, Benchmark, HistoricalSeriesId } from './types';
+
+export const HISTORICAL_SERIES: Record<HistoricalSeriesId, { label: string; returns: readonly AnnualReturn[] }> = {
+  sp500: { label: 'S&P 500 total return', returns: SP500_ANNUAL_RETURNS }
+};
+
+// Year a series is replayed from until another is picked
+const REPLAY_START_YEAR = 1970;
+
+// The savings account and bonds the plan was always compared against
+export const DEFAULT_BENCHMARKS: Benchmark[] = [
+  { id: 'bonds', name: 'Bonds', color: '#f59e0b', annualRate: BONDS_INTEREST, series: null, startYear: REPLAY_START_YEAR },
+  { id: 'savings', name: 'Savings', color: '#ef4444', annualRate: SAVINGS_INTEREST, series: null, startYear: REPLAY_START_YEAR }
+];
+
+// Starting points for new benchmarks; fixed rates are rough long-run assumptions to edit, not forecasts
+export const BENCHMARK_PRESETS: Omit<Benchmark, 'id'>[] = [
+  { name: 'S&P 500 (historical)', color: '#3b82f6', annualRate: SP500_INTEREST, series: 'sp500', startYear: REPLAY_START_YEAR },
+  { name: 'NASDAQ-100', color: '#a855f7', annualRate: 12, series: null, startYear: REPLAY_START_YEAR },
+  { name: '60/40 Portfolio', color: '#14b8a6', annualRate: 0.6 * SP500_INTEREST + 0.4 * BONDS_INTEREST, series: null, startYear: REPLAY_START_YEAR },
+  { name: 'Term Deposit', color: '#f472b6', annualRate: 4, series: null, startYear: REPLAY_START_YEAR },
+  { name: 'Real Estate', color: '#84cc16', annualRate: 7, series: null, startYear: REPLAY_START_YEAR },
+  { name: 'High-Yield Savings', color: '#94a3b8', annualRate: 4.5, series: null, startYear: REPLAY_START_YEAR }
+];
+
+/**
+ * Compound average annual return (%) over the whole of a historical series
+ */
+export const seriesAnnualRate = (series: HistoricalSeriesId): number => {
+  const returns = HISTORICAL_SERIES[series].returns;
+  const growth = returns.reduce((product, r) => product * (1 + r.totalReturn / 100), 1);
+  return (Math.pow(growth, 1 / returns.length) - 1) * 100;
+};
+
+/**
+ * Average annual return (%) a benchmark grows at: its fixed rate, or its series' long-run average
+ */
+export const benchmarkRate = (benchmark: Benchmark): number =>
+  benchmark.series ? seriesAnnualRate(benchmark.series) : benchmark.annualRate;
+
+/**
+ * A benchmark's return month by month over a plan
+ * A series is replayed year by year from its start year; once the plan ends, or the
+ * series runs out, the benchmark carries on at the long-run rate.
+ */
+export const createBenchmarkSchedule = (benchmark: Benchmark, years: number): AnnualRate => {
+  if (!benchmark.series) return benchmark.annualRate;
+
+  const longRun = seriesAnnualRate(benchmark.series);
+  const byYear = new Map(HISTORICAL_SERIES[benchmark.series].returns.map((r) => [r.year, r.totalReturn]));
+  // Each year's return is spread evenly over its months, as in the backtests, so the year grows by exactly that return
+  const monthlyEquivalent = (totalReturn: number) => (Math.pow(1 + totalReturn / 100, 1 / 12) - 1) * 12 * 100;
+  return (month) => monthlyEquivalent(
+    month > years * 12 ? longRun : byYear.get(benchmark.startYear + Math.ceil(month / 12) - 1) ?? longRun
+  );
+};
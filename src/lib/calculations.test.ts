@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateFutureValue,
+  calculateInvestmentMetrics,
+  calculateProjections,
+  calculateRequiredInvestment,
+  calculateYearsToMilestone
+} from './calculations';
+import { MAX_PROJECTION_YEARS } from './constants';
+
+const LONG_MONTHS = MAX_PROJECTION_YEARS * 12;
+
+describe('calculateFutureValue', () => {
+  it('adds contributions without interest at 0%', () => {
+    expect(calculateFutureValue(1000, 100, 0, 12)).toBe(2200);
+  });
+
+  it('compounds downwards at a negative rate', () => {
+    expect(calculateFutureValue(1000, 0, -12, 12)).toBeCloseTo(1000 * Math.pow(0.99, 12), 8);
+    expect(calculateFutureValue(0, 100, -12, 12)).toBeLessThan(1200);
+  });
+
+  it('returns the principal over zero months', () => {
+    expect(calculateFutureValue(1000, 100, 7, 0)).toBe(1000);
+  });
+
+  it('stays finite over a very long horizon', () => {
+    const value = calculateFutureValue(10000, 500, 10, LONG_MONTHS);
+    expect(Number.isFinite(value)).toBe(true);
+    expect(value).toBeGreaterThan(calculateFutureValue(10000, 500, 10, LONG_MONTHS - 12));
+  });
+});
+
+describe('calculateRequiredInvestment', () => {
+  it('subtracts contributions from the goal at 0%', () => {
+    expect(calculateRequiredInvestment(2200, 100, 0, 12)).toBe(1000);
+  });
+
+  it('needs more up front at a negative rate', () => {
+    expect(calculateRequiredInvestment(1000 * Math.pow(0.99, 12), 0, -12, 12)).toBeCloseTo(1000, 8);
+  });
+
+  it('needs the whole goal over zero months', () => {
+    expect(calculateRequiredInvestment(5000, 100, 7, 0)).toBe(5000);
+  });
+
+  it('never goes below 0 when contributions already reach the goal', () => {
+    expect(calculateRequiredInvestment(1000, 100, 0, 12)).toBe(0);
+  });
+
+  it('inverts calculateFutureValue over a very long horizon', () => {
+    const target = calculateFutureValue(10000, 500, 10, LONG_MONTHS);
+    expect(calculateRequiredInvestment(target, 500, 10, LONG_MONTHS)).toBeCloseTo(10000, 2);
+  });
+});
+
+describe('calculateProjections', () => {
+  it('holds the balance steady at 0% with no contributions', () => {
+    const projections = calculateProjections(1000, 0, 0, 2);
+    expect(projections).toHaveLength(24);
+    expect(projections.every((m) => m.balance === 1000 && m.gains === 0)).toBe(true);
+  });
+
+  it('matches calculateFutureValue at a negative rate', () => {
+    const projections = calculateProjections(10000, 100, -5, 10);
+    expect(projections[projections.length - 1].balance).toBe(Math.round(calculateFutureValue(10000, 100, -5, 120)));
+    expect(projections[projections.length - 1].gains).toBeLessThan(0);
+  });
+
+  it('returns no months for zero years', () => {
+    expect(calculateProjections(1000, 100, 7, 0)).toEqual([]);
+  });
+
+  it('matches the closed form over a very long horizon', () => {
+    const projections = calculateProjections(10000, 500, 10, MAX_PROJECTION_YEARS);
+    const expected = calculateFutureValue(10000, 500, 10, LONG_MONTHS);
+    expect(projections).toHaveLength(LONG_MONTHS);
+    expect(projections[projections.length - 1].balance / expected).toBeCloseTo(1, 8);
+  });
+});
+
+describe('calculateYearsToMilestone', () => {
+  it('is 0 when the balance is already there', () => {
+    expect(calculateYearsToMilestone(2000000, 0, 7, 1000000)).toBe(0);
+  });
+
+  it('counts contributions alone at 0%', () => {
+    expect(calculateYearsToMilestone(0, 1000, 0, 12000)).toBe(1);
+  });
+
+  it('never reaches a milestone that a negative rate moves away from', () => {
+    expect(calculateYearsToMilestone(500000, 0, -5, 1000000)).toBe(MAX_PROJECTION_YEARS);
+  });
+
+  it('stops at the longest horizon searched', () => {
+    expect(calculateYearsToMilestone(0, 1, 0, 1e9)).toBe(MAX_PROJECTION_YEARS);
+  });
+});
+
+describe('calculateInvestmentMetrics', () => {
+  it('reports the starting position with no projected months', () => {
+    const metrics = calculateInvestmentMetrics([], 5000, 100, 7);
+    expect(metrics.finalBalance).toBe(5000);
+    expect(metrics.totalGains).toBe(0);
+    expect(metrics.vsBenchmarks).toEqual({});
+  });
+
+  it('reports no gains and no income at 0%', () => {
+    const metrics = calculateInvestmentMetrics(calculateProjections(1000, 100, 0, 10), 1000, 100, 0);
+    expect(metrics.finalBalance).toBe(13000);
+    expect(metrics.totalGains).toBe(0);
+    expect(metrics.yearsTo1M).toBe(MAX_PROJECTION_YEARS);
+  });
+
+  it('reports losses at a negative rate', () => {
+    const metrics = calculateInvestmentMetrics(calculateProjections(10000, 0, -10, 5), 10000, 0, -10);
+    expect(metrics.totalGains).toBeLessThan(0);
+    expect(metrics.withdrawalSustainability).toBeLessThan(MAX_PROJECTION_YEARS);
+  });
+
+  it('stays finite over a very long horizon', () => {
+    const metrics = calculateInvestmentMetrics(
+      calculateProjections(10000, 500, 10, MAX_PROJECTION_YEARS),
+      10000,
+      500,
+      10
+    );
+    expect(Number.isFinite(metrics.finalBalance)).toBe(true);
+    expect(metrics.yearsTo5M).toBeLessThan(MAX_PROJECTION_YEARS);
+  });
+});
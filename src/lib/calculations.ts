@@ -0,0 +1,351 @@
+import { DEFAULT_BENCHMARKS, createBenchmarkSchedule } from './benchmarks';
+import { INFLATION_RATE, MAX_PROJECTION_YEARS, MILESTONES } from './constants';
+import { addContribution, contributionForMonth } from './contributions';
+import { simulateDrawdown } from './decumulation';
+import { DEFAULT_DIVIDEND_SETTINGS } from './dividends';
+import { DEFAULT_FEE_SETTINGS, feeDrag, flatFeesForMonth } from './fees';
+import { solveRequiredRate } from './goalSolver';
+import { pensionForAge } from './pension';
+import { rateForMonth } from './rates';
+import { DEFAULT_WITHDRAWAL_PLAN, WITHDRAWAL_STRATEGIES, calculateTargetBalance } from './withdrawalStrategies';
+import type {
+  AnnualRate,
+  Benchmark,
+  Contribution,
+  DividendSettings,
+  FeeSettings,
+  InvestmentMetrics,
+  MonthData,
+  WithdrawalPlan
+} from './types';
+
+/**
+ * Future value of 1 paid at the end of each month for n months
+ * Formula: ((1 + r)^n - 1) / r, which tends to n as r approaches 0
+ */
+const annuityFactor = (monthlyRate: number, months: number): number => {
+  if (monthlyRate === 0) return months;
+  return (Math.pow(1 + monthlyRate, months) - 1) / monthlyRate;
+};
+
+/**
+ * Calculates compound interest with monthly contributions
+ * Formula: FV = PV(1 + r)^n + PMT × [((1 + r)^n - 1) / r]
+ * Where:
+ * - FV = Future Value
+ * - PV = Present Value (initial investment)
+ * - r = Monthly interest rate (annual rate / 12)
+ * - n = Number of months
+ * - PMT = Monthly payment/contribution
+ * At 0% the annuity term reduces to PMT × n.
+ */
+export const calculateFutureValue = (
+  principal: number,
+  monthlyContribution: number,
+  annualRate: number,
+  months: number
+): number => {
+  const monthlyRate = annualRate / 100 / 12;
+
+  // Future value of principal
+  const fvPrincipal = principal * Math.pow(1 + monthlyRate, months);
+
+  // Future value of monthly contributions (annuity)
+  const fvContributions = monthlyContribution * annuityFactor(monthlyRate, months);
+
+  return fvPrincipal + fvContributions;
+};
+
+/**
+ * calculateFutureValue for a rate or contribution that may follow a schedule
+ * Compounds monthly with end-of-month contributions, the same timing as calculateProjections.
+ * A schedule or a withdrawal is stepped month by month, since a withdrawal can't take
+ * the balance below 0; flat amounts use the closed form
+ */
+export const scheduledFutureValue = (
+  principal: number,
+  contribution: Contribution,
+  annualRate: AnnualRate,
+  months: number
+): number => {
+  if (typeof contribution === 'number' && contribution >= 0 && typeof annualRate === 'number') {
+    return calculateFutureValue(principal, contribution, annualRate, months);
+  }
+
+  let balance = principal;
+  for (let month = 1; month <= months; month++) {
+    balance = addContribution(
+      balance * (1 + rateForMonth(annualRate, month) / 100 / 12),
+      contributionForMonth(contribution, month)
+    );
+  }
+  return balance;
+};
+
+/**
+ * Calculates required initial investment to reach a goal
+ * Rearranged formula solving for PV:
+ * PV = (FV - PMT × [((1 + r)^n - 1) / r]) / (1 + r)^n
+ * With a rate or contribution schedule, (1 + r)^n and the annuity term are compounded
+ * month by month instead.
+ * Never returns less than 0 (contributions alone already reach the goal)
+ */
+export const calculateRequiredInvestment = (
+  targetAmount: number,
+  monthlyContribution: Contribution,
+  annualRate: AnnualRate,
+  months: number
+): number => {
+  let growthFactor: number;
+  let fvContributions: number;
+
+  if (typeof annualRate === 'function' || typeof monthlyContribution === 'function') {
+    growthFactor = 1;
+    fvContributions = 0;
+    for (let month = 1; month <= months; month++) {
+      const monthlyRate = rateForMonth(annualRate, month) / 100 / 12;
+      growthFactor *= 1 + monthlyRate;
+      fvContributions = fvContributions * (1 + monthlyRate) + contributionForMonth(monthlyContribution, month);
+    }
+  } else {
+    const monthlyRate = annualRate / 100 / 12;
+    growthFactor = Math.pow(1 + monthlyRate, months);
+
+    // Future value of monthly contributions
+    fvContributions = monthlyContribution * annuityFactor(monthlyRate, months);
+  }
+
+  // Required principal
+  const requiredPrincipal = (targetAmount - fvContributions) / growthFactor;
+
+  return Math.max(0, requiredPrincipal);
+};
+
+/**
+ * Calculates investment projections over time with multiple scenarios
+ * The balance compounds month by month so the rate can follow a schedule
+ * (e.g. an allocation glide path) and contributions can too (raises, pauses,
+ * lump sums); constant inputs match calculateFutureValue.
+ * Each benchmark receives the same contributions, for comparison.
+ * annualRate is the total return. The dividend yield is split out of it and paid
+ * on the opening balance each month, then taxed and either reinvested or taken as cash.
+ * Percentage fees are charged monthly on the opening balance and flat fees at month end
+ * (never more than the balance); a fee-free balance runs alongside for comparison.
+ * The inflation-adjusted balance follows the inflation rate, which may also be a schedule.
+ * Returns one entry per month; an empty array when years is 0
+ */
+export const calculateProjections = (
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  annualRate: AnnualRate,
+  years: number,
+  dividendSettings: DividendSettings = DEFAULT_DIVIDEND_SETTINGS,
+  benchmarks: Benchmark[] = DEFAULT_BENCHMARKS,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  inflation: AnnualRate = INFLATION_RATE
+): MonthData[] => {
+  const data: MonthData[] = [];
+  const months = years * 12;
+  const monthlyYield = dividendSettings.dividendYield / 100 / 12;
+  const monthlyFeeRate = feeDrag(fees) / 100 / 12;
+  const benchmarkRates = benchmarks.map((benchmark) => createBenchmarkSchedule(benchmark, years));
+  const benchmarkBalances = benchmarks.map(() => initialInvestment);
+  let balance = initialInvestment;
+  let contributions = initialInvestment;
+  let dividends = 0;
+  let totalFees = 0;
+  let balanceBeforeFees = initialInvestment;
+  let priceLevel = 1;
+
+  for (let month = 1; month <= months; month++) {
+    const monthlyPriceRate = rateForMonth(annualRate, month) / 100 / 12 - monthlyYield;
+    const dividendTaxShare = 1 - dividendSettings.taxRate / 100;
+
+    // Dividends on the opening balance, net of tax
+    const dividendIncome = balance * monthlyYield * dividendTaxShare;
+    dividends += dividendIncome;
+
+    // Fees, also on the opening balance
+    const balanceFee = balance * monthlyFeeRate;
+
+    // A withdrawal (a negative contribution) takes out no more than the balance
+    const grown = balance * (1 + monthlyPriceRate) + (dividendSettings.reinvest ? dividendIncome : 0);
+    const contribution = Math.max(contributionForMonth(monthlyContribution, month), -grown);
+    balance = grown + contribution;
+
+    const fee = Math.min(balance, balanceFee + flatFeesForMonth(contribution, fees));
+    balance -= fee;
+    totalFees += fee;
+
+    balanceBeforeFees = addContribution(
+      balanceBeforeFees * (1 + monthlyPriceRate) +
+        (dividendSettings.reinvest ? balanceBeforeFees * monthlyYield * dividendTaxShare : 0),
+      contribution
+    );
+
+    contributions += contribution;
+    const gains = balance - contributions;
+
+    // Inflation-adjusted value
+    priceLevel *= Math.pow(1 + rateForMonth(inflation, month) / 100, 1 / 12);
+    const inflationAdjusted = balance / priceLevel;
+
+    // Comparison scenarios
+    const benchmarkValues: Record<string, number> = {};
+    benchmarks.forEach((benchmark, i) => {
+      benchmarkBalances[i] = addContribution(
+        benchmarkBalances[i] * (1 + rateForMonth(benchmarkRates[i], month) / 100 / 12),
+        contribution
+      );
+      benchmarkValues[benchmark.id] = Math.round(benchmarkBalances[i]);
+    });
+
+    data.push({
+      month,
+      year: Math.floor(month / 12),
+      balance: Math.round(balance),
+      contributions: Math.round(contributions),
+      gains: Math.round(gains),
+      inflationAdjusted: Math.round(inflationAdjusted),
+      benchmarks: benchmarkValues,
+      dividendIncome: Math.round(dividendIncome),
+      dividends: Math.round(dividends),
+      fees: Math.round(totalFees),
+      balanceBeforeFees: Math.round(balanceBeforeFees)
+    });
+  }
+
+  return data;
+};
+
+/**
+ * Calculates years needed to reach a monetary milestone
+ * Uses binary search for efficiency
+ * Returns 100 when the milestone isn't reached within 100 years
+ */
+export const calculateYearsToMilestone = (
+  currentBalance: number,
+  monthlyContribution: Contribution,
+  annualRate: AnnualRate,
+  targetAmount: number
+): number => {
+  if (currentBalance >= targetAmount) return 0;
+
+  // Binary search for the number of months needed
+  let low = 0;
+  let high = MAX_PROJECTION_YEARS * 12;
+
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const value = scheduledFutureValue(currentBalance, monthlyContribution, annualRate, mid);
+
+    if (value < targetAmount) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low / 12; // Convert months to years
+};
+
+/**
+ * Calculates comprehensive investment metrics
+ * Retirement income follows the withdrawal plan (the 4% rule by default)
+ * With no projected months the starting position is reported as-is, without benchmark comparisons
+ */
+export const calculateInvestmentMetrics = (
+  projections: MonthData[],
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  annualRate: number,
+  targetMonthlyIncome?: number,
+  withdrawalPlan: WithdrawalPlan = DEFAULT_WITHDRAWAL_PLAN
+): InvestmentMetrics => {
+  const finalMonth: MonthData = projections[projections.length - 1] ?? {
+    month: 0,
+    year: 0,
+    balance: initialInvestment,
+    contributions: initialInvestment,
+    gains: 0,
+    inflationAdjusted: initialInvestment,
+    benchmarks: {},
+    dividendIncome: 0,
+    dividends: 0,
+    fees: 0,
+    balanceBeforeFees: initialInvestment
+  };
+
+  // First-year income under the chosen withdrawal strategy
+  const initialWithdrawalRate = WITHDRAWAL_STRATEGIES[withdrawalPlan.strategy].initialRate(withdrawalPlan, annualRate);
+  const monthlyIncome = (finalMonth.balance * initialWithdrawalRate / 100) / 12;
+  const pensionIncome = withdrawalPlan.pension
+    ? pensionForAge(withdrawalPlan.pension, withdrawalPlan.retirementAge, finalMonth.balance, withdrawalPlan.priceLevel)
+    : 0;
+
+  // Years to milestones
+  const yearsTo1M = calculateYearsToMilestone(
+    initialInvestment,
+    monthlyContribution,
+    annualRate,
+    MILESTONES.yearsTo1M
+  );
+
+  const yearsTo2M = calculateYearsToMilestone(
+    initialInvestment,
+    monthlyContribution,
+    annualRate,
+    MILESTONES.yearsTo2M
+  );
+
+  const yearsTo5M = calculateYearsToMilestone(
+    initialInvestment,
+    monthlyContribution,
+    annualRate,
+    MILESTONES.yearsTo5M
+  );
+
+  // Comparison vs other investments
+  const vsBenchmarks = Object.fromEntries(
+    Object.entries(finalMonth.benchmarks).map(([id, value]) => [id, Math.round(finalMonth.balance - value)])
+  );
+
+  // Required rate to reach goal (if target income specified)
+  const requiredRate = targetMonthlyIncome
+    ? solveRequiredRate(
+        calculateTargetBalance(targetMonthlyIncome, annualRate, withdrawalPlan),
+        initialInvestment,
+        monthlyContribution,
+        projections.length
+      )
+    : null;
+
+  // Withdrawal sustainability: how long the first-year income lasts when it rises with inflation
+  const drawdown = simulateDrawdown(
+    finalMonth.balance,
+    monthlyIncome,
+    annualRate,
+    MAX_PROJECTION_YEARS,
+    withdrawalPlan.inflationRate
+  );
+  const withdrawalSustainability = drawdown.depletedAtMonth === null
+    ? MAX_PROJECTION_YEARS
+    : drawdown.depletedAtMonth / 12;
+
+  return {
+    finalBalance: Math.round(finalMonth.balance),
+    totalContributions: Math.round(finalMonth.contributions),
+    totalGains: Math.round(finalMonth.gains),
+    inflationAdjustedValue: Math.round(finalMonth.inflationAdjusted),
+    monthlyIncome: Math.round(monthlyIncome),
+    yearsTo1M: Math.round(yearsTo1M * 10) / 10,
+    yearsTo2M: Math.round(yearsTo2M * 10) / 10,
+    yearsTo5M: Math.round(yearsTo5M * 10) / 10,
+    vsBenchmarks,
+    totalFees: Math.round(finalMonth.fees),
+    feeImpact: Math.round(finalMonth.balanceBeforeFees - finalMonth.balance),
+    requiredRate: requiredRate === null ? null : Math.round(requiredRate * 10) / 10,
+    withdrawalSustainability: Math.round(withdrawalSustainability * 10) / 10,
+    pensionIncome: Math.round(pensionIncome)
+  };
+};
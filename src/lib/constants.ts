@@ -0,0 +1,14 @@
+// Default market assumptions, all annual percentages
+export const SP500_PRICE_RETURN = 8; // Average annual price growth, excluding dividends
+export const SP500_DIVIDEND_YIELD = 2; // Average annual dividend yield
+export const SP500_INTEREST = SP500_PRICE_RETURN + SP500_DIVIDEND_YIELD; // Historical average annual total return
+export const SAVINGS_INTEREST = 1.5; // Typical savings account
+export const BONDS_INTEREST = 4.5; // Average bond return
+export const INFLATION_RATE = 3; // Average annual inflation
+export const SP500_VOLATILITY = 19.4; // Std deviation of annual S&P 500 returns since 1928
+
+// Balances the years-to-milestone metrics count up to, in the plan currency
+export const MILESTONES = { yearsTo1M: 1000000, yearsTo2M: 2000000, yearsTo5M: 5000000 } as const;
+
+// Simulation limits
+export const MAX_PROJECTION_YEARS = 100; // Milestone and drawdown searches stop here
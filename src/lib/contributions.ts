@@ -0,0 +1,127 @@
+import { rateForMonth } from './rates';
+import type { AnnualRate, Contribution, ContributionEvent, ContributionPlan, ContributionRule } from './types';
+
+// No rules or lump sums: the same contribution every month
+export const DEFAULT_CONTRIBUTION_PLAN: ContributionPlan = {
+  rules: [],
+  lumpSums: []
+};
+
+/**
+ * Contribution paid in during a given month
+ */
+export const contributionForMonth = (contribution: Contribution, month: number): number =>
+  typeof contribution === 'function' ? contribution(month) : contribution;
+
+/**
+ * Balance once a month's contribution is added
+ * A negative contribution is a withdrawal (e.g. a life event) and can't take out more than the balance
+ */
+export const addContribution = (balance: number, contribution: number): number =>
+  Math.max(0, balance + contribution);
+
+const coversYear = (rule: ContributionRule, year: number): boolean =>
+  year >= rule.startYear && (rule.endYear === 0 || year <= rule.endYear);
+
+/**
+ * First month of a plan year, counting from 1
+ */
+const firstMonthOfYear = (year: number): number => (Math.max(1, year) - 1) * 12 + 1;
+
+/**
+ * Regular monthly amount for each plan year (index 0 is year 1), ignoring pauses
+ * Indexation (e.g. inflation) raises the amount each year by the previous year's rate,
+ * and step-ups raise it further in the years they cover (there's nothing to raise in
+ * year 1); a set-amount rule then replaces the amount from its start year, and later
+ * raises build on the new amount.
+ */
+const yearlyAmounts = (
+  monthlyContribution: number,
+  plan: ContributionPlan,
+  years: number,
+  indexation: AnnualRate
+): number[] => {
+  const amounts: number[] = [];
+  let amount = monthlyContribution;
+
+  for (let year = 1; year <= years; year++) {
+    if (year > 1) amount *= 1 + rateForMonth(indexation, firstMonthOfYear(year - 1)) / 100;
+    for (const rule of plan.rules) {
+      if (rule.type === 'step-up' && year > 1 && coversYear(rule, year)) amount *= 1 + rule.value / 100;
+    }
+    for (const rule of plan.rules) {
+      if (rule.type === 'set-amount' && Math.max(1, rule.startYear) === year) amount = rule.value;
+    }
+    amounts.push(amount);
+  }
+
+  return amounts;
+};
+
+/**
+ * Builds the month-by-month contribution for a plan
+ * Pauses stop the regular contribution without resetting its level, so step-ups
+ * carry on underneath a career break. Lump sums are added on top in the first
+ * month of their year, as entered. After the plan ends the final year's amount carries on.
+ * Returns the flat amount unchanged when there's nothing to schedule.
+ */
+export const createContributionSchedule = (
+  monthlyContribution: number,
+  plan: ContributionPlan,
+  years: number,
+  indexation: AnnualRate = 0
+): Contribution => {
+  if (plan.rules.length === 0 && plan.lumpSums.length === 0 && indexation === 0) return monthlyContribution;
+
+  const amounts = yearlyAmounts(monthlyContribution, plan, years, indexation);
+  const paused = amounts.map((_, i) => plan.rules.some((rule) => rule.type === 'pause' && coversYear(rule, i + 1)));
+  const lumpSums = new Map<number, number>();
+  for (const lumpSum of plan.lumpSums) {
+    const month = firstMonthOfYear(lumpSum.year);
+    lumpSums.set(month, (lumpSums.get(month) ?? 0) + lumpSum.amount);
+  }
+
+  return (month) => {
+    const index = Math.min(amounts.length, Math.ceil(month / 12)) - 1;
+    const regular = index < 0 || paused[index] ? 0 : amounts[index];
+    return regular + (lumpSums.get(month) ?? 0);
+  };
+};
+
+/**
+ * Months where the schedule changes within the plan, in order, for chart annotations
+ */
+export const contributionEvents = (
+  monthlyContribution: number,
+  plan: ContributionPlan,
+  years: number,
+  indexation: AnnualRate = 0
+): ContributionEvent[] => {
+  const amounts = yearlyAmounts(monthlyContribution, plan, years, indexation);
+  const events: ContributionEvent[] = [];
+
+  for (const rule of plan.rules) {
+    if (rule.type === 'step-up') {
+      // The first raise lands in year 2 at the earliest
+      const year = Math.max(2, rule.startYear);
+      if (coversYear(rule, year)) {
+        events.push({ month: firstMonthOfYear(year), type: 'step-up', label: '', amount: rule.value });
+      }
+    } else if (rule.type === 'pause') {
+      events.push({ month: firstMonthOfYear(rule.startYear), type: 'pause', label: '', amount: 0 });
+      if (rule.endYear !== 0 && rule.endYear >= rule.startYear && rule.endYear < years) {
+        events.push({ month: rule.endYear * 12 + 1, type: 'resume', label: '', amount: amounts[rule.endYear] });
+      }
+    } else {
+      events.push({ month: firstMonthOfYear(rule.startYear), type: 'set-amount', label: '', amount: rule.value });
+    }
+  }
+
+  for (const lumpSum of plan.lumpSums) {
+    events.push({ month: firstMonthOfYear(lumpSum.year), type: 'lump-sum', label: lumpSum.label, amount: lumpSum.amount });
+  }
+
+  return events
+    .filter((event) => event.month <= years * 12)
+    .sort((a, b) => a.month - b.month);
+};
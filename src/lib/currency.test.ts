@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CURRENCY_SETTINGS, createMoneyFormat, fxRate } from './currency';
+
+describe('createMoneyFormat', () => {
+  it('converts amounts into the display currency', () => {
+    const money = createMoneyFormat({ ...DEFAULT_CURRENCY_SETTINGS, displayCurrency: 'AUD', locale: 'en-AU' });
+    expect(fxRate({ ...DEFAULT_CURRENCY_SETTINGS, displayCurrency: 'AUD' })).toBeCloseTo(1.61, 10);
+    expect(money.full(1000)).toBe('$1,610');
+    expect(money.symbol).toBe('USD');
+  });
+
+  it('formats percentages given in percent for the locale', () => {
+    const us = createMoneyFormat(DEFAULT_CURRENCY_SETTINGS);
+    const de = createMoneyFormat({ ...DEFAULT_CURRENCY_SETTINGS, locale: 'de-DE' });
+    expect(us.percent(7.5)).toBe('7.5%');
+    expect(us.percent(7, 2)).toBe('7.00%');
+    expect(us.percent(-36.5, 0)).toBe('-37%');
+    expect(de.percent(7.5)).toBe('7,5 %');
+  });
+});
@@ -0,0 +1,93 @@
+import type { CurrencyCode, CurrencySettings } from './types';
+
+export const CURRENCIES: Record<CurrencyCode, { label: string }> = {
+  AUD: { label: 'Australian Dollar' },
+  USD: { label: 'US Dollar' },
+  GBP: { label: 'British Pound' },
+  EUR: { label: 'Euro' }
+};
+
+// Locales offered for number formatting: grouping, decimal marks and symbol placement
+export const LOCALES: { tag: string; label: string }[] = [
+  { tag: 'en-AU', label: 'English (Australia)' },
+  { tag: 'en-US', label: 'English (US)' },
+  { tag: 'en-GB', label: 'English (UK)' },
+  { tag: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { tag: 'fr-FR', label: 'Français (France)' }
+];
+
+// Approximate mid-market rates at the end of 2024, in units per US dollar
+// Bundled so conversion works offline; users can enter their own
+export const DEFAULT_FX_RATES: Record<CurrencyCode, number> = {
+  AUD: 1.61,
+  USD: 1,
+  GBP: 0.8,
+  EUR: 0.96
+};
+
+// US dollars shown as US dollars: the behaviour before currencies were configurable
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  currency: 'USD',
+  displayCurrency: 'USD',
+  locale: 'en-US',
+  fxRates: DEFAULT_FX_RATES
+};
+
+/**
+ * Units of the display currency per unit of the plan currency
+ * A single rate for the whole plan: exchange-rate movements aren't modelled
+ */
+export const fxRate = (settings: CurrencySettings): number =>
+  settings.fxRates[settings.displayCurrency] / settings.fxRates[settings.currency];
+
+/**
+ * Symbol for a currency in a locale, such as $, A$ or €
+ */
+export const currencySymbol = (currency: CurrencyCode, locale: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+export interface MoneyFormat {
+  currency: CurrencyCode; // Currency figures are shown in
+  symbol: string; // Symbol of the currency amounts are entered in, for input fields
+  full: (value: number) => string; // Whole units, such as $1,234,567
+  short: (value: number) => string; // Compact, such as $1.2M; also used for chart axes
+  number: (value: number) => string; // A plain count, such as 10,000 simulations
+  percent: (value: number, fractionDigits?: 0 | 1 | 2) => string; // A value in percent, such as 7.5 → 7.5% (one decimal by default)
+}
+
+/**
+ * Formatters for plan amounts in the display currency and locale
+ * Every amount is converted from the plan currency first, so callers pass plan figures as they are.
+ */
+export const createMoneyFormat = (settings: CurrencySettings): MoneyFormat => {
+  const rate = fxRate(settings);
+  const full = new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.displayCurrency,
+    maximumFractionDigits: 0
+  });
+  const short = new Intl.NumberFormat(settings.locale, {
+    style: 'currency',
+    currency: settings.displayCurrency,
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1
+  });
+  const count = new Intl.NumberFormat(settings.locale, { maximumFractionDigits: 0 });
+  const percents = [0, 1, 2].map((digits) => new Intl.NumberFormat(settings.locale, {
+    style: 'percent',
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits
+  }));
+
+  return {
+    currency: settings.displayCurrency,
+    symbol: currencySymbol(settings.currency, settings.locale),
+    full: (value) => full.format(value * rate),
+    short: (value) => short.format(value * rate),
+    number: (value) => count.format(value),
+    percent: (value, fractionDigits = 1) => percents[fractionDigits].format(value / 100)
+  };
+};
@@ -0,0 +1,167 @@
+/**
+ * Annual consumer price inflation, in percent, rounded to one decimal.
+ * US: BLS CPI-U, December to December. Australia: ABS CPI (6401.0), year to the December quarter.
+ * Bundled so historical inflation works offline.
+ */
+export interface AnnualInflation {
+  year: number;
+  inflation: number;
+}
+
+export const US_CPI_INFLATION: readonly AnnualInflation[] = [
+  { year: 1928, inflation: -1.0 },
+  { year: 1929, inflation: 0.2 },
+  { year: 1930, inflation: -6.0 },
+  { year: 1931, inflation: -9.5 },
+  { year: 1932, inflation: -10.3 },
+  { year: 1933, inflation: 0.8 },
+  { year: 1934, inflation: 1.5 },
+  { year: 1935, inflation: 3.0 },
+  { year: 1936, inflation: 1.4 },
+  { year: 1937, inflation: 2.9 },
+  { year: 1938, inflation: -2.8 },
+  { year: 1939, inflation: 0.0 },
+  { year: 1940, inflation: 0.7 },
+  { year: 1941, inflation: 9.9 },
+  { year: 1942, inflation: 9.0 },
+  { year: 1943, inflation: 3.0 },
+  { year: 1944, inflation: 2.3 },
+  { year: 1945, inflation: 2.2 },
+  { year: 1946, inflation: 18.1 },
+  { year: 1947, inflation: 8.8 },
+  { year: 1948, inflation: 3.0 },
+  { year: 1949, inflation: -2.1 },
+  { year: 1950, inflation: 5.9 },
+  { year: 1951, inflation: 6.0 },
+  { year: 1952, inflation: 0.8 },
+  { year: 1953, inflation: 0.7 },
+  { year: 1954, inflation: -0.7 },
+  { year: 1955, inflation: 0.4 },
+  { year: 1956, inflation: 3.0 },
+  { year: 1957, inflation: 2.9 },
+  { year: 1958, inflation: 1.8 },
+  { year: 1959, inflation: 1.7 },
+  { year: 1960, inflation: 1.4 },
+  { year: 1961, inflation: 0.7 },
+  { year: 1962, inflation: 1.3 },
+  { year: 1963, inflation: 1.6 },
+  { year: 1964, inflation: 1.0 },
+  { year: 1965, inflation: 1.9 },
+  { year: 1966, inflation: 3.5 },
+  { year: 1967, inflation: 3.0 },
+  { year: 1968, inflation: 4.7 },
+  { year: 1969, inflation: 6.2 },
+  { year: 1970, inflation: 5.6 },
+  { year: 1971, inflation: 3.3 },
+  { year: 1972, inflation: 3.4 },
+  { year: 1973, inflation: 8.7 },
+  { year: 1974, inflation: 12.3 },
+  { year: 1975, inflation: 6.9 },
+  { year: 1976, inflation: 4.9 },
+  { year: 1977, inflation: 6.7 },
+  { year: 1978, inflation: 9.0 },
+  { year: 1979, inflation: 13.3 },
+  { year: 1980, inflation: 12.5 },
+  { year: 1981, inflation: 8.9 },
+  { year: 1982, inflation: 3.8 },
+  { year: 1983, inflation: 3.8 },
+  { year: 1984, inflation: 3.9 },
+  { year: 1985, inflation: 3.8 },
+  { year: 1986, inflation: 1.1 },
+  { year: 1987, inflation: 4.4 },
+  { year: 1988, inflation: 4.4 },
+  { year: 1989, inflation: 4.6 },
+  { year: 1990, inflation: 6.1 },
+  { year: 1991, inflation: 3.1 },
+  { year: 1992, inflation: 2.9 },
+  { year: 1993, inflation: 2.7 },
+  { year: 1994, inflation: 2.7 },
+  { year: 1995, inflation: 2.5 },
+  { year: 1996, inflation: 3.3 },
+  { year: 1997, inflation: 1.7 },
+  { year: 1998, inflation: 1.6 },
+  { year: 1999, inflation: 2.7 },
+  { year: 2000, inflation: 3.4 },
+  { year: 2001, inflation: 1.6 },
+  { year: 2002, inflation: 2.4 },
+  { year: 2003, inflation: 1.9 },
+  { year: 2004, inflation: 3.3 },
+  { year: 2005, inflation: 3.4 },
+  { year: 2006, inflation: 2.5 },
+  { year: 2007, inflation: 4.1 },
+  { year: 2008, inflation: 0.1 },
+  { year: 2009, inflation: 2.7 },
+  { year: 2010, inflation: 1.5 },
+  { year: 2011, inflation: 3.0 },
+  { year: 2012, inflation: 1.7 },
+  { year: 2013, inflation: 1.5 },
+  { year: 2014, inflation: 0.8 },
+  { year: 2015, inflation: 0.7 },
+  { year: 2016, inflation: 2.1 },
+  { year: 2017, inflation: 2.1 },
+  { year: 2018, inflation: 1.9 },
+  { year: 2019, inflation: 2.3 },
+  { year: 2020, inflation: 1.4 },
+  { year: 2021, inflation: 7.0 },
+  { year: 2022, inflation: 6.5 },
+  { year: 2023, inflation: 3.4 },
+  { year: 2024, inflation: 2.9 },
+];
+
+export const AU_CPI_INFLATION: readonly AnnualInflation[] = [
+  { year: 1970, inflation: 4.8 },
+  { year: 1971, inflation: 6.9 },
+  { year: 1972, inflation: 4.5 },
+  { year: 1973, inflation: 13.2 },
+  { year: 1974, inflation: 16.3 },
+  { year: 1975, inflation: 14.2 },
+  { year: 1976, inflation: 13.9 },
+  { year: 1977, inflation: 9.4 },
+  { year: 1978, inflation: 7.9 },
+  { year: 1979, inflation: 10.0 },
+  { year: 1980, inflation: 9.4 },
+  { year: 1981, inflation: 10.4 },
+  { year: 1982, inflation: 11.4 },
+  { year: 1983, inflation: 8.6 },
+  { year: 1984, inflation: 2.6 },
+  { year: 1985, inflation: 8.2 },
+  { year: 1986, inflation: 9.8 },
+  { year: 1987, inflation: 7.1 },
+  { year: 1988, inflation: 7.6 },
+  { year: 1989, inflation: 7.8 },
+  { year: 1990, inflation: 6.9 },
+  { year: 1991, inflation: 1.5 },
+  { year: 1992, inflation: 0.3 },
+  { year: 1993, inflation: 1.9 },
+  { year: 1994, inflation: 2.5 },
+  { year: 1995, inflation: 5.1 },
+  { year: 1996, inflation: 1.5 },
+  { year: 1997, inflation: -0.2 },
+  { year: 1998, inflation: 1.6 },
+  { year: 1999, inflation: 1.8 },
+  { year: 2000, inflation: 5.8 },
+  { year: 2001, inflation: 3.1 },
+  { year: 2002, inflation: 3.0 },
+  { year: 2003, inflation: 2.4 },
+  { year: 2004, inflation: 2.6 },
+  { year: 2005, inflation: 2.8 },
+  { year: 2006, inflation: 3.3 },
+  { year: 2007, inflation: 3.0 },
+  { year: 2008, inflation: 3.7 },
+  { year: 2009, inflation: 2.1 },
+  { year: 2010, inflation: 2.7 },
+  { year: 2011, inflation: 3.0 },
+  { year: 2012, inflation: 2.2 },
+  { year: 2013, inflation: 2.7 },
+  { year: 2014, inflation: 1.7 },
+  { year: 2015, inflation: 1.7 },
+  { year: 2016, inflation: 1.5 },
+  { year: 2017, inflation: 1.9 },
+  { year: 2018, inflation: 1.8 },
+  { year: 2019, inflation: 1.8 },
+  { year: 2020, inflation: 0.9 },
+  { year: 2021, inflation: 3.5 },
+  { year: 2022, inflation: 7.8 },
+  { year: 2023, inflation: 4.1 },
+  { year: 2024, inflation: 2.4 },
+];
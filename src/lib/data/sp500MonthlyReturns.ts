@@ -0,0 +1,1158 @@
+/**
+ * Monthly S&P 500 total returns (price change plus a twelfth of the annual dividend), in percent.
+ * Source: Robert Shiller, U.S. Stock Market Data (ie_data.xls), as packaged in stock-market-data 2.3.0.
+ * Shiller prices are monthly averages of daily closes, so a month runs from one month's average
+ * to the next and the returns are a little smoother than month-end figures. Rounded to two decimals.
+ * Bundled so the DCA comparison works offline.
+ */
+export interface MonthlyReturn {
+  year: number;
+  month: number; // 1 = January
+  totalReturn: number;
+}
+
+export const SP500_MONTHLY_RETURNS: readonly MonthlyReturn[] = [
+  { year: 1928, month: 1, totalReturn: -0.83 },
+  { year: 1928, month: 2, totalReturn: 5.75 },
+  { year: 1928, month: 3, totalReturn: 6.66 },
+  { year: 1928, month: 4, totalReturn: 3.44 },
+  { year: 1928, month: 5, totalReturn: -4.57 },
+  { year: 1928, month: 6, totalReturn: 1.09 },
+  { year: 1928, month: 7, totalReturn: 3.59 },
+  { year: 1928, month: 8, totalReturn: 7.37 },
+  { year: 1928, month: 9, totalReturn: 2.36 },
+  { year: 1928, month: 10, totalReturn: 7.08 },
+  { year: 1928, month: 11, totalReturn: 0.70 },
+  { year: 1928, month: 12, totalReturn: 7.69 },
+  { year: 1929, month: 1, totalReturn: 0.81 },
+  { year: 1929, month: 2, totalReturn: 2.05 },
+  { year: 1929, month: 3, totalReturn: -0.30 },
+  { year: 1929, month: 4, totalReturn: 1.80 },
+  { year: 1929, month: 5, totalReturn: 2.20 },
+  { year: 1929, month: 6, totalReturn: 9.20 },
+  { year: 1929, month: 7, totalReturn: 5.96 },
+  { year: 1929, month: 8, totalReturn: 4.24 },
+  { year: 1929, month: 9, totalReturn: -10.32 },
+  { year: 1929, month: 10, totalReturn: -26.19 },
+  { year: 1929, month: 11, totalReturn: 4.37 },
+  { year: 1929, month: 12, totalReturn: 1.83 },
+  { year: 1930, month: 1, totalReturn: 6.64 },
+  { year: 1930, month: 2, totalReturn: 4.12 },
+  { year: 1930, month: 3, totalReturn: 6.69 },
+  { year: 1930, month: 4, totalReturn: -5.65 },
+  { year: 1930, month: 5, totalReturn: -9.77 },
+  { year: 1930, month: 6, totalReturn: -1.76 },
+  { year: 1930, month: 7, totalReturn: -0.90 },
+  { year: 1930, month: 8, totalReturn: 0.34 },
+  { year: 1930, month: 9, totalReturn: -13.37 },
+  { year: 1930, month: 10, totalReturn: -6.80 },
+  { year: 1930, month: 11, totalReturn: -6.19 },
+  { year: 1930, month: 12, totalReturn: 3.56 },
+  { year: 1931, month: 1, totalReturn: 8.14 },
+  { year: 1931, month: 2, totalReturn: 2.38 },
+  { year: 1931, month: 3, totalReturn: -9.08 },
+  { year: 1931, month: 4, totalReturn: -9.16 },
+  { year: 1931, month: 5, totalReturn: -2.68 },
+  { year: 1931, month: 6, totalReturn: 3.86 },
+  { year: 1931, month: 7, totalReturn: -2.49 },
+  { year: 1931, month: 8, totalReturn: -14.37 },
+  { year: 1931, month: 9, totalReturn: -12.75 },
+  { year: 1931, month: 10, totalReturn: 2.05 },
+  { year: 1931, month: 11, totalReturn: -18.10 },
+  { year: 1931, month: 12, totalReturn: -0.85 },
+  { year: 1932, month: 1, totalReturn: -0.05 },
+  { year: 1932, month: 2, totalReturn: 1.14 },
+  { year: 1932, month: 3, totalReturn: -23.22 },
+  { year: 1932, month: 4, totalReturn: -11.31 },
+  { year: 1932, month: 5, totalReturn: -12.39 },
+  { year: 1932, month: 6, totalReturn: 6.18 },
+  { year: 1932, month: 7, totalReturn: 51.35 },
+  { year: 1932, month: 8, totalReturn: 10.37 },
+  { year: 1932, month: 9, totalReturn: -13.22 },
+  { year: 1932, month: 10, totalReturn: -0.34 },
+  { year: 1932, month: 11, totalReturn: -2.64 },
+  { year: 1932, month: 12, totalReturn: 4.57 },
+  { year: 1933, month: 1, totalReturn: -11.27 },
+  { year: 1933, month: 2, totalReturn: 0.33 },
+  { year: 1933, month: 3, totalReturn: 11.24 },
+  { year: 1933, month: 4, totalReturn: 29.32 },
+  { year: 1933, month: 5, totalReturn: 17.58 },
+  { year: 1933, month: 6, totalReturn: 8.46 },
+  { year: 1933, month: 7, totalReturn: -4.64 },
+  { year: 1933, month: 8, totalReturn: -0.48 },
+  { year: 1933, month: 9, totalReturn: -9.38 },
+  { year: 1933, month: 10, totalReturn: 2.80 },
+  { year: 1933, month: 11, totalReturn: 2.32 },
+  { year: 1933, month: 12, totalReturn: 6.08 },
+  { year: 1934, month: 1, totalReturn: 7.75 },
+  { year: 1934, month: 2, totalReturn: -4.80 },
+  { year: 1934, month: 3, totalReturn: 2.02 },
+  { year: 1934, month: 4, totalReturn: -9.83 },
+  { year: 1934, month: 5, totalReturn: 1.70 },
+  { year: 1934, month: 6, totalReturn: -4.36 },
+  { year: 1934, month: 7, totalReturn: -3.51 },
+  { year: 1934, month: 8, totalReturn: -2.01 },
+  { year: 1934, month: 9, totalReturn: 1.21 },
+  { year: 1934, month: 10, totalReturn: 3.21 },
+  { year: 1934, month: 11, totalReturn: 1.06 },
+  { year: 1934, month: 12, totalReturn: 0.40 },
+  { year: 1935, month: 1, totalReturn: -2.62 },
+  { year: 1935, month: 2, totalReturn: -5.93 },
+  { year: 1935, month: 3, totalReturn: 7.94 },
+  { year: 1935, month: 4, totalReturn: 8.27 },
+  { year: 1935, month: 5, totalReturn: 4.17 },
+  { year: 1935, month: 6, totalReturn: 5.60 },
+  { year: 1935, month: 7, totalReturn: 7.10 },
+  { year: 1935, month: 8, totalReturn: 2.43 },
+  { year: 1935, month: 9, totalReturn: 2.99 },
+  { year: 1935, month: 10, totalReturn: 9.71 },
+  { year: 1935, month: 11, totalReturn: 0.29 },
+  { year: 1935, month: 12, totalReturn: 5.82 },
+  { year: 1936, month: 1, totalReturn: 6.03 },
+  { year: 1936, month: 2, totalReturn: 2.41 },
+  { year: 1936, month: 3, totalReturn: 0.41 },
+  { year: 1936, month: 4, totalReturn: -5.02 },
+  { year: 1936, month: 5, totalReturn: 4.57 },
+  { year: 1936, month: 6, totalReturn: 6.23 },
+  { year: 1936, month: 7, totalReturn: 2.30 },
+  { year: 1936, month: 8, totalReturn: 1.44 },
+  { year: 1936, month: 9, totalReturn: 5.55 },
+  { year: 1936, month: 10, totalReturn: 3.10 },
+  { year: 1936, month: 11, totalReturn: -1.40 },
+  { year: 1936, month: 12, totalReturn: 3.46 },
+  { year: 1937, month: 1, totalReturn: 3.30 },
+  { year: 1937, month: 2, totalReturn: 0.23 },
+  { year: 1937, month: 3, totalReturn: -5.62 },
+  { year: 1937, month: 4, totalReturn: -4.09 },
+  { year: 1937, month: 5, totalReturn: -3.34 },
+  { year: 1937, month: 6, totalReturn: 6.39 },
+  { year: 1937, month: 7, totalReturn: 1.44 },
+  { year: 1937, month: 8, totalReturn: -13.76 },
+  { year: 1937, month: 9, totalReturn: -14.10 },
+  { year: 1937, month: 10, totalReturn: -8.27 },
+  { year: 1937, month: 11, totalReturn: -1.02 },
+  { year: 1937, month: 12, totalReturn: 3.24 },
+  { year: 1938, month: 1, totalReturn: -1.80 },
+  { year: 1938, month: 2, totalReturn: -6.02 },
+  { year: 1938, month: 3, totalReturn: -3.44 },
+  { year: 1938, month: 4, totalReturn: 1.56 },
+  { year: 1938, month: 5, totalReturn: 2.93 },
+  { year: 1938, month: 6, totalReturn: 20.49 },
+  { year: 1938, month: 7, totalReturn: 1.06 },
+  { year: 1938, month: 8, totalReturn: -4.08 },
+  { year: 1938, month: 9, totalReturn: 11.62 },
+  { year: 1938, month: 10, totalReturn: 0.47 },
+  { year: 1938, month: 11, totalReturn: -2.55 },
+  { year: 1938, month: 12, totalReturn: -1.16 },
+  { year: 1939, month: 1, totalReturn: -0.46 },
+  { year: 1939, month: 2, totalReturn: 0.27 },
+  { year: 1939, month: 3, totalReturn: -12.24 },
+  { year: 1939, month: 4, totalReturn: 4.10 },
+  { year: 1939, month: 5, totalReturn: 2.17 },
+  { year: 1939, month: 6, totalReturn: 2.84 },
+  { year: 1939, month: 7, totalReturn: -1.07 },
+  { year: 1939, month: 8, totalReturn: 11.06 },
+  { year: 1939, month: 9, totalReturn: 1.38 },
+  { year: 1939, month: 10, totalReturn: -1.41 },
+  { year: 1939, month: 11, totalReturn: -1.97 },
+  { year: 1939, month: 12, totalReturn: -0.15 },
+  { year: 1940, month: 1, totalReturn: -0.23 },
+  { year: 1940, month: 2, totalReturn: -0.15 },
+  { year: 1940, month: 3, totalReturn: 1.42 },
+  { year: 1940, month: 4, totalReturn: -13.34 },
+  { year: 1940, month: 5, totalReturn: -8.09 },
+  { year: 1940, month: 6, totalReturn: 3.87 },
+  { year: 1940, month: 7, totalReturn: 2.65 },
+  { year: 1940, month: 8, totalReturn: 4.76 },
+  { year: 1940, month: 9, totalReturn: 1.47 },
+  { year: 1940, month: 10, totalReturn: 2.85 },
+  { year: 1940, month: 11, totalReturn: -3.59 },
+  { year: 1940, month: 12, totalReturn: 0.72 },
+  { year: 1941, month: 1, totalReturn: -5.72 },
+  { year: 1941, month: 2, totalReturn: 1.18 },
+  { year: 1941, month: 3, totalReturn: -2.55 },
+  { year: 1941, month: 4, totalReturn: -1.59 },
+  { year: 1941, month: 5, totalReturn: 4.11 },
+  { year: 1941, month: 6, totalReturn: 5.71 },
+  { year: 1941, month: 7, totalReturn: 0.08 },
+  { year: 1941, month: 8, totalReturn: 0.86 },
+  { year: 1941, month: 9, totalReturn: -3.43 },
+  { year: 1941, month: 10, totalReturn: -4.08 },
+  { year: 1941, month: 11, totalReturn: -5.88 },
+  { year: 1941, month: 12, totalReturn: 2.62 },
+  { year: 1942, month: 1, totalReturn: -2.48 },
+  { year: 1942, month: 2, totalReturn: -4.76 },
+  { year: 1942, month: 3, totalReturn: -3.45 },
+  { year: 1942, month: 4, totalReturn: 1.87 },
+  { year: 1942, month: 5, totalReturn: 5.75 },
+  { year: 1942, month: 6, totalReturn: 4.38 },
+  { year: 1942, month: 7, totalReturn: 0.05 },
+  { year: 1942, month: 8, totalReturn: 1.66 },
+  { year: 1942, month: 9, totalReturn: 7.97 },
+  { year: 1942, month: 10, totalReturn: 2.15 },
+  { year: 1942, month: 11, totalReturn: 1.06 },
+  { year: 1942, month: 12, totalReturn: 6.50 },
+  { year: 1943, month: 1, totalReturn: 6.43 },
+  { year: 1943, month: 2, totalReturn: 4.01 },
+  { year: 1943, month: 3, totalReturn: 3.79 },
+  { year: 1943, month: 4, totalReturn: 4.36 },
+  { year: 1943, month: 5, totalReturn: 2.18 },
+  { year: 1943, month: 6, totalReturn: 2.47 },
+  { year: 1943, month: 7, totalReturn: -4.54 },
+  { year: 1943, month: 8, totalReturn: 2.55 },
+  { year: 1943, month: 9, totalReturn: -0.50 },
+  { year: 1943, month: 10, totalReturn: -4.21 },
+  { year: 1943, month: 11, totalReturn: 1.77 },
+  { year: 1943, month: 12, totalReturn: 3.67 },
+  { year: 1944, month: 1, totalReturn: -0.24 },
+  { year: 1944, month: 2, totalReturn: 3.24 },
+  { year: 1944, month: 3, totalReturn: -1.31 },
+  { year: 1944, month: 4, totalReturn: 2.20 },
+  { year: 1944, month: 5, totalReturn: 5.14 },
+  { year: 1944, month: 6, totalReturn: 3.02 },
+  { year: 1944, month: 7, totalReturn: -1.06 },
+  { year: 1944, month: 8, totalReturn: -1.23 },
+  { year: 1944, month: 9, totalReturn: 2.88 },
+  { year: 1944, month: 10, totalReturn: -0.28 },
+  { year: 1944, month: 11, totalReturn: 2.60 },
+  { year: 1944, month: 12, totalReturn: 3.38 },
+  { year: 1945, month: 1, totalReturn: 3.73 },
+  { year: 1945, month: 2, totalReturn: 0.31 },
+  { year: 1945, month: 3, totalReturn: 2.90 },
+  { year: 1945, month: 4, totalReturn: 4.16 },
+  { year: 1945, month: 5, totalReturn: 2.19 },
+  { year: 1945, month: 6, totalReturn: -1.70 },
+  { year: 1945, month: 7, totalReturn: 0.71 },
+  { year: 1945, month: 8, totalReturn: 7.18 },
+  { year: 1945, month: 9, totalReturn: 4.51 },
+  { year: 1945, month: 10, totalReturn: 3.61 },
+  { year: 1945, month: 11, totalReturn: 2.02 },
+  { year: 1945, month: 12, totalReturn: 4.30 },
+  { year: 1946, month: 1, totalReturn: 0.59 },
+  { year: 1946, month: 2, totalReturn: -2.68 },
+  { year: 1946, month: 3, totalReturn: 6.77 },
+  { year: 1946, month: 4, totalReturn: 0.52 },
+  { year: 1946, month: 5, totalReturn: -0.34 },
+  { year: 1946, month: 6, totalReturn: -2.55 },
+  { year: 1946, month: 7, totalReturn: -1.62 },
+  { year: 1946, month: 8, totalReturn: -14.42 },
+  { year: 1946, month: 9, totalReturn: -1.87 },
+  { year: 1946, month: 10, totalReturn: -0.01 },
+  { year: 1946, month: 11, totalReturn: 3.39 },
+  { year: 1946, month: 12, totalReturn: 0.92 },
+  { year: 1947, month: 1, totalReturn: 4.27 },
+  { year: 1947, month: 2, totalReturn: -3.67 },
+  { year: 1947, month: 3, totalReturn: -3.30 },
+  { year: 1947, month: 4, totalReturn: -1.36 },
+  { year: 1947, month: 5, totalReturn: 3.92 },
+  { year: 1947, month: 6, totalReturn: 6.69 },
+  { year: 1947, month: 7, totalReturn: -1.56 },
+  { year: 1947, month: 8, totalReturn: -2.17 },
+  { year: 1947, month: 9, totalReturn: 3.03 },
+  { year: 1947, month: 10, totalReturn: -0.73 },
+  { year: 1947, month: 11, totalReturn: -1.12 },
+  { year: 1947, month: 12, totalReturn: -0.86 },
+  { year: 1948, month: 1, totalReturn: -4.45 },
+  { year: 1948, month: 2, totalReturn: 1.92 },
+  { year: 1948, month: 3, totalReturn: 8.19 },
+  { year: 1948, month: 4, totalReturn: 5.33 },
+  { year: 1948, month: 5, totalReturn: 4.59 },
+  { year: 1948, month: 6, totalReturn: -1.96 },
+  { year: 1948, month: 7, totalReturn: -2.49 },
+  { year: 1948, month: 8, totalReturn: -0.68 },
+  { year: 1948, month: 9, totalReturn: 3.19 },
+  { year: 1948, month: 10, totalReturn: -5.10 },
+  { year: 1948, month: 11, totalReturn: -0.16 },
+  { year: 1948, month: 12, totalReturn: 1.63 },
+  { year: 1949, month: 1, totalReturn: -3.33 },
+  { year: 1949, month: 2, totalReturn: 1.49 },
+  { year: 1949, month: 3, totalReturn: 0.41 },
+  { year: 1949, month: 4, totalReturn: -0.18 },
+  { year: 1949, month: 5, totalReturn: -4.91 },
+  { year: 1949, month: 6, totalReturn: 6.26 },
+  { year: 1949, month: 7, totalReturn: 4.17 },
+  { year: 1949, month: 8, totalReturn: 1.87 },
+  { year: 1949, month: 9, totalReturn: 3.14 },
+  { year: 1949, month: 10, totalReturn: 1.95 },
+  { year: 1949, month: 11, totalReturn: 3.24 },
+  { year: 1949, month: 12, totalReturn: 2.63 },
+  { year: 1950, month: 1, totalReturn: 2.52 },
+  { year: 1950, month: 2, totalReturn: 1.38 },
+  { year: 1950, month: 3, totalReturn: 3.39 },
+  { year: 1950, month: 4, totalReturn: 3.91 },
+  { year: 1950, month: 5, totalReturn: 2.16 },
+  { year: 1950, month: 6, totalReturn: -6.72 },
+  { year: 1950, month: 7, totalReturn: 6.64 },
+  { year: 1950, month: 8, totalReturn: 4.11 },
+  { year: 1950, month: 9, totalReturn: 4.72 },
+  { year: 1950, month: 10, totalReturn: 0.38 },
+  { year: 1950, month: 11, totalReturn: 0.19 },
+  { year: 1950, month: 12, totalReturn: 8.01 },
+  { year: 1951, month: 1, totalReturn: 4.31 },
+  { year: 1951, month: 2, totalReturn: -1.11 },
+  { year: 1951, month: 3, totalReturn: 1.93 },
+  { year: 1951, month: 4, totalReturn: 0.63 },
+  { year: 1951, month: 5, totalReturn: -1.15 },
+  { year: 1951, month: 6, totalReturn: 2.37 },
+  { year: 1951, month: 7, totalReturn: 4.97 },
+  { year: 1951, month: 8, totalReturn: 3.14 },
+  { year: 1951, month: 9, totalReturn: 0.03 },
+  { year: 1951, month: 10, totalReturn: -2.25 },
+  { year: 1951, month: 11, totalReturn: 3.61 },
+  { year: 1951, month: 12, totalReturn: 3.83 },
+  { year: 1952, month: 1, totalReturn: -1.33 },
+  { year: 1952, month: 2, totalReturn: 0.75 },
+  { year: 1952, month: 3, totalReturn: 0.20 },
+  { year: 1952, month: 4, totalReturn: 0.46 },
+  { year: 1952, month: 5, totalReturn: 3.24 },
+  { year: 1952, month: 6, totalReturn: 3.37 },
+  { year: 1952, month: 7, totalReturn: 0.88 },
+  { year: 1952, month: 8, totalReturn: -1.11 },
+  { year: 1952, month: 9, totalReturn: -1.61 },
+  { year: 1952, month: 10, totalReturn: 3.67 },
+  { year: 1952, month: 11, totalReturn: 4.51 },
+  { year: 1952, month: 12, totalReturn: 0.99 },
+  { year: 1953, month: 1, totalReturn: -0.77 },
+  { year: 1953, month: 2, totalReturn: 0.96 },
+  { year: 1953, month: 3, totalReturn: -4.47 },
+  { year: 1953, month: 4, totalReturn: 1.00 },
+  { year: 1953, month: 5, totalReturn: -3.11 },
+  { year: 1953, month: 6, totalReturn: 1.91 },
+  { year: 1953, month: 7, totalReturn: 0.90 },
+  { year: 1953, month: 8, totalReturn: -4.11 },
+  { year: 1953, month: 9, totalReturn: 3.52 },
+  { year: 1953, month: 10, totalReturn: 2.71 },
+  { year: 1953, month: 11, totalReturn: 1.84 },
+  { year: 1953, month: 12, totalReturn: 3.02 },
+  { year: 1954, month: 1, totalReturn: 2.68 },
+  { year: 1954, month: 2, totalReturn: 2.58 },
+  { year: 1954, month: 3, totalReturn: 4.45 },
+  { year: 1954, month: 4, totalReturn: 4.42 },
+  { year: 1954, month: 5, totalReturn: 1.22 },
+  { year: 1954, month: 6, totalReturn: 4.46 },
+  { year: 1954, month: 7, totalReturn: 2.39 },
+  { year: 1954, month: 8, totalReturn: 2.74 },
+  { year: 1954, month: 9, totalReturn: 2.71 },
+  { year: 1954, month: 10, totalReturn: 4.30 },
+  { year: 1954, month: 11, totalReturn: 4.95 },
+  { year: 1954, month: 12, totalReturn: 2.17 },
+  { year: 1955, month: 1, totalReturn: 3.70 },
+  { year: 1955, month: 2, totalReturn: -0.44 },
+  { year: 1955, month: 3, totalReturn: 3.81 },
+  { year: 1955, month: 4, totalReturn: -0.08 },
+  { year: 1955, month: 5, totalReturn: 6.15 },
+  { year: 1955, month: 6, totalReturn: 7.64 },
+  { year: 1955, month: 7, totalReturn: -0.30 },
+  { year: 1955, month: 8, totalReturn: 4.82 },
+  { year: 1955, month: 9, totalReturn: -4.72 },
+  { year: 1955, month: 10, totalReturn: 7.07 },
+  { year: 1955, month: 11, totalReturn: 1.24 },
+  { year: 1955, month: 12, totalReturn: -2.39 },
+  { year: 1956, month: 1, totalReturn: 0.95 },
+  { year: 1956, month: 2, totalReturn: 7.21 },
+  { year: 1956, month: 3, totalReturn: 1.48 },
+  { year: 1956, month: 4, totalReturn: -2.84 },
+  { year: 1956, month: 5, totalReturn: -0.26 },
+  { year: 1956, month: 6, totalReturn: 5.75 },
+  { year: 1956, month: 7, totalReturn: -0.28 },
+  { year: 1956, month: 8, totalReturn: -3.09 },
+  { year: 1956, month: 9, totalReturn: -0.95 },
+  { year: 1956, month: 10, totalReturn: -0.71 },
+  { year: 1956, month: 11, totalReturn: 1.81 },
+  { year: 1956, month: 12, totalReturn: -1.86 },
+  { year: 1957, month: 1, totalReturn: -4.00 },
+  { year: 1957, month: 2, totalReturn: 1.62 },
+  { year: 1957, month: 3, totalReturn: 2.64 },
+  { year: 1957, month: 4, totalReturn: 4.16 },
+  { year: 1957, month: 5, totalReturn: 1.95 },
+  { year: 1957, month: 6, totalReturn: 2.32 },
+  { year: 1957, month: 7, totalReturn: -5.21 },
+  { year: 1957, month: 8, totalReturn: -3.74 },
+  { year: 1957, month: 9, totalReturn: -5.90 },
+  { year: 1957, month: 10, totalReturn: -1.80 },
+  { year: 1957, month: 11, totalReturn: 0.32 },
+  { year: 1957, month: 12, totalReturn: 2.33 },
+  { year: 1958, month: 1, totalReturn: 0.70 },
+  { year: 1958, month: 2, totalReturn: 2.42 },
+  { year: 1958, month: 3, totalReturn: 0.90 },
+  { year: 1958, month: 4, totalReturn: 3.56 },
+  { year: 1958, month: 5, totalReturn: 2.74 },
+  { year: 1958, month: 6, totalReturn: 3.07 },
+  { year: 1958, month: 7, totalReturn: 4.05 },
+  { year: 1958, month: 8, totalReturn: 2.94 },
+  { year: 1958, month: 9, totalReturn: 4.36 },
+  { year: 1958, month: 10, totalReturn: 3.33 },
+  { year: 1958, month: 11, totalReturn: 2.16 },
+  { year: 1958, month: 12, totalReturn: 4.25 },
+  { year: 1959, month: 1, totalReturn: -1.27 },
+  { year: 1959, month: 2, totalReturn: 2.81 },
+  { year: 1959, month: 3, totalReturn: 1.94 },
+  { year: 1959, month: 4, totalReturn: 1.77 },
+  { year: 1959, month: 5, totalReturn: -0.61 },
+  { year: 1959, month: 6, totalReturn: 4.23 },
+  { year: 1959, month: 7, totalReturn: -0.32 },
+  { year: 1959, month: 8, totalReturn: -3.70 },
+  { year: 1959, month: 9, totalReturn: 0.18 },
+  { year: 1959, month: 10, totalReturn: 0.67 },
+  { year: 1959, month: 11, totalReturn: 3.46 },
+  { year: 1959, month: 12, totalReturn: -1.49 },
+  { year: 1960, month: 1, totalReturn: -3.61 },
+  { year: 1960, month: 2, totalReturn: -1.08 },
+  { year: 1960, month: 3, totalReturn: 1.58 },
+  { year: 1960, month: 4, totalReturn: -0.62 },
+  { year: 1960, month: 5, totalReturn: 3.99 },
+  { year: 1960, month: 6, totalReturn: -2.20 },
+  { year: 1960, month: 7, totalReturn: 1.49 },
+  { year: 1960, month: 8, totalReturn: -2.72 },
+  { year: 1960, month: 9, totalReturn: -1.67 },
+  { year: 1960, month: 10, totalReturn: 3.54 },
+  { year: 1960, month: 11, totalReturn: 2.69 },
+  { year: 1960, month: 12, totalReturn: 5.43 },
+  { year: 1961, month: 1, totalReturn: 4.37 },
+  { year: 1961, month: 2, totalReturn: 3.40 },
+  { year: 1961, month: 3, totalReturn: 2.92 },
+  { year: 1961, month: 4, totalReturn: 1.26 },
+  { year: 1961, month: 5, totalReturn: -1.08 },
+  { year: 1961, month: 6, totalReturn: -0.03 },
+  { year: 1961, month: 7, totalReturn: 3.84 },
+  { year: 1961, month: 8, totalReturn: -0.54 },
+  { year: 1961, month: 9, totalReturn: 1.34 },
+  { year: 1961, month: 10, totalReturn: 4.77 },
+  { year: 1961, month: 11, totalReturn: 1.16 },
+  { year: 1961, month: 12, totalReturn: -3.49 },
+  { year: 1962, month: 1, totalReturn: 1.91 },
+  { year: 1962, month: 2, totalReturn: 0.34 },
+  { year: 1962, month: 3, totalReturn: -2.94 },
+  { year: 1962, month: 4, totalReturn: -7.19 },
+  { year: 1962, month: 5, totalReturn: -11.41 },
+  { year: 1962, month: 6, totalReturn: 2.72 },
+  { year: 1962, month: 7, totalReturn: 3.02 },
+  { year: 1962, month: 8, totalReturn: -0.59 },
+  { year: 1962, month: 9, totalReturn: -2.86 },
+  { year: 1962, month: 10, totalReturn: 7.20 },
+  { year: 1962, month: 11, totalReturn: 4.62 },
+  { year: 1962, month: 12, totalReturn: 4.15 },
+  { year: 1963, month: 1, totalReturn: 1.60 },
+  { year: 1963, month: 2, totalReturn: -0.11 },
+  { year: 1963, month: 3, totalReturn: 4.98 },
+  { year: 1963, month: 4, totalReturn: 2.27 },
+  { year: 1963, month: 5, totalReturn: 0.22 },
+  { year: 1963, month: 6, totalReturn: -1.22 },
+  { year: 1963, month: 7, totalReturn: 3.03 },
+  { year: 1963, month: 8, totalReturn: 2.89 },
+  { year: 1963, month: 9, totalReturn: 0.50 },
+  { year: 1963, month: 10, totalReturn: -0.31 },
+  { year: 1963, month: 11, totalReturn: 2.39 },
+  { year: 1963, month: 12, totalReturn: 3.33 },
+  { year: 1964, month: 1, totalReturn: 1.48 },
+  { year: 1964, month: 2, totalReturn: 2.07 },
+  { year: 1964, month: 3, totalReturn: 1.69 },
+  { year: 1964, month: 4, totalReturn: 1.22 },
+  { year: 1964, month: 5, totalReturn: -0.35 },
+  { year: 1964, month: 6, totalReturn: 3.96 },
+  { year: 1964, month: 7, totalReturn: -1.23 },
+  { year: 1964, month: 8, totalReturn: 1.97 },
+  { year: 1964, month: 9, totalReturn: 1.97 },
+  { year: 1964, month: 10, totalReturn: 0.94 },
+  { year: 1964, month: 11, totalReturn: -1.49 },
+  { year: 1964, month: 12, totalReturn: 2.82 },
+  { year: 1965, month: 1, totalReturn: 0.98 },
+  { year: 1965, month: 2, totalReturn: 0.34 },
+  { year: 1965, month: 3, totalReturn: 1.56 },
+  { year: 1965, month: 4, totalReturn: 1.73 },
+  { year: 1965, month: 5, totalReturn: -4.51 },
+  { year: 1965, month: 6, totalReturn: 0.10 },
+  { year: 1965, month: 7, totalReturn: 2.12 },
+  { year: 1965, month: 8, totalReturn: 3.60 },
+  { year: 1965, month: 9, totalReturn: 2.50 },
+  { year: 1965, month: 10, totalReturn: 1.08 },
+  { year: 1965, month: 11, totalReturn: -0.21 },
+  { year: 1965, month: 12, totalReturn: 1.98 },
+  { year: 1966, month: 1, totalReturn: -0.43 },
+  { year: 1966, month: 2, totalReturn: -3.86 },
+  { year: 1966, month: 3, totalReturn: 3.32 },
+  { year: 1966, month: 4, totalReturn: -5.01 },
+  { year: 1966, month: 5, totalReturn: -0.56 },
+  { year: 1966, month: 6, totalReturn: 0.02 },
+  { year: 1966, month: 7, totalReturn: -5.77 },
+  { year: 1966, month: 8, totalReturn: -3.22 },
+  { year: 1966, month: 9, totalReturn: -0.56 },
+  { year: 1966, month: 10, totalReturn: 5.32 },
+  { year: 1966, month: 11, totalReturn: 0.72 },
+  { year: 1966, month: 12, totalReturn: 4.13 },
+  { year: 1967, month: 1, totalReturn: 3.73 },
+  { year: 1967, month: 2, totalReturn: 2.63 },
+  { year: 1967, month: 3, totalReturn: 1.99 },
+  { year: 1967, month: 4, totalReturn: 2.06 },
+  { year: 1967, month: 5, totalReturn: -0.99 },
+  { year: 1967, month: 6, totalReturn: 1.99 },
+  { year: 1967, month: 7, totalReturn: 1.85 },
+  { year: 1967, month: 8, totalReturn: 1.65 },
+  { year: 1967, month: 9, totalReturn: 0.10 },
+  { year: 1967, month: 10, totalReturn: -2.88 },
+  { year: 1967, month: 11, totalReturn: 3.11 },
+  { year: 1967, month: 12, totalReturn: -0.02 },
+  { year: 1968, month: 1, totalReturn: -4.26 },
+  { year: 1968, month: 2, totalReturn: -1.56 },
+  { year: 1968, month: 3, totalReturn: 7.66 },
+  { year: 1968, month: 4, totalReturn: 2.56 },
+  { year: 1968, month: 5, totalReturn: 2.94 },
+  { year: 1968, month: 6, totalReturn: 0.05 },
+  { year: 1968, month: 7, totalReturn: -1.93 },
+  { year: 1968, month: 8, totalReturn: 3.51 },
+  { year: 1968, month: 9, totalReturn: 2.72 },
+  { year: 1968, month: 10, totalReturn: 1.79 },
+  { year: 1968, month: 11, totalReturn: 1.29 },
+  { year: 1968, month: 12, totalReturn: -3.99 },
+  { year: 1969, month: 1, totalReturn: -0.24 },
+  { year: 1969, month: 2, totalReturn: -1.91 },
+  { year: 1969, month: 3, totalReturn: 2.27 },
+  { year: 1969, month: 4, totalReturn: 3.51 },
+  { year: 1969, month: 5, totalReturn: -4.97 },
+  { year: 1969, month: 6, totalReturn: -4.21 },
+  { year: 1969, month: 7, totalReturn: -0.28 },
+  { year: 1969, month: 8, totalReturn: 0.63 },
+  { year: 1969, month: 9, totalReturn: 1.35 },
+  { year: 1969, month: 10, totalReturn: 1.00 },
+  { year: 1969, month: 11, totalReturn: -5.03 },
+  { year: 1969, month: 12, totalReturn: -0.59 },
+  { year: 1970, month: 1, totalReturn: -3.20 },
+  { year: 1970, month: 2, totalReturn: 2.01 },
+  { year: 1970, month: 3, totalReturn: -2.75 },
+  { year: 1970, month: 4, totalReturn: -11.20 },
+  { year: 1970, month: 5, totalReturn: -0.27 },
+  { year: 1970, month: 6, totalReturn: 0.52 },
+  { year: 1970, month: 7, totalReturn: 3.26 },
+  { year: 1970, month: 8, totalReturn: 6.32 },
+  { year: 1970, month: 9, totalReturn: 2.49 },
+  { year: 1970, month: 10, totalReturn: 0.21 },
+  { year: 1970, month: 11, totalReturn: 7.16 },
+  { year: 1970, month: 12, totalReturn: 4.11 },
+  { year: 1971, month: 1, totalReturn: 4.15 },
+  { year: 1971, month: 2, totalReturn: 2.83 },
+  { year: 1971, month: 3, totalReturn: 3.67 },
+  { year: 1971, month: 4, totalReturn: -1.11 },
+  { year: 1971, month: 5, totalReturn: -1.60 },
+  { year: 1971, month: 6, totalReturn: -0.46 },
+  { year: 1971, month: 7, totalReturn: -1.52 },
+  { year: 1971, month: 8, totalReturn: 2.49 },
+  { year: 1971, month: 9, totalReturn: -1.86 },
+  { year: 1971, month: 10, totalReturn: -4.37 },
+  { year: 1971, month: 11, totalReturn: 7.16 },
+  { year: 1971, month: 12, totalReturn: 4.42 },
+  { year: 1972, month: 1, totalReturn: 2.09 },
+  { year: 1972, month: 2, totalReturn: 2.62 },
+  { year: 1972, month: 3, totalReturn: 1.26 },
+  { year: 1972, month: 4, totalReturn: -0.78 },
+  { year: 1972, month: 5, totalReturn: 0.52 },
+  { year: 1972, month: 6, totalReturn: -0.50 },
+  { year: 1972, month: 7, totalReturn: 3.78 },
+  { year: 1972, month: 8, totalReturn: -1.21 },
+  { year: 1972, month: 9, totalReturn: 0.42 },
+  { year: 1972, month: 10, totalReturn: 5.25 },
+  { year: 1972, month: 11, totalReturn: 2.31 },
+  { year: 1972, month: 12, totalReturn: 0.99 },
+  { year: 1973, month: 1, totalReturn: -3.33 },
+  { year: 1973, month: 2, totalReturn: -1.35 },
+  { year: 1973, month: 3, totalReturn: -1.63 },
+  { year: 1973, month: 4, totalReturn: -2.57 },
+  { year: 1973, month: 5, totalReturn: -1.99 },
+  { year: 1973, month: 6, totalReturn: 1.21 },
+  { year: 1973, month: 7, totalReturn: -1.64 },
+  { year: 1973, month: 8, totalReturn: 2.00 },
+  { year: 1973, month: 9, totalReturn: 4.24 },
+  { year: 1973, month: 10, totalReturn: -6.85 },
+  { year: 1973, month: 11, totalReturn: -6.81 },
+  { year: 1973, month: 12, totalReturn: 1.70 },
+  { year: 1974, month: 1, totalReturn: -2.47 },
+  { year: 1974, month: 2, totalReturn: 4.57 },
+  { year: 1974, month: 3, totalReturn: -4.82 },
+  { year: 1974, month: 4, totalReturn: -2.71 },
+  { year: 1974, month: 5, totalReturn: 0.46 },
+  { year: 1974, month: 6, totalReturn: -11.35 },
+  { year: 1974, month: 7, totalReturn: -3.76 },
+  { year: 1974, month: 8, totalReturn: -10.01 },
+  { year: 1974, month: 9, totalReturn: 2.38 },
+  { year: 1974, month: 10, totalReturn: 3.74 },
+  { year: 1974, month: 11, totalReturn: -6.09 },
+  { year: 1974, month: 12, totalReturn: 8.63 },
+  { year: 1975, month: 1, totalReturn: 10.81 },
+  { year: 1975, month: 2, totalReturn: 4.97 },
+  { year: 1975, month: 3, totalReturn: 1.49 },
+  { year: 1975, month: 4, totalReturn: 6.71 },
+  { year: 1975, month: 5, totalReturn: 2.89 },
+  { year: 1975, month: 6, totalReturn: 0.43 },
+  { year: 1975, month: 7, totalReturn: -7.00 },
+  { year: 1975, month: 8, totalReturn: -0.85 },
+  { year: 1975, month: 9, totalReturn: 4.97 },
+  { year: 1975, month: 10, totalReturn: 2.04 },
+  { year: 1975, month: 11, totalReturn: -1.18 },
+  { year: 1975, month: 12, totalReturn: 9.55 },
+  { year: 1976, month: 1, totalReturn: 4.18 },
+  { year: 1976, month: 2, totalReturn: 0.80 },
+  { year: 1976, month: 3, totalReturn: 1.10 },
+  { year: 1976, month: 4, totalReturn: -0.38 },
+  { year: 1976, month: 5, totalReturn: 0.90 },
+  { year: 1976, month: 6, totalReturn: 2.67 },
+  { year: 1976, month: 7, totalReturn: -0.56 },
+  { year: 1976, month: 8, totalReturn: 2.44 },
+  { year: 1976, month: 9, totalReturn: -3.11 },
+  { year: 1976, month: 10, totalReturn: -0.37 },
+  { year: 1976, month: 11, totalReturn: 3.79 },
+  { year: 1976, month: 12, totalReturn: -0.54 },
+  { year: 1977, month: 1, totalReturn: -2.37 },
+  { year: 1977, month: 2, totalReturn: -0.05 },
+  { year: 1977, month: 3, totalReturn: -1.19 },
+  { year: 1977, month: 4, totalReturn: 0.06 },
+  { year: 1977, month: 5, totalReturn: 0.90 },
+  { year: 1977, month: 6, totalReturn: 1.28 },
+  { year: 1977, month: 7, totalReturn: -2.08 },
+  { year: 1977, month: 8, totalReturn: -1.18 },
+  { year: 1977, month: 9, totalReturn: -2.20 },
+  { year: 1977, month: 10, totalReturn: 0.98 },
+  { year: 1977, month: 11, totalReturn: -0.08 },
+  { year: 1977, month: 12, totalReturn: -3.39 },
+  { year: 1978, month: 1, totalReturn: -0.97 },
+  { year: 1978, month: 2, totalReturn: 0.27 },
+  { year: 1978, month: 3, totalReturn: 4.83 },
+  { year: 1978, month: 4, totalReturn: 5.50 },
+  { year: 1978, month: 5, totalReturn: 0.67 },
+  { year: 1978, month: 6, totalReturn: -0.06 },
+  { year: 1978, month: 7, totalReturn: 7.33 },
+  { year: 1978, month: 8, totalReturn: 0.40 },
+  { year: 1978, month: 9, totalReturn: -2.77 },
+  { year: 1978, month: 10, totalReturn: -5.44 },
+  { year: 1978, month: 11, totalReturn: 1.92 },
+  { year: 1978, month: 12, totalReturn: 4.19 },
+  { year: 1979, month: 1, totalReturn: -1.06 },
+  { year: 1979, month: 2, totalReturn: 2.34 },
+  { year: 1979, month: 3, totalReturn: 2.43 },
+  { year: 1979, month: 4, totalReturn: -1.89 },
+  { year: 1979, month: 5, totalReturn: 2.42 },
+  { year: 1979, month: 6, totalReturn: 1.42 },
+  { year: 1979, month: 7, totalReturn: 5.01 },
+  { year: 1979, month: 8, totalReturn: 1.54 },
+  { year: 1979, month: 9, totalReturn: -3.35 },
+  { year: 1979, month: 10, totalReturn: -0.32 },
+  { year: 1979, month: 11, totalReturn: 4.40 },
+  { year: 1979, month: 12, totalReturn: 3.31 },
+  { year: 1980, month: 1, totalReturn: 4.40 },
+  { year: 1980, month: 2, totalReturn: -8.78 },
+  { year: 1980, month: 3, totalReturn: -1.16 },
+  { year: 1980, month: 4, totalReturn: 5.04 },
+  { year: 1980, month: 5, totalReturn: 6.86 },
+  { year: 1980, month: 6, totalReturn: 4.97 },
+  { year: 1980, month: 7, totalReturn: 3.50 },
+  { year: 1980, month: 8, totalReturn: 2.84 },
+  { year: 1980, month: 9, totalReturn: 3.32 },
+  { year: 1980, month: 10, totalReturn: 4.61 },
+  { year: 1980, month: 11, totalReturn: -1.24 },
+  { year: 1980, month: 12, totalReturn: 0.01 },
+  { year: 1981, month: 1, totalReturn: -3.07 },
+  { year: 1981, month: 2, totalReturn: 4.14 },
+  { year: 1981, month: 3, totalReturn: 1.29 },
+  { year: 1981, month: 4, totalReturn: -1.62 },
+  { year: 1981, month: 5, totalReturn: 0.86 },
+  { year: 1981, month: 6, totalReturn: -2.02 },
+  { year: 1981, month: 7, totalReturn: 0.80 },
+  { year: 1981, month: 8, totalReturn: -8.30 },
+  { year: 1981, month: 9, totalReturn: 1.73 },
+  { year: 1981, month: 10, totalReturn: 3.04 },
+  { year: 1981, month: 11, totalReturn: 1.18 },
+  { year: 1981, month: 12, totalReturn: -4.80 },
+  { year: 1982, month: 1, totalReturn: -1.91 },
+  { year: 1982, month: 2, totalReturn: -2.74 },
+  { year: 1982, month: 3, totalReturn: 5.47 },
+  { year: 1982, month: 4, totalReturn: 0.57 },
+  { year: 1982, month: 5, totalReturn: -5.27 },
+  { year: 1982, month: 6, totalReturn: 0.24 },
+  { year: 1982, month: 7, totalReturn: 0.79 },
+  { year: 1982, month: 8, totalReturn: 12.10 },
+  { year: 1982, month: 9, totalReturn: 8.88 },
+  { year: 1982, month: 10, totalReturn: 4.50 },
+  { year: 1982, month: 11, totalReturn: 1.36 },
+  { year: 1982, month: 12, totalReturn: 3.93 },
+  { year: 1983, month: 1, totalReturn: 2.13 },
+  { year: 1983, month: 2, totalReturn: 3.87 },
+  { year: 1983, month: 3, totalReturn: 4.20 },
+  { year: 1983, month: 4, totalReturn: 4.42 },
+  { year: 1983, month: 5, totalReturn: 1.75 },
+  { year: 1983, month: 6, totalReturn: 0.71 },
+  { year: 1983, month: 7, totalReturn: -2.41 },
+  { year: 1983, month: 8, totalReturn: 3.31 },
+  { year: 1983, month: 9, totalReturn: 0.65 },
+  { year: 1983, month: 10, totalReturn: -1.14 },
+  { year: 1983, month: 11, totalReturn: -0.13 },
+  { year: 1983, month: 12, totalReturn: 1.58 },
+  { year: 1984, month: 1, totalReturn: -5.11 },
+  { year: 1984, month: 2, totalReturn: 0.44 },
+  { year: 1984, month: 3, totalReturn: 0.51 },
+  { year: 1984, month: 4, totalReturn: -0.25 },
+  { year: 1984, month: 5, totalReturn: -1.85 },
+  { year: 1984, month: 6, totalReturn: -0.91 },
+  { year: 1984, month: 7, totalReturn: 9.21 },
+  { year: 1984, month: 8, totalReturn: 1.41 },
+  { year: 1984, month: 9, totalReturn: -0.41 },
+  { year: 1984, month: 10, totalReturn: 1.29 },
+  { year: 1984, month: 11, totalReturn: -0.71 },
+  { year: 1984, month: 12, totalReturn: 4.70 },
+  { year: 1985, month: 1, totalReturn: 5.79 },
+  { year: 1985, month: 2, totalReturn: -0.48 },
+  { year: 1985, month: 3, totalReturn: 1.02 },
+  { year: 1985, month: 4, totalReturn: 2.74 },
+  { year: 1985, month: 5, totalReturn: 2.51 },
+  { year: 1985, month: 6, totalReturn: 2.25 },
+  { year: 1985, month: 7, totalReturn: -1.85 },
+  { year: 1985, month: 8, totalReturn: -1.88 },
+  { year: 1985, month: 9, totalReturn: 1.50 },
+  { year: 1985, month: 10, totalReturn: 6.42 },
+  { year: 1985, month: 11, totalReturn: 5.29 },
+  { year: 1985, month: 12, totalReturn: 0.75 },
+  { year: 1986, month: 1, totalReturn: 5.70 },
+  { year: 1986, month: 2, totalReturn: 6.18 },
+  { year: 1986, month: 3, totalReturn: 2.74 },
+  { year: 1986, month: 4, totalReturn: 0.49 },
+  { year: 1986, month: 5, totalReturn: 3.13 },
+  { year: 1986, month: 6, totalReturn: -1.80 },
+  { year: 1986, month: 7, totalReturn: 2.28 },
+  { year: 1986, month: 8, totalReturn: -2.46 },
+  { year: 1986, month: 9, totalReturn: -0.09 },
+  { year: 1986, month: 10, totalReturn: 3.53 },
+  { year: 1986, month: 11, totalReturn: 1.71 },
+  { year: 1986, month: 12, totalReturn: 6.67 },
+  { year: 1987, month: 1, totalReturn: 6.46 },
+  { year: 1987, month: 2, totalReturn: 4.38 },
+  { year: 1987, month: 3, totalReturn: -0.86 },
+  { year: 1987, month: 4, totalReturn: 0.17 },
+  { year: 1987, month: 5, totalReturn: 4.50 },
+  { year: 1987, month: 6, totalReturn: 3.12 },
+  { year: 1987, month: 7, totalReturn: 6.45 },
+  { year: 1987, month: 8, totalReturn: -3.03 },
+  { year: 1987, month: 9, totalReturn: -11.85 },
+  { year: 1987, month: 10, totalReturn: -12.30 },
+  { year: 1987, month: 11, totalReturn: -1.33 },
+  { year: 1987, month: 12, totalReturn: 4.25 },
+  { year: 1988, month: 1, totalReturn: 3.33 },
+  { year: 1988, month: 2, totalReturn: 3.23 },
+  { year: 1988, month: 3, totalReturn: -0.89 },
+  { year: 1988, month: 4, totalReturn: -2.19 },
+  { year: 1988, month: 5, totalReturn: 6.00 },
+  { year: 1988, month: 6, totalReturn: -0.31 },
+  { year: 1988, month: 7, totalReturn: -1.72 },
+  { year: 1988, month: 8, totalReturn: 1.93 },
+  { year: 1988, month: 9, totalReturn: 3.80 },
+  { year: 1988, month: 10, totalReturn: -2.02 },
+  { year: 1988, month: 11, totalReturn: 2.33 },
+  { year: 1988, month: 12, totalReturn: 3.51 },
+  { year: 1989, month: 1, totalReturn: 3.30 },
+  { year: 1989, month: 2, totalReturn: -0.16 },
+  { year: 1989, month: 3, totalReturn: 3.56 },
+  { year: 1989, month: 4, totalReturn: 4.12 },
+  { year: 1989, month: 5, totalReturn: 3.39 },
+  { year: 1989, month: 6, totalReturn: 2.80 },
+  { year: 1989, month: 7, totalReturn: 4.69 },
+  { year: 1989, month: 8, totalReturn: 0.46 },
+  { year: 1989, month: 9, totalReturn: 0.29 },
+  { year: 1989, month: 10, totalReturn: -1.81 },
+  { year: 1989, month: 11, totalReturn: 2.74 },
+  { year: 1989, month: 12, totalReturn: -2.21 },
+  { year: 1990, month: 1, totalReturn: -2.53 },
+  { year: 1990, month: 2, totalReturn: 2.71 },
+  { year: 1990, month: 3, totalReturn: 0.20 },
+  { year: 1990, month: 4, totalReturn: 3.85 },
+  { year: 1990, month: 5, totalReturn: 3.17 },
+  { year: 1990, month: 6, totalReturn: 0.17 },
+  { year: 1990, month: 7, totalReturn: -7.86 },
+  { year: 1990, month: 8, totalReturn: -4.34 },
+  { year: 1990, month: 9, totalReturn: -2.32 },
+  { year: 1990, month: 10, totalReturn: 2.98 },
+  { year: 1990, month: 11, totalReturn: 4.59 },
+  { year: 1990, month: 12, totalReturn: -0.69 },
+  { year: 1991, month: 1, totalReturn: 11.61 },
+  { year: 1991, month: 2, totalReturn: 3.04 },
+  { year: 1991, month: 3, totalReturn: 2.26 },
+  { year: 1991, month: 4, totalReturn: -0.18 },
+  { year: 1991, month: 5, totalReturn: 0.35 },
+  { year: 1991, month: 6, totalReturn: 0.78 },
+  { year: 1991, month: 7, totalReturn: 2.68 },
+  { year: 1991, month: 8, totalReturn: -0.30 },
+  { year: 1991, month: 9, totalReturn: 0.18 },
+  { year: 1991, month: 10, totalReturn: 0.02 },
+  { year: 1991, month: 11, totalReturn: 0.94 },
+  { year: 1991, month: 12, totalReturn: 7.36 },
+  { year: 1992, month: 1, totalReturn: -0.60 },
+  { year: 1992, month: 2, totalReturn: -1.01 },
+  { year: 1992, month: 3, totalReturn: 0.26 },
+  { year: 1992, month: 4, totalReturn: 2.07 },
+  { year: 1992, month: 5, totalReturn: -1.33 },
+  { year: 1992, month: 6, totalReturn: 1.91 },
+  { year: 1992, month: 7, totalReturn: 0.94 },
+  { year: 1992, month: 8, totalReturn: 0.38 },
+  { year: 1992, month: 9, totalReturn: -1.18 },
+  { year: 1992, month: 10, totalReturn: 2.76 },
+  { year: 1992, month: 11, totalReturn: 3.27 },
+  { year: 1992, month: 12, totalReturn: 0.14 },
+  { year: 1993, month: 1, totalReturn: 1.72 },
+  { year: 1993, month: 2, totalReturn: 2.15 },
+  { year: 1993, month: 3, totalReturn: -1.34 },
+  { year: 1993, month: 4, totalReturn: 0.72 },
+  { year: 1993, month: 5, totalReturn: 0.87 },
+  { year: 1993, month: 6, totalReturn: 0.06 },
+  { year: 1993, month: 7, totalReturn: 1.76 },
+  { year: 1993, month: 8, totalReturn: 1.35 },
+  { year: 1993, month: 9, totalReturn: 1.24 },
+  { year: 1993, month: 10, totalReturn: 0.01 },
+  { year: 1993, month: 11, totalReturn: 0.89 },
+  { year: 1993, month: 12, totalReturn: 1.74 },
+  { year: 1994, month: 1, totalReturn: -0.08 },
+  { year: 1994, month: 2, totalReturn: -1.42 },
+  { year: 1994, month: 3, totalReturn: -3.35 },
+  { year: 1994, month: 4, totalReturn: 1.06 },
+  { year: 1994, month: 5, totalReturn: 1.11 },
+  { year: 1994, month: 6, totalReturn: -0.52 },
+  { year: 1994, month: 7, totalReturn: 3.08 },
+  { year: 1994, month: 8, totalReturn: 0.82 },
+  { year: 1994, month: 9, totalReturn: -0.44 },
+  { year: 1994, month: 10, totalReturn: -0.37 },
+  { year: 1994, month: 11, totalReturn: -1.03 },
+  { year: 1994, month: 12, totalReturn: 2.45 },
+  { year: 1995, month: 1, totalReturn: 3.82 },
+  { year: 1995, month: 2, totalReturn: 2.56 },
+  { year: 1995, month: 3, totalReturn: 3.22 },
+  { year: 1995, month: 4, totalReturn: 3.35 },
+  { year: 1995, month: 5, totalReturn: 3.18 },
+  { year: 1995, month: 6, totalReturn: 3.55 },
+  { year: 1995, month: 7, totalReturn: 0.51 },
+  { year: 1995, month: 8, totalReturn: 3.72 },
+  { year: 1995, month: 9, totalReturn: 0.91 },
+  { year: 1995, month: 10, totalReturn: 2.36 },
+  { year: 1995, month: 11, totalReturn: 3.39 },
+  { year: 1995, month: 12, totalReturn: 0.16 },
+  { year: 1996, month: 1, totalReturn: 5.90 },
+  { year: 1996, month: 2, totalReturn: -0.20 },
+  { year: 1996, month: 3, totalReturn: 0.20 },
+  { year: 1996, month: 4, totalReturn: 2.35 },
+  { year: 1996, month: 5, totalReturn: 1.28 },
+  { year: 1996, month: 6, totalReturn: -3.48 },
+  { year: 1996, month: 7, totalReturn: 3.08 },
+  { year: 1996, month: 8, totalReturn: 2.02 },
+  { year: 1996, month: 9, totalReturn: 4.12 },
+  { year: 1996, month: 10, totalReturn: 5.05 },
+  { year: 1996, month: 11, totalReturn: 1.20 },
+  { year: 1996, month: 12, totalReturn: 3.26 },
+  { year: 1997, month: 1, totalReturn: 4.36 },
+  { year: 1997, month: 2, totalReturn: -0.62 },
+  { year: 1997, month: 3, totalReturn: -3.41 },
+  { year: 1997, month: 4, totalReturn: 9.22 },
+  { year: 1997, month: 5, totalReturn: 5.34 },
+  { year: 1997, month: 6, totalReturn: 5.74 },
+  { year: 1997, month: 7, totalReturn: 0.35 },
+  { year: 1997, month: 8, totalReturn: 1.19 },
+  { year: 1997, month: 9, totalReturn: 1.65 },
+  { year: 1997, month: 10, totalReturn: -1.15 },
+  { year: 1997, month: 11, totalReturn: 2.63 },
+  { year: 1997, month: 12, totalReturn: 0.24 },
+  { year: 1998, month: 1, totalReturn: 6.40 },
+  { year: 1998, month: 2, totalReturn: 5.31 },
+  { year: 1998, month: 3, totalReturn: 3.41 },
+  { year: 1998, month: 4, totalReturn: -0.22 },
+  { year: 1998, month: 5, totalReturn: 0.12 },
+  { year: 1998, month: 6, totalReturn: 4.47 },
+  { year: 1998, month: 7, totalReturn: -6.97 },
+  { year: 1998, month: 8, totalReturn: -4.90 },
+  { year: 1998, month: 9, totalReturn: 1.29 },
+  { year: 1998, month: 10, totalReturn: 10.97 },
+  { year: 1998, month: 11, totalReturn: 4.10 },
+  { year: 1998, month: 12, totalReturn: 5.05 },
+  { year: 1999, month: 1, totalReturn: -0.07 },
+  { year: 1999, month: 2, totalReturn: 2.92 },
+  { year: 1999, month: 3, totalReturn: 4.25 },
+  { year: 1999, month: 4, totalReturn: -0.10 },
+  { year: 1999, month: 5, totalReturn: -0.61 },
+  { year: 1999, month: 6, totalReturn: 4.52 },
+  { year: 1999, month: 7, totalReturn: -3.77 },
+  { year: 1999, month: 8, totalReturn: -0.60 },
+  { year: 1999, month: 9, totalReturn: -1.27 },
+  { year: 1999, month: 10, totalReturn: 7.11 },
+  { year: 1999, month: 11, totalReturn: 2.81 },
+  { year: 1999, month: 12, totalReturn: -0.12 },
+  { year: 2000, month: 1, totalReturn: -2.48 },
+  { year: 2000, month: 2, totalReturn: 3.94 },
+  { year: 2000, month: 3, totalReturn: 1.42 },
+  { year: 2000, month: 4, totalReturn: -2.84 },
+  { year: 2000, month: 5, totalReturn: 3.16 },
+  { year: 2000, month: 6, totalReturn: 0.85 },
+  { year: 2000, month: 7, totalReturn: 0.94 },
+  { year: 2000, month: 8, totalReturn: -1.08 },
+  { year: 2000, month: 9, totalReturn: -5.21 },
+  { year: 2000, month: 10, totalReturn: -0.77 },
+  { year: 2000, month: 11, totalReturn: -3.32 },
+  { year: 2000, month: 12, totalReturn: 0.46 },
+  { year: 2001, month: 1, totalReturn: -2.14 },
+  { year: 2001, month: 2, totalReturn: -9.08 },
+  { year: 2001, month: 3, totalReturn: 0.45 },
+  { year: 2001, month: 4, totalReturn: 6.88 },
+  { year: 2001, month: 5, totalReturn: -2.39 },
+  { year: 2001, month: 6, totalReturn: -2.66 },
+  { year: 2001, month: 7, totalReturn: -2.05 },
+  { year: 2001, month: 8, totalReturn: -11.25 },
+  { year: 2001, month: 9, totalReturn: 3.18 },
+  { year: 2001, month: 10, totalReturn: 5.05 },
+  { year: 2001, month: 11, totalReturn: 1.47 },
+  { year: 2001, month: 12, totalReturn: -0.30 },
+  { year: 2002, month: 1, totalReturn: -3.35 },
+  { year: 2002, month: 2, totalReturn: 4.95 },
+  { year: 2002, month: 3, totalReturn: -3.51 },
+  { year: 2002, month: 4, totalReturn: -2.82 },
+  { year: 2002, month: 5, totalReturn: -5.92 },
+  { year: 2002, month: 6, totalReturn: -10.76 },
+  { year: 2002, month: 7, totalReturn: 1.14 },
+  { year: 2002, month: 8, totalReturn: -4.76 },
+  { year: 2002, month: 9, totalReturn: -1.37 },
+  { year: 2002, month: 10, totalReturn: 6.63 },
+  { year: 2002, month: 11, totalReturn: -1.04 },
+  { year: 2002, month: 12, totalReturn: -0.22 },
+  { year: 2003, month: 1, totalReturn: -6.41 },
+  { year: 2003, month: 2, totalReturn: 1.31 },
+  { year: 2003, month: 3, totalReturn: 5.29 },
+  { year: 2003, month: 4, totalReturn: 5.31 },
+  { year: 2003, month: 5, totalReturn: 5.70 },
+  { year: 2003, month: 6, totalReturn: 0.60 },
+  { year: 2003, month: 7, totalReturn: -0.17 },
+  { year: 2003, month: 8, totalReturn: 3.16 },
+  { year: 2003, month: 9, totalReturn: 2.03 },
+  { year: 2003, month: 10, totalReturn: 1.21 },
+  { year: 2003, month: 11, totalReturn: 3.06 },
+  { year: 2003, month: 12, totalReturn: 4.93 },
+  { year: 2004, month: 1, totalReturn: 1.09 },
+  { year: 2004, month: 2, totalReturn: -1.57 },
+  { year: 2004, month: 3, totalReturn: 0.97 },
+  { year: 2004, month: 4, totalReturn: -2.56 },
+  { year: 2004, month: 5, totalReturn: 2.86 },
+  { year: 2004, month: 6, totalReturn: -2.24 },
+  { year: 2004, month: 7, totalReturn: -1.39 },
+  { year: 2004, month: 8, totalReturn: 2.78 },
+  { year: 2004, month: 9, totalReturn: 0.10 },
+  { year: 2004, month: 10, totalReturn: 4.77 },
+  { year: 2004, month: 11, totalReturn: 2.73 },
+  { year: 2004, month: 12, totalReturn: -1.35 },
+  { year: 2005, month: 1, totalReturn: 1.68 },
+  { year: 2005, month: 2, totalReturn: -0.26 },
+  { year: 2005, month: 3, totalReturn: -2.41 },
+  { year: 2005, month: 4, totalReturn: 1.34 },
+  { year: 2005, month: 5, totalReturn: 2.18 },
+  { year: 2005, month: 6, totalReturn: 1.81 },
+  { year: 2005, month: 7, totalReturn: 0.31 },
+  { year: 2005, month: 8, totalReturn: 0.28 },
+  { year: 2005, month: 9, totalReturn: -2.62 },
+  { year: 2005, month: 10, totalReturn: 3.96 },
+  { year: 2005, month: 11, totalReturn: 2.14 },
+  { year: 2005, month: 12, totalReturn: 1.47 },
+  { year: 2006, month: 1, totalReturn: -0.02 },
+  { year: 2006, month: 2, totalReturn: 1.49 },
+  { year: 2006, month: 3, totalReturn: 0.80 },
+  { year: 2006, month: 4, totalReturn: -0.79 },
+  { year: 2006, month: 5, totalReturn: -2.71 },
+  { year: 2006, month: 6, totalReturn: 0.72 },
+  { year: 2006, month: 7, totalReturn: 2.29 },
+  { year: 2006, month: 8, totalReturn: 2.53 },
+  { year: 2006, month: 9, totalReturn: 3.62 },
+  { year: 2006, month: 10, totalReturn: 2.00 },
+  { year: 2006, month: 11, totalReturn: 2.15 },
+  { year: 2006, month: 12, totalReturn: 0.69 },
+  { year: 2007, month: 1, totalReturn: 1.60 },
+  { year: 2007, month: 2, totalReturn: -2.47 },
+  { year: 2007, month: 3, totalReturn: 4.18 },
+  { year: 2007, month: 4, totalReturn: 3.39 },
+  { year: 2007, month: 5, totalReturn: 0.34 },
+  { year: 2007, month: 6, totalReturn: 0.57 },
+  { year: 2007, month: 7, totalReturn: -4.20 },
+  { year: 2007, month: 8, totalReturn: 3.07 },
+  { year: 2007, month: 9, totalReturn: 2.99 },
+  { year: 2007, month: 10, totalReturn: -4.81 },
+  { year: 2007, month: 11, totalReturn: 1.24 },
+  { year: 2007, month: 12, totalReturn: -6.64 },
+  { year: 2008, month: 1, totalReturn: -1.56 },
+  { year: 2008, month: 2, totalReturn: -2.63 },
+  { year: 2008, month: 3, totalReturn: 4.24 },
+  { year: 2008, month: 4, totalReturn: 2.56 },
+  { year: 2008, month: 5, totalReturn: -4.25 },
+  { year: 2008, month: 6, totalReturn: -6.08 },
+  { year: 2008, month: 7, totalReturn: 2.11 },
+  { year: 2008, month: 8, totalReturn: -4.85 },
+  { year: 2008, month: 9, totalReturn: -20.19 },
+  { year: 2008, month: 10, totalReturn: -8.61 },
+  { year: 2008, month: 11, totalReturn: -0.35 },
+  { year: 2008, month: 12, totalReturn: -1.10 },
+  { year: 2009, month: 1, totalReturn: -6.70 },
+  { year: 2009, month: 2, totalReturn: -5.69 },
+  { year: 2009, month: 3, totalReturn: 12.32 },
+  { year: 2009, month: 4, totalReturn: 6.66 },
+  { year: 2009, month: 5, totalReturn: 2.87 },
+  { year: 2009, month: 6, totalReturn: 1.28 },
+  { year: 2009, month: 7, totalReturn: 8.12 },
+  { year: 2009, month: 8, totalReturn: 3.65 },
+  { year: 2009, month: 9, totalReturn: 2.40 },
+  { year: 2009, month: 10, totalReturn: 2.09 },
+  { year: 2009, month: 11, totalReturn: 2.23 },
+  { year: 2009, month: 12, totalReturn: 1.36 },
+  { year: 2010, month: 1, totalReturn: -2.90 },
+  { year: 2010, month: 2, totalReturn: 5.94 },
+  { year: 2010, month: 3, totalReturn: 4.09 },
+  { year: 2010, month: 4, totalReturn: -5.88 },
+  { year: 2010, month: 5, totalReturn: -3.54 },
+  { year: 2010, month: 6, totalReturn: -0.16 },
+  { year: 2010, month: 7, totalReturn: 0.86 },
+  { year: 2010, month: 8, totalReturn: 3.37 },
+  { year: 2010, month: 9, totalReturn: 4.58 },
+  { year: 2010, month: 10, totalReturn: 2.49 },
+  { year: 2010, month: 11, totalReturn: 3.71 },
+  { year: 2010, month: 12, totalReturn: 3.46 },
+  { year: 2011, month: 1, totalReturn: 3.15 },
+  { year: 2011, month: 2, totalReturn: -1.11 },
+  { year: 2011, month: 3, totalReturn: 2.22 },
+  { year: 2011, month: 4, totalReturn: 0.66 },
+  { year: 2011, month: 5, totalReturn: -3.66 },
+  { year: 2011, month: 6, totalReturn: 3.10 },
+  { year: 2011, month: 7, totalReturn: -10.40 },
+  { year: 2011, month: 8, totalReturn: -0.79 },
+  { year: 2011, month: 9, totalReturn: 3.02 },
+  { year: 2011, month: 10, totalReturn: 1.77 },
+  { year: 2011, month: 11, totalReturn: 1.55 },
+  { year: 2011, month: 12, totalReturn: 4.78 },
+  { year: 2012, month: 1, totalReturn: 4.16 },
+  { year: 2012, month: 2, totalReturn: 2.88 },
+  { year: 2012, month: 3, totalReturn: -0.04 },
+  { year: 2012, month: 4, totalReturn: -3.09 },
+  { year: 2012, month: 5, totalReturn: -1.15 },
+  { year: 2012, month: 6, totalReturn: 2.92 },
+  { year: 2012, month: 7, totalReturn: 3.39 },
+  { year: 2012, month: 8, totalReturn: 3.02 },
+  { year: 2012, month: 9, totalReturn: -0.22 },
+  { year: 2012, month: 10, totalReturn: -2.84 },
+  { year: 2012, month: 11, totalReturn: 2.18 },
+  { year: 2012, month: 12, totalReturn: 4.27 },
+  { year: 2013, month: 1, totalReturn: 2.33 },
+  { year: 2013, month: 2, totalReturn: 2.72 },
+  { year: 2013, month: 3, totalReturn: 1.45 },
+  { year: 2013, month: 4, totalReturn: 4.57 },
+  { year: 2013, month: 5, totalReturn: -1.12 },
+  { year: 2013, month: 6, totalReturn: 3.25 },
+  { year: 2013, month: 7, totalReturn: 0.25 },
+  { year: 2013, month: 8, totalReturn: 1.19 },
+  { year: 2013, month: 9, totalReturn: 2.12 },
+  { year: 2013, month: 10, totalReturn: 3.86 },
+  { year: 2013, month: 11, totalReturn: 1.52 },
+  { year: 2013, month: 12, totalReturn: 0.97 },
+  { year: 2014, month: 1, totalReturn: -0.13 },
+  { year: 2014, month: 2, totalReturn: 2.72 },
+  { year: 2014, month: 3, totalReturn: 0.20 },
+  { year: 2014, month: 4, totalReturn: 1.53 },
+  { year: 2014, month: 5, totalReturn: 3.20 },
+  { year: 2014, month: 6, totalReturn: 1.50 },
+  { year: 2014, month: 7, totalReturn: -0.43 },
+  { year: 2014, month: 8, totalReturn: 1.78 },
+  { year: 2014, month: 9, totalReturn: -2.65 },
+  { year: 2014, month: 10, totalReturn: 5.71 },
+  { year: 2014, month: 11, totalReturn: 0.63 },
+  { year: 2014, month: 12, totalReturn: -1.11 },
+  { year: 2015, month: 1, totalReturn: 2.83 },
+  { year: 2015, month: 2, totalReturn: 0.06 },
+  { year: 2015, month: 3, totalReturn: 0.88 },
+  { year: 2015, month: 4, totalReturn: 0.98 },
+  { year: 2015, month: 5, totalReturn: -0.44 },
+  { year: 2015, month: 6, totalReturn: -0.08 },
+  { year: 2015, month: 7, totalReturn: -2.42 },
+  { year: 2015, month: 8, totalReturn: -4.51 },
+  { year: 2015, month: 9, totalReturn: 4.32 },
+  { year: 2015, month: 10, totalReturn: 2.93 },
+  { year: 2015, month: 11, totalReturn: -1.10 },
+  { year: 2015, month: 12, totalReturn: -6.42 },
+  { year: 2016, month: 1, totalReturn: -0.55 },
+  { year: 2016, month: 2, totalReturn: 6.36 },
+  { year: 2016, month: 3, totalReturn: 2.83 },
+  { year: 2016, month: 4, totalReturn: -0.30 },
+  { year: 2016, month: 5, totalReturn: 1.07 },
+  { year: 2016, month: 6, totalReturn: 3.30 },
+  { year: 2016, month: 7, totalReturn: 1.20 },
+  { year: 2016, month: 8, totalReturn: -0.44 },
+  { year: 2016, month: 9, totalReturn: -0.51 },
+  { year: 2016, month: 10, totalReturn: 1.20 },
+  { year: 2016, month: 11, totalReturn: 3.95 },
+  { year: 2016, month: 12, totalReturn: 1.44 },
+  { year: 2017, month: 1, totalReturn: 2.58 },
+  { year: 2017, month: 2, totalReturn: 1.75 },
+  { year: 2017, month: 3, totalReturn: -0.15 },
+  { year: 2017, month: 4, totalReturn: 1.69 },
+  { year: 2017, month: 5, totalReturn: 1.78 },
+  { year: 2017, month: 6, totalReturn: 0.99 },
+  { year: 2017, month: 7, totalReturn: 0.25 },
+  { year: 2017, month: 8, totalReturn: 1.65 },
+  { year: 2017, month: 9, totalReturn: 2.73 },
+  { year: 2017, month: 10, totalReturn: 1.59 },
+  { year: 2017, month: 11, totalReturn: 2.88 },
+  { year: 2017, month: 12, totalReturn: 4.86 },
+  { year: 2018, month: 1, totalReturn: -2.89 },
+  { year: 2018, month: 2, totalReturn: 0.06 },
+  { year: 2018, month: 3, totalReturn: -1.66 },
+  { year: 2018, month: 4, totalReturn: 1.96 },
+  { year: 2018, month: 5, totalReturn: 2.11 },
+  { year: 2018, month: 6, totalReturn: 1.58 },
+  { year: 2018, month: 7, totalReturn: 2.45 },
+  { year: 2018, month: 8, totalReturn: 1.68 },
+  { year: 2018, month: 9, totalReturn: -3.85 },
+  { year: 2018, month: 10, totalReturn: -2.08 },
+  { year: 2018, month: 11, totalReturn: -5.56 },
+  { year: 2018, month: 12, totalReturn: 1.74 },
+  { year: 2019, month: 1, totalReturn: 5.83 },
+  { year: 2019, month: 2, totalReturn: 1.95 },
+  { year: 2019, month: 3, totalReturn: 3.72 },
+  { year: 2019, month: 4, totalReturn: -1.53 },
+  { year: 2019, month: 5, totalReturn: 1.40 },
+  { year: 2019, month: 6, totalReturn: 3.83 },
+  { year: 2019, month: 7, totalReturn: -3.13 },
+  { year: 2019, month: 8, totalReturn: 3.09 },
+  { year: 2019, month: 9, totalReturn: 0.01 },
+  { year: 2019, month: 10, totalReturn: 4.43 },
+  { year: 2019, month: 11, totalReturn: 2.47 },
+  { year: 2019, month: 12, totalReturn: 3.35 },
+  { year: 2020, month: 1, totalReturn: 0.12 },
+  { year: 2020, month: 2, totalReturn: -18.92 },
+  { year: 2020, month: 3, totalReturn: 4.32 },
+  { year: 2020, month: 4, totalReturn: 5.89 },
+  { year: 2020, month: 5, totalReturn: 6.51 },
+  { year: 2020, month: 6, totalReturn: 3.48 },
+  { year: 2020, month: 7, totalReturn: 5.89 },
+  { year: 2020, month: 8, totalReturn: -0.63 },
+  { year: 2020, month: 9, totalReturn: 1.73 },
+  { year: 2020, month: 10, totalReturn: 3.95 },
+  { year: 2020, month: 11, totalReturn: 4.26 },
+  { year: 2020, month: 12, totalReturn: 2.80 },
+  { year: 2021, month: 1, totalReturn: 2.49 },
+  { year: 2021, month: 2, totalReturn: 0.82 },
+  { year: 2021, month: 3, totalReturn: 6.02 },
+  { year: 2021, month: 4, totalReturn: 0.76 },
+  { year: 2021, month: 5, totalReturn: 1.81 },
+  { year: 2021, month: 6, totalReturn: 3.07 },
+  { year: 2021, month: 7, totalReturn: 2.19 },
+  { year: 2021, month: 8, totalReturn: -0.08 },
+  { year: 2021, month: 9, totalReturn: 0.45 },
+  { year: 2021, month: 10, totalReturn: 4.74 },
+  { year: 2021, month: 11, totalReturn: 0.27 },
+  { year: 2021, month: 12, totalReturn: -2.05 },
+  { year: 2022, month: 1, totalReturn: -2.90 },
+  { year: 2022, month: 2, totalReturn: -0.89 },
+  { year: 2022, month: 3, totalReturn: 0.12 },
+  { year: 2022, month: 4, totalReturn: -7.87 },
+  { year: 2022, month: 5, totalReturn: -3.37 },
+  { year: 2022, month: 6, totalReturn: 0.46 },
+  { year: 2022, month: 7, totalReturn: 6.45 },
+  { year: 2022, month: 8, totalReturn: -7.28 },
+  { year: 2022, month: 9, totalReturn: -3.09 },
+  { year: 2022, month: 10, totalReturn: 5.29 },
+  { year: 2022, month: 11, totalReturn: 0.01 },
+  { year: 2022, month: 12, totalReturn: 1.38 },
+  { year: 2023, month: 1, totalReturn: 3.15 },
+  { year: 2023, month: 2, totalReturn: -2.59 },
+  { year: 2023, month: 3, totalReturn: 4.00 },
+];
@@ -0,0 +1,109 @@
+/**
+ * Annual S&P 500 total returns (price change plus reinvested dividends), in percent.
+ * Source: NYU Stern / Damodaran historical returns dataset, rounded to two decimals.
+ * Bundled so backtests work offline.
+ */
+export interface AnnualReturn {
+  year: number;
+  totalReturn: number;
+}
+
+export const SP500_ANNUAL_RETURNS: readonly AnnualReturn[] = [
+  { year: 1928, totalReturn: 43.81 },
+  { year: 1929, totalReturn: -8.30 },
+  { year: 1930, totalReturn: -25.12 },
+  { year: 1931, totalReturn: -43.84 },
+  { year: 1932, totalReturn: -8.64 },
+  { year: 1933, totalReturn: 49.98 },
+  { year: 1934, totalReturn: -1.19 },
+  { year: 1935, totalReturn: 46.74 },
+  { year: 1936, totalReturn: 31.94 },
+  { year: 1937, totalReturn: -35.34 },
+  { year: 1938, totalReturn: 29.28 },
+  { year: 1939, totalReturn: -1.10 },
+  { year: 1940, totalReturn: -10.67 },
+  { year: 1941, totalReturn: -12.77 },
+  { year: 1942, totalReturn: 19.17 },
+  { year: 1943, totalReturn: 25.06 },
+  { year: 1944, totalReturn: 19.03 },
+  { year: 1945, totalReturn: 35.82 },
+  { year: 1946, totalReturn: -8.43 },
+  { year: 1947, totalReturn: 5.20 },
+  { year: 1948, totalReturn: 5.70 },
+  { year: 1949, totalReturn: 18.30 },
+  { year: 1950, totalReturn: 30.81 },
+  { year: 1951, totalReturn: 23.68 },
+  { year: 1952, totalReturn: 18.15 },
+  { year: 1953, totalReturn: -1.21 },
+  { year: 1954, totalReturn: 52.56 },
+  { year: 1955, totalReturn: 32.60 },
+  { year: 1956, totalReturn: 7.44 },
+  { year: 1957, totalReturn: -10.46 },
+  { year: 1958, totalReturn: 43.72 },
+  { year: 1959, totalReturn: 12.06 },
+  { year: 1960, totalReturn: 0.34 },
+  { year: 1961, totalReturn: 26.64 },
+  { year: 1962, totalReturn: -8.81 },
+  { year: 1963, totalReturn: 22.61 },
+  { year: 1964, totalReturn: 16.42 },
+  { year: 1965, totalReturn: 12.40 },
+  { year: 1966, totalReturn: -9.97 },
+  { year: 1967, totalReturn: 23.80 },
+  { year: 1968, totalReturn: 10.81 },
+  { year: 1969, totalReturn: -8.24 },
+  { year: 1970, totalReturn: 3.56 },
+  { year: 1971, totalReturn: 14.22 },
+  { year: 1972, totalReturn: 18.76 },
+  { year: 1973, totalReturn: -14.31 },
+  { year: 1974, totalReturn: -25.90 },
+  { year: 1975, totalReturn: 37.00 },
+  { year: 1976, totalReturn: 23.83 },
+  { year: 1977, totalReturn: -6.98 },
+  { year: 1978, totalReturn: 6.51 },
+  { year: 1979, totalReturn: 18.52 },
+  { year: 1980, totalReturn: 31.74 },
+  { year: 1981, totalReturn: -4.70 },
+  { year: 1982, totalReturn: 20.42 },
+  { year: 1983, totalReturn: 22.34 },
+  { year: 1984, totalReturn: 6.15 },
+  { year: 1985, totalReturn: 31.24 },
+  { year: 1986, totalReturn: 18.49 },
+  { year: 1987, totalReturn: 5.81 },
+  { year: 1988, totalReturn: 16.54 },
+  { year: 1989, totalReturn: 31.48 },
+  { year: 1990, totalReturn: -3.06 },
+  { year: 1991, totalReturn: 30.23 },
+  { year: 1992, totalReturn: 7.49 },
+  { year: 1993, totalReturn: 9.97 },
+  { year: 1994, totalReturn: 1.33 },
+  { year: 1995, totalReturn: 37.20 },
+  { year: 1996, totalReturn: 22.68 },
+  { year: 1997, totalReturn: 33.10 },
+  { year: 1998, totalReturn: 28.34 },
+  { year: 1999, totalReturn: 20.89 },
+  { year: 2000, totalReturn: -9.03 },
+  { year: 2001, totalReturn: -11.85 },
+  { year: 2002, totalReturn: -21.97 },
+  { year: 2003, totalReturn: 28.36 },
+  { year: 2004, totalReturn: 10.74 },
+  { year: 2005, totalReturn: 4.83 },
+  { year: 2006, totalReturn: 15.61 },
+  { year: 2007, totalReturn: 5.48 },
+  { year: 2008, totalReturn: -36.55 },
+  { year: 2009, totalReturn: 25.94 },
+  { year: 2010, totalReturn: 14.82 },
+  { year: 2011, totalReturn: 2.10 },
+  { year: 2012, totalReturn: 15.89 },
+  { year: 2013, totalReturn: 32.15 },
+  { year: 2014, totalReturn: 13.52 },
+  { year: 2015, totalReturn: 1.38 },
+  { year: 2016, totalReturn: 11.77 },
+  { year: 2017, totalReturn: 21.61 },
+  { year: 2018, totalReturn: -4.23 },
+  { year: 2019, totalReturn: 31.21 },
+  { year: 2020, totalReturn: 18.02 },
+  { year: 2021, totalReturn: 28.47 },
+  { year: 2022, totalReturn: -18.04 },
+  { year: 2023, totalReturn: 26.06 },
+  { year: 2024, totalReturn: 24.88 },
+];
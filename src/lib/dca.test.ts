@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DCA_SETTINGS, compareDcaToLumpSum } from './dca';
+import { SP500_ANNUAL_RETURNS } from './data/sp500Returns';
+import { SP500_MONTHLY_RETURNS, type MonthlyReturn } from './data/sp500MonthlyReturns';
+
+const flat = (totalReturn: number, months: number): MonthlyReturn[] =>
+  Array.from({ length: months }, (_, i) => ({ year: 2000 + Math.floor(i / 12), month: (i % 12) + 1, totalReturn }));
+
+describe('SP500_MONTHLY_RETURNS', () => {
+  it('runs month by month without gaps', () => {
+    expect(SP500_MONTHLY_RETURNS[0]).toMatchObject({ year: 1928, month: 1 });
+    SP500_MONTHLY_RETURNS.slice(1).forEach((r, i) => {
+      const previous = SP500_MONTHLY_RETURNS[i];
+      expect(r.year * 12 + r.month).toBe(previous.year * 12 + previous.month + 1);
+    });
+  });
+
+  it('has the crash months', () => {
+    const month = (year: number, m: number) => SP500_MONTHLY_RETURNS.find((r) => r.year === year && r.month === m)?.totalReturn;
+    expect(month(1929, 10)).toBeCloseTo(-26.19, 2);
+    expect(month(1987, 10)).toBeCloseTo(-12.3, 2);
+    expect(month(2008, 10)).toBeCloseTo(-8.61, 2);
+    // Months within a year differ, unlike an annual return spread evenly
+    expect(new Set(SP500_MONTHLY_RETURNS.filter((r) => r.year === 2008).map((r) => r.totalReturn)).size).toBe(12);
+  });
+
+  it('compounds to within a few points of the annual returns', () => {
+    for (const { year, totalReturn } of SP500_ANNUAL_RETURNS.filter((r) => [1974, 1995, 2008].includes(r.year))) {
+      const compounded = SP500_MONTHLY_RETURNS
+        .filter((r) => r.year === year)
+        .reduce((growth, r) => growth * (1 + r.totalReturn / 100), 1);
+      expect(Math.abs((compounded - 1) * 100 - totalReturn)).toBeLessThan(5);
+    }
+  });
+});
+
+describe('compareDcaToLumpSum', () => {
+  it('is null when the holding period is longer than the history', () => {
+    expect(compareDcaToLumpSum({ ...DEFAULT_DCA_SETTINGS, holdYears: 2 }, flat(1, 12))).toBeNull();
+  });
+
+  it('favours the lump sum in a rising market', () => {
+    const result = compareDcaToLumpSum({ amount: 1200, months: 12, holdYears: 1, cashRate: 0 }, flat(1, 24));
+    expect(result?.periods).toHaveLength(13);
+    expect(result?.lumpSumWinRate).toBe(100);
+    expect(result?.averageDcaLead).toBe(0);
+  });
+
+  it('reports the dollar lead from the final values, not the windfall', () => {
+    const result = compareDcaToLumpSum({ amount: 1200, months: 12, holdYears: 10, cashRate: 0 }, flat(1, 120));
+    const period = result?.periods[0];
+    expect(period).toBeDefined();
+    if (!result || !period) return;
+    expect(result.averageLumpSumLead).toBe(period.lumpSum - period.dca);
+    expect(result.averageLumpSumLead).toBeGreaterThan(1200 * result.averageLumpSumMargin / 100);
+  });
+
+  it('favours DCA in a falling market', () => {
+    const result = compareDcaToLumpSum({ amount: 1200, months: 6, holdYears: 1, cashRate: 0 }, flat(-2, 12));
+    expect(result?.dcaWinRate).toBe(100);
+    expect(result?.averageDcaLead).toBeGreaterThan(0);
+    expect(result?.medianDifference).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { SP500_MONTHLY_RETURNS, type MonthlyReturn } from './data/sp500MonthlyReturns';
+import type { DcaComparison, DcaPeriod, DcaSettings } from './types';
+
+// A $100k windfall drip-fed over a year, compared ten years on, with cash earning nothing meanwhile
+export const DEFAULT_DCA_SETTINGS: DcaSettings = {
+  amount: 100000,
+  months: 12,
+  holdYears: 10,
+  cashRate: 0
+};
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Lump sum against dollar-cost averaging from every historical start month
+ * The lump sum is invested at the start of the first month; DCA invests equal parts at the
+ * start of each of the first `months` months, and the cash still waiting earns cashRate.
+ * Both are valued at the end of the holding period (at least as long as the DCA period).
+ * Returns null when the holding period is longer than the history.
+ */
+export const compareDcaToLumpSum = (
+  settings: DcaSettings,
+  monthlyReturns: readonly MonthlyReturn[] = SP500_MONTHLY_RETURNS
+): DcaComparison | null => {
+  const dcaMonths = Math.max(1, Math.round(settings.months));
+  const holdMonths = Math.max(dcaMonths, Math.round(settings.holdYears * 12));
+  const periodCount = monthlyReturns.length - holdMonths + 1;
+  if (periodCount < 1) return null;
+
+  // growth[i] = growth of 1 invested at the start of month 0 by the start of month i
+  const growth = [1];
+  monthlyReturns.forEach((r, i) => growth.push(growth[i] * (1 + r.totalReturn / 100)));
+  const cashGrowth = (months: number) => Math.pow(1 + settings.cashRate / 100 / 12, months);
+  const tranche = settings.amount / dcaMonths;
+
+  const periods: DcaPeriod[] = [];
+  for (let start = 0; start < periodCount; start++) {
+    const end = start + holdMonths;
+    const lumpSum = settings.amount * growth[end] / growth[start];
+    let dca = 0;
+    for (let k = 0; k < dcaMonths; k++) {
+      dca += tranche * cashGrowth(k) * growth[end] / growth[start + k];
+    }
+    periods.push({
+      startYear: monthlyReturns[start].year,
+      startMonth: monthlyReturns[start].month,
+      lumpSum: Math.round(lumpSum),
+      dca: Math.round(dca),
+      difference: (lumpSum / dca - 1) * 100
+    });
+  }
+
+  const lumpSumWins = periods.filter((p) => p.difference > 0);
+  const dcaWins = periods.filter((p) => p.difference < 0);
+  const sorted = [...periods].sort((a, b) => a.difference - b.difference);
+
+  return {
+    periods,
+    lumpSumWinRate: (lumpSumWins.length / periods.length) * 100,
+    dcaWinRate: (dcaWins.length / periods.length) * 100,
+    averageLumpSumMargin: average(lumpSumWins.map((p) => p.difference)),
+    averageDcaMargin: average(dcaWins.map((p) => -p.difference)),
+    averageLumpSumLead: average(lumpSumWins.map((p) => p.lumpSum - p.dca)),
+    averageDcaLead: average(dcaWins.map((p) => p.dca - p.lumpSum)),
+    medianDifference: sorted[Math.floor((sorted.length - 1) / 2)].difference,
+    best: sorted[sorted.length - 1],
+    worst: sorted[0]
+  };
+};
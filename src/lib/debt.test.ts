@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_LOAN_SETTINGS, compareDebtPayoff, loanPayment } from './debt';
+import { deflateDebtPayoff } from './inflation';
+
+describe('loanPayment', () => {
+  it('matches the annuity formula', () => {
+    expect(loanPayment(400000, 6, 300)).toBeCloseTo(2577.21, 2);
+  });
+
+  it('splits the balance evenly at 0%', () => {
+    expect(loanPayment(12000, 0, 12)).toBe(1000);
+  });
+
+  it('is 0 with nothing owed', () => {
+    expect(loanPayment(0, 6, 0)).toBe(0);
+  });
+
+  it('is null when a balance is owed with no time to repay it', () => {
+    expect(loanPayment(1000, 6, 0)).toBeNull();
+  });
+});
+
+describe('compareDebtPayoff', () => {
+  it('finishes level at the break-even return', () => {
+    const loan = { ...DEFAULT_LOAN_SETTINGS, taxRate: 25 };
+    const comparison = compareDebtPayoff(loan, 8);
+    expect(comparison?.breakEvenRate).toBe(8);
+    expect(comparison?.prepayNetWorth).toBeCloseTo(comparison?.investNetWorth ?? 0, -2);
+  });
+
+  it('favours investing above the break-even return and prepaying below it', () => {
+    const above = compareDebtPayoff(DEFAULT_LOAN_SETTINGS, 10);
+    const below = compareDebtPayoff(DEFAULT_LOAN_SETTINGS, 3);
+    expect(above && above.investNetWorth > above.prepayNetWorth).toBe(true);
+    expect(below && below.prepayNetWorth > below.investNetWorth).toBe(true);
+  });
+
+  it('clears the loan early when prepaying', () => {
+    const comparison = compareDebtPayoff(DEFAULT_LOAN_SETTINGS, 7);
+    expect(comparison?.years).toHaveLength(26);
+    expect(comparison?.payoffMonths).toBeLessThan(300);
+    expect(comparison?.interestSaved).toBeGreaterThan(0);
+    expect(comparison?.years[25].investLoan).toBe(0);
+  });
+
+  it('is null when a balance is owed with less than a month left', () => {
+    expect(compareDebtPayoff({ ...DEFAULT_LOAN_SETTINGS, termYears: 0 }, 7)).toBeNull();
+    expect(compareDebtPayoff({ ...DEFAULT_LOAN_SETTINGS, termYears: 0.05 }, 7)).toBeNull();
+    expect(compareDebtPayoff({ ...DEFAULT_LOAN_SETTINGS, balance: 0, termYears: 0 }, 7)).not.toBeNull();
+  });
+
+  it('repays a part-year term and ends its chart at the end of the term', () => {
+    const halfYear = compareDebtPayoff({ ...DEFAULT_LOAN_SETTINGS, balance: 12000, rate: 0, termYears: 0.5, extraPayment: 0 }, 7);
+    expect(halfYear?.monthlyPayment).toBe(2000);
+    expect(halfYear?.years.map((y) => y.year)).toEqual([0, 0.5]);
+    expect(halfYear?.years[1].investLoan).toBe(0);
+    const longer = compareDebtPayoff({ ...DEFAULT_LOAN_SETTINGS, termYears: 2.5 }, 7);
+    expect(longer?.years.map((y) => y.year)).toEqual([0, 1, 2, 2.5]);
+    expect(longer?.years[3].investNetWorth).toBe(longer?.investNetWorth);
+  });
+});
+
+describe('deflateDebtPayoff', () => {
+  it("values each year's net worth at that year", () => {
+    const comparison = compareDebtPayoff(DEFAULT_LOAN_SETTINGS, 7);
+    if (!comparison) throw new Error('Expected a comparison');
+    const real = deflateDebtPayoff(comparison, 3);
+    expect(real.years[0]).toEqual(comparison.years[0]);
+    expect(real.years[10].investNetWorth).toBe(Math.round(comparison.years[10].investNetWorth / Math.pow(1.03, 10)));
+    expect(real.prepayNetWorth).toBe(Math.round(comparison.prepayNetWorth / Math.pow(1.03, 25)));
+    expect(real.monthlyPayment).toBe(comparison.monthlyPayment);
+  });
+});
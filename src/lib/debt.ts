@@ -0,0 +1,99 @@
+import { calculateFutureValue } from './calculations';
+import type { DebtPayoffComparison, DebtPayoffYear, LoanSettings } from './types';
+
+// A $400k mortgage at 6% with 25 years left and $500 a month to spare
+export const DEFAULT_LOAN_SETTINGS: LoanSettings = {
+  balance: 400000,
+  rate: 6,
+  termYears: 25,
+  extraPayment: 500,
+  taxRate: 0
+};
+
+/**
+ * Scheduled monthly repayment that clears a loan over its term
+ * Formula: PMT = P × r / (1 - (1 + r)^-n), which tends to P / n as r approaches 0
+ * Returns null when a balance is owed with less than a month left to repay it.
+ */
+export const loanPayment = (balance: number, annualRate: number, months: number): number | null => {
+  if (balance <= 0) return 0;
+  if (months < 1) return null;
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0) return balance / months;
+  return (balance * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months));
+};
+
+/**
+ * Loan left after each month of paying a fixed amount, with interest charged monthly
+ * balances[0] is the starting balance. The final payment only covers what's owed.
+ */
+const amortize = (balance: number, annualRate: number, payment: number, months: number) => {
+  const monthlyRate = annualRate / 100 / 12;
+  const balances = [balance];
+  let interest = 0;
+  for (let month = 1; month <= months; month++) {
+    const owed = balances[month - 1] * (1 + monthlyRate);
+    interest += owed - balances[month - 1];
+    balances.push(Math.max(0, owed - payment));
+  }
+  return { balances, interest };
+};
+
+/**
+ * Paying a loan off early against investing the spare cash instead
+ * Both strategies spend the same each month: the scheduled repayment plus extraPayment.
+ * Prepaying puts it all on the loan, then invests the whole amount once the loan is gone;
+ * investing pays the loan on schedule and invests extraPayment from the start.
+ * Investments grow at investmentRate less tax and are compared at the end of the original term,
+ * when both loans are cleared.
+ * With the same cash going in, the two finish level when the after-tax return matches
+ * the loan rate, so the break-even return is rate / (1 - tax).
+ * Returns null when a balance is owed with less than a month left on the term.
+ */
+export const compareDebtPayoff = (loan: LoanSettings, investmentRate: number): DebtPayoffComparison | null => {
+  if (loan.balance > 0 && loan.termYears * 12 < 1) return null;
+  const months = Math.max(0, Math.round(loan.termYears * 12));
+  const payment = loanPayment(loan.balance, loan.rate, months);
+  if (payment === null) return null;
+  const outlay = payment + loan.extraPayment;
+  const afterTaxRate = investmentRate * (1 - loan.taxRate / 100);
+
+  const scheduled = amortize(loan.balance, loan.rate, payment, months);
+  const prepaid = amortize(loan.balance, loan.rate, outlay, months);
+  const payoffMonths = prepaid.balances.findIndex((balance) => balance <= 0);
+  const clearedAt = payoffMonths === -1 ? months : payoffMonths;
+
+  // Whatever the last prepayment didn't need is invested that month, then the full outlay after it
+  const leftover = clearedAt > 0 ? outlay - prepaid.balances[clearedAt - 1] * (1 + loan.rate / 100 / 12) : 0;
+  const prepayInvestmentsAt = (month: number) =>
+    month < clearedAt ? 0 : calculateFutureValue(leftover, outlay, afterTaxRate, month - clearedAt);
+  const investInvestmentsAt = (month: number) => calculateFutureValue(0, loan.extraPayment, afterTaxRate, month);
+
+  // Every year end within the term, plus the end of a term that stops part way through a year
+  const checkpoints = Array.from({ length: Math.floor(months / 12) + 1 }, (_, year) => year * 12);
+  if (months % 12 !== 0) checkpoints.push(months);
+
+  const years: DebtPayoffYear[] = checkpoints.map((month) => {
+    const prepayInvestments = prepayInvestmentsAt(month);
+    const investInvestments = investInvestmentsAt(month);
+    return {
+      year: month / 12,
+      prepayLoan: Math.round(prepaid.balances[month]),
+      prepayInvestments: Math.round(prepayInvestments),
+      prepayNetWorth: Math.round(prepayInvestments - prepaid.balances[month]),
+      investLoan: Math.round(scheduled.balances[month]),
+      investInvestments: Math.round(investInvestments),
+      investNetWorth: Math.round(investInvestments - scheduled.balances[month])
+    };
+  });
+
+  return {
+    monthlyPayment: Math.round(payment),
+    payoffMonths: clearedAt,
+    interestSaved: Math.round(scheduled.interest - prepaid.interest),
+    years,
+    prepayNetWorth: Math.round(prepayInvestmentsAt(months)),
+    investNetWorth: Math.round(investInvestmentsAt(months)),
+    breakEvenRate: loan.taxRate >= 100 ? Infinity : loan.rate / (1 - loan.taxRate / 100)
+  };
+};
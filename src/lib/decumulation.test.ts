@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { simulateDrawdown } from './decumulation';
+
+// Level withdrawal, taken at the start of each month, that uses up a balance in exactly n months
+const exactWithdrawal = (balance: number, annualRate: number, months: number) => {
+  const r = annualRate / 100 / 12;
+  return (balance * r) / ((1 + r) * (1 - Math.pow(1 + r, -months)));
+};
+
+describe('simulateDrawdown', () => {
+  it('records the month the balance can no longer cover a full withdrawal', () => {
+    const result = simulateDrawdown(12500, 1000, 0, 5);
+    expect(result.depletedAtMonth).toBe(13);
+    expect(result.months).toHaveLength(13);
+    expect(result.months[12]).toMatchObject({ year: 1, withdrawal: 500, balance: 0 });
+    expect(result.totalWithdrawn).toBe(12500);
+    expect(result.endingBalance).toBe(0);
+  });
+
+  it('lasts the whole period when the balance covers every withdrawal', () => {
+    const result = simulateDrawdown(12000, 1000, 0, 1);
+    expect(result.depletedAtMonth).toBeNull();
+    expect(result.months).toHaveLength(12);
+    expect(result.endingBalance).toBe(0);
+  });
+
+  it('runs out in the final month just past the withdrawal that exactly uses up the balance', () => {
+    const withdrawal = exactWithdrawal(1000000, 5, 360);
+    expect(simulateDrawdown(1000000, withdrawal * 0.999, 5, 30).depletedAtMonth).toBeNull();
+    expect(simulateDrawdown(1000000, withdrawal * 1.001, 5, 30).depletedAtMonth).toBe(360);
+    expect(simulateDrawdown(1000000, withdrawal * 1.5, 5, 30).depletedAtMonth).toBeLessThan(240);
+  });
+
+  it('sustains the 4% rule through 30 years of steady returns but not twice the rate', () => {
+    const fourPercent = (1000000 * 0.04) / 12;
+    expect(simulateDrawdown(1000000, fourPercent, 7, 30, 3).depletedAtMonth).toBeNull();
+    expect(simulateDrawdown(1000000, fourPercent * 2, 7, 30, 3).depletedAtMonth).toBeLessThan(20 * 12);
+  });
+
+  it('raises the withdrawal with inflation once a year', () => {
+    const { months } = simulateDrawdown(100000, 100, 0, 3, 10);
+    expect(months.map((m) => m.withdrawal).filter((w, i, all) => w !== all[i - 1])).toEqual([100, 110, 121]);
+    expect(months[11].withdrawal).toBe(100);
+    expect(months[12].withdrawal).toBe(110);
+  });
+
+  it('takes extra withdrawals on top in the month they are scheduled', () => {
+    const { months } = simulateDrawdown(100000, 1000, 0, 1, 10, (month) => (month === 6 ? 5000 : 0));
+    expect(months[5].withdrawal).toBe(6000);
+    expect(months[6].withdrawal).toBe(1000);
+    expect(months[11].balance).toBe(100000 - 12 * 1000 - 5000);
+  });
+});
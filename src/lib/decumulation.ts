@@ -0,0 +1,57 @@
+import { contributionForMonth } from './contributions';
+import type { Contribution, DrawdownMonth, DrawdownResult } from './types';
+
+/**
+ * Simulates the retirement drawdown phase month by month
+ * Each month the withdrawal is taken first and the remainder compounds at annualRate.
+ * With an inflation rate the withdrawal steps up once a year to keep its purchasing power.
+ * Extra withdrawals (e.g. life events) come out on top, as scheduled, without indexing.
+ * Stops early when the balance can no longer cover a full withdrawal.
+ */
+export const simulateDrawdown = (
+  startBalance: number,
+  monthlyWithdrawal: number,
+  annualRate: number,
+  years: number,
+  inflationRate = 0,
+  extraWithdrawals: Contribution = 0
+): DrawdownResult => {
+  const monthlyRate = annualRate / 100 / 12;
+  const months: DrawdownMonth[] = [];
+  let balance = startBalance;
+  let withdrawal = monthlyWithdrawal;
+  let totalWithdrawn = 0;
+  let depletedAtMonth: number | null = null;
+
+  for (let month = 1; month <= years * 12; month++) {
+    // Index the withdrawal at the start of each new retirement year
+    if (month > 1 && (month - 1) % 12 === 0) {
+      withdrawal *= 1 + inflationRate / 100;
+    }
+
+    const due = withdrawal + contributionForMonth(extraWithdrawals, month);
+    const taken = Math.min(due, balance);
+    balance = (balance - taken) * (1 + monthlyRate);
+    totalWithdrawn += taken;
+
+    months.push({
+      month,
+      year: Math.floor(month / 12),
+      balance: Math.round(balance),
+      withdrawal: Math.round(taken),
+      totalWithdrawn: Math.round(totalWithdrawn)
+    });
+
+    if (taken < due) {
+      depletedAtMonth = month;
+      break;
+    }
+  }
+
+  return {
+    months,
+    depletedAtMonth,
+    endingBalance: Math.round(balance),
+    totalWithdrawn: Math.round(totalWithdrawn)
+  };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutureValue, calculateProjections } from './calculations';
+import { DEFAULT_DIVIDEND_SETTINGS, applyDividendDrag, dividendDrag } from './dividends';
+
+const final = <T>(list: T[]): T => list[list.length - 1];
+
+describe('dividendDrag', () => {
+  it('loses only the tax on reinvested dividends and the whole yield on paid-out ones', () => {
+    expect(dividendDrag({ dividendYield: 2, reinvest: true, taxRate: 15 })).toBeCloseTo(0.3, 10);
+    expect(dividendDrag({ dividendYield: 2, reinvest: false, taxRate: 15 })).toBe(2);
+    expect(applyDividendDrag(7, DEFAULT_DIVIDEND_SETTINGS)).toBe(7);
+    const schedule = applyDividendDrag(() => 7, { dividendYield: 2, reinvest: false, taxRate: 0 });
+    expect(typeof schedule === 'function' && schedule(1)).toBe(5);
+  });
+});
+
+describe('dividends in calculateProjections', () => {
+  it('matches the total return when untaxed dividends are reinvested', () => {
+    const withDividends = calculateProjections(10000, 500, 7, 30, { dividendYield: 2, reinvest: true, taxRate: 0 }, []);
+    const totalReturn = calculateProjections(10000, 500, 7, 30, DEFAULT_DIVIDEND_SETTINGS, []);
+    expect(final(withDividends).balance).toBeCloseTo(final(totalReturn).balance, -1);
+    expect(final(withDividends).dividends).toBeGreaterThan(0);
+  });
+
+  it('grows at the price return when dividends are paid out', () => {
+    const projections = calculateProjections(10000, 500, 7, 30, { dividendYield: 2, reinvest: false, taxRate: 0 }, []);
+    expect(final(projections).balance).toBeCloseTo(calculateFutureValue(10000, 500, 5, 360), -1);
+  });
+
+  it('pays the yield on the opening balance each month, after tax', () => {
+    const [first, second] = calculateProjections(120000, 0, 0, 1, { dividendYield: 3, reinvest: false, taxRate: 20 }, []);
+    expect(first.dividendIncome).toBe(240);
+    expect(first.balance).toBe(119700);
+    expect(second.dividends).toBe(Math.round(240 + 119700 * 0.0025 * 0.8));
+  });
+
+  it('loses the dividend tax from the balance when reinvesting', () => {
+    const projections = calculateProjections(10000, 500, 7, 30, { dividendYield: 2, reinvest: true, taxRate: 15 }, []);
+    expect(final(projections).balance).toBeCloseTo(calculateFutureValue(10000, 500, 6.7, 360), -1);
+  });
+});
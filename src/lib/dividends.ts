@@ -0,0 +1,29 @@
+import type { AnnualRate, DividendSettings } from './types';
+
+// Total return with dividends folded in: the behaviour before dividends were modelled
+export const DEFAULT_DIVIDEND_SETTINGS: DividendSettings = {
+  dividendYield: 0,
+  reinvest: true,
+  taxRate: 0
+};
+
+/**
+ * Annual return (%) lost from the balance to dividends
+ * Reinvested dividends only lose their tax; paid-out dividends leave the portfolio entirely
+ */
+export const dividendDrag = (dividends: DividendSettings): number =>
+  dividends.reinvest
+    ? dividends.dividendYield * dividends.taxRate / 100
+    : dividends.dividendYield;
+
+/**
+ * Rate the balance actually compounds at once dividends are taken into account
+ * Lets constant-rate helpers (milestones, goal sizing, simulations) match calculateProjections
+ */
+export const applyDividendDrag = (annualRate: AnnualRate, dividends: DividendSettings): AnnualRate => {
+  const drag = dividendDrag(dividends);
+  if (drag === 0) return annualRate;
+  return typeof annualRate === 'function'
+    ? (month) => annualRate(month) - drag
+    : annualRate - drag;
+};
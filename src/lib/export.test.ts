@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { calculateInvestmentMetrics, calculateProjections } from './calculations';
+import { DEFAULT_CURRENCY_SETTINGS } from './currency';
+import { createProjectionExport, summarizeByYear, toCsv, toJson } from './export';
+import type { ExportAssumption } from './export';
+
+const projections = calculateProjections(10000, 500, 7, 2);
+const metrics = calculateInvestmentMetrics(projections, 10000, 500, 7);
+const exportWith = (assumptions: ExportAssumption[]) => createProjectionExport(projections, metrics, assumptions, []);
+
+describe('summarizeByYear', () => {
+  it('keeps the year-end balance and totals the dividend income', () => {
+    const yearly = summarizeByYear(projections);
+    expect(yearly).toHaveLength(2);
+    expect(yearly[0].balance).toBe(projections[11].balance);
+    expect(yearly[0].dividendIncome).toBe(projections.slice(0, 12).reduce((sum, m) => sum + m.dividendIncome, 0));
+  });
+
+  it('gives a trailing partial year its own row', () => {
+    const yearly = summarizeByYear(projections.slice(0, 18));
+    expect(yearly.map((y) => y.year)).toEqual([1, 2]);
+    expect(yearly[1].balance).toBe(projections[17].balance);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes fields with delimiters, quotes and line breaks', () => {
+    const csv = toCsv(exportWith([{ label: 'Note', value: 'a, "b"\nc' }]));
+    expect(csv).toContain('Note,"a, ""b""\nc"');
+  });
+
+  it('prefixes text that would open as a formula', () => {
+    const csv = toCsv(exportWith([
+      { label: 'Scenario', value: '=HYPERLINK("http://example.com")' },
+      { label: '+Plus', value: '@SUM(A1)' },
+      { label: 'Tab', value: '\tx' }
+    ]));
+    expect(csv).toContain(`Scenario,"'=HYPERLINK(""http://example.com"")"`);
+    expect(csv).toContain("'+Plus,'@SUM(A1)");
+    expect(csv).toContain("Tab,'\tx");
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    const csv = toCsv(exportWith([{ label: 'Rate', value: -5 }]));
+    expect(csv).toContain('Rate,-5\r\n');
+  });
+});
+
+describe('metric labels', () => {
+  it('show milestones in the plan currency', () => {
+    expect(toCsv(exportWith([]))).toContain('Years to $1M,');
+    const euros = createProjectionExport(projections, metrics, [], [], { ...DEFAULT_CURRENCY_SETTINGS, currency: 'EUR', locale: 'de-DE' });
+    expect(toCsv(euros)).toContain('Years to 1\u00a0Mio.\u00a0€,');
+  });
+});
+
+describe('toJson', () => {
+  it('round-trips the export', () => {
+    const data = exportWith([{ label: 'Rate', value: 7 }]);
+    expect(JSON.parse(toJson(data))).toEqual(data);
+  });
+});
@@ -0,0 +1,161 @@
+import { DEFAULT_BENCHMARKS } from './benchmarks';
+import { MILESTONES } from './constants';
+import { DEFAULT_CURRENCY_SETTINGS, createMoneyFormat, type MoneyFormat } from './currency';
+import { createXlsx, type SheetCell } from './xlsx';
+import type { Benchmark, CurrencyCode, CurrencySettings, InvestmentMetrics, MonthData } from './types';
+
+export interface ExportAssumption {
+  label: string;
+  value: string | number;
+}
+
+export interface ProjectionExport {
+  generatedAt: string; // ISO timestamp
+  currency: CurrencyCode; // Plan currency every amount is in
+  locale: string; // Number formatting used for labels such as "Years to $1M"
+  assumptions: ExportAssumption[];
+  benchmarks: Benchmark[]; // Names for the benchmark ids in the metrics and schedules
+  metrics: InvestmentMetrics;
+  monthly: MonthData[];
+  yearly: MonthData[];
+}
+
+// Every MonthData column, in schedule order; benchmarks follow with a column each
+export const SCHEDULE_COLUMNS: { key: Exclude<keyof MonthData, 'benchmarks'>; label: string }[] = [
+  { key: 'month', label: 'Month' },
+  { key: 'year', label: 'Year' },
+  { key: 'balance', label: 'Balance' },
+  { key: 'contributions', label: 'Total Contributions' },
+  { key: 'gains', label: 'Total Gains' },
+  { key: 'inflationAdjusted', label: 'Inflation-Adjusted Balance' },
+  { key: 'dividendIncome', label: 'Dividend Income' },
+  { key: 'dividends', label: 'Total Dividends' },
+  { key: 'fees', label: 'Total Fees' },
+  { key: 'balanceBeforeFees', label: 'Balance Before Fees' }
+];
+
+/**
+ * Label for each metric, with milestone amounts in the given money format
+ * Benchmark advantages follow as "Advantage vs <name>"
+ */
+export const metricLabels = (money: MoneyFormat): Record<Exclude<keyof InvestmentMetrics, 'vsBenchmarks'>, string> => ({
+  finalBalance: 'Final Balance',
+  totalContributions: 'Total Contributions',
+  totalGains: 'Total Gains',
+  inflationAdjustedValue: 'Inflation-Adjusted Value',
+  monthlyIncome: 'Monthly Income (first year)',
+  yearsTo1M: `Years to ${money.short(MILESTONES.yearsTo1M)}`,
+  yearsTo2M: `Years to ${money.short(MILESTONES.yearsTo2M)}`,
+  yearsTo5M: `Years to ${money.short(MILESTONES.yearsTo5M)}`,
+  totalFees: 'Lifetime Fees Paid',
+  feeImpact: 'Balance Lost to Fees',
+  requiredRate: 'Required Rate (%)',
+  withdrawalSustainability: 'Withdrawal Sustainability (years)',
+  pensionIncome: 'Monthly Pension (first year)'
+});
+
+/**
+ * Rolls a monthly schedule up to one row per year
+ * Balances are taken at year end; dividend income is the year's total
+ * A trailing partial year still gets a row
+ */
+export const summarizeByYear = (projections: MonthData[]): MonthData[] => {
+  const yearly: MonthData[] = [];
+  for (let start = 0; start < projections.length; start += 12) {
+    const months = projections.slice(start, start + 12);
+    const last = months[months.length - 1];
+    yearly.push({
+      ...last,
+      year: Math.ceil(last.month / 12),
+      dividendIncome: months.reduce((sum, m) => sum + m.dividendIncome, 0)
+    });
+  }
+  return yearly;
+};
+
+export const createProjectionExport = (
+  projections: MonthData[],
+  metrics: InvestmentMetrics,
+  assumptions: ExportAssumption[],
+  benchmarks: Benchmark[] = DEFAULT_BENCHMARKS,
+  currency: CurrencySettings = DEFAULT_CURRENCY_SETTINGS
+): ProjectionExport => ({
+  generatedAt: new Date().toISOString(),
+  currency: currency.currency,
+  locale: currency.locale,
+  assumptions,
+  benchmarks,
+  metrics,
+  monthly: projections,
+  yearly: summarizeByYear(projections)
+});
+
+const assumptionRows = (data: ProjectionExport): SheetCell[][] => [
+  ['Assumption', 'Value'],
+  ...data.assumptions.map((a) => [a.label, a.value]),
+  ['Generated', data.generatedAt]
+];
+
+const metricRows = (data: ProjectionExport): SheetCell[][] => {
+  // Amounts stay in the plan currency, as in the assumptions
+  const labels = metricLabels(createMoneyFormat({
+    ...DEFAULT_CURRENCY_SETTINGS,
+    currency: data.currency,
+    displayCurrency: data.currency,
+    locale: data.locale
+  }));
+  return [
+    ['Metric', 'Value'],
+    ...(Object.keys(labels) as (keyof typeof labels)[]).map((key) => [labels[key], data.metrics[key]]),
+    ...data.benchmarks.map((b) => [`Advantage vs ${b.name}`, data.metrics.vsBenchmarks[b.id] ?? null])
+  ];
+};
+
+const scheduleRows = (schedule: MonthData[], benchmarks: Benchmark[]): SheetCell[][] => [
+  [...SCHEDULE_COLUMNS.map((c) => c.label), ...benchmarks.map((b) => b.name)],
+  ...schedule.map((row) => [
+    ...SCHEDULE_COLUMNS.map((c) => row[c.key]),
+    ...benchmarks.map((b) => row.benchmarks[b.id] ?? null)
+  ])
+];
+
+// Leading characters a spreadsheet reads as the start of a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ * Text that would open as a formula gets a leading apostrophe; numbers are left alone
+ */
+const csvField = (value: SheetCell): string => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One CSV file with titled sections: assumptions, metrics, then the yearly
+ * and monthly schedules, separated by blank lines
+ */
+export const toCsv = (data: ProjectionExport): string => {
+  const sections: [string, SheetCell[][]][] = [
+    ['Assumptions', assumptionRows(data)],
+    ['Summary', metricRows(data)],
+    ['Yearly Schedule', scheduleRows(data.yearly, data.benchmarks)],
+    ['Monthly Schedule', scheduleRows(data.monthly, data.benchmarks)]
+  ];
+  return sections
+    .map(([title, rows]) => [[title], ...rows].map((row) => row.map(csvField).join(',')).join('\r\n'))
+    .join('\r\n\r\n') + '\r\n';
+};
+
+export const toJson = (data: ProjectionExport): string => JSON.stringify(data, null, 2);
+
+/**
+ * Excel workbook with a sheet per section
+ */
+export const toXlsx = (data: ProjectionExport): Uint8Array<ArrayBuffer> => createXlsx([
+  { name: 'Assumptions', rows: assumptionRows(data) },
+  { name: 'Summary', rows: metricRows(data) },
+  { name: 'Yearly', rows: scheduleRows(data.yearly, data.benchmarks) },
+  { name: 'Monthly', rows: scheduleRows(data.monthly, data.benchmarks) }
+]);
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutureValue, calculateProjections } from './calculations';
+import { DEFAULT_DIVIDEND_SETTINGS } from './dividends';
+import { DEFAULT_FEE_SETTINGS, applyFeeDrag, contributionAfterFees, feeDrag, flatFeesForMonth } from './fees';
+
+const fees = { expenseRatio: 0.5, advisorFee: 1, platformFee: 120, transactionFee: 5 };
+
+describe('feeDrag', () => {
+  it('adds the expense ratio and advice fee', () => {
+    expect(feeDrag(fees)).toBe(1.5);
+    expect(feeDrag(DEFAULT_FEE_SETTINGS)).toBe(0);
+  });
+
+  it('takes percentage fees off a rate or a rate schedule', () => {
+    expect(applyFeeDrag(7, fees)).toBe(5.5);
+    const schedule = applyFeeDrag((month) => (month > 12 ? 4 : 8), fees);
+    expect(typeof schedule === 'function' && [schedule(1), schedule(13)]).toEqual([6.5, 2.5]);
+  });
+});
+
+describe('flat fees', () => {
+  it('charges the platform fee monthly and the transaction fee only on contributions', () => {
+    expect(flatFeesForMonth(500, fees)).toBe(15);
+    expect(flatFeesForMonth(0, fees)).toBe(10);
+    expect(contributionAfterFees(500, fees)).toBe(485);
+    const schedule = contributionAfterFees((month) => (month === 1 ? 500 : 0), fees);
+    expect(typeof schedule === 'function' && [schedule(1), schedule(2)]).toEqual([485, -10]);
+  });
+});
+
+describe('fees in calculateProjections', () => {
+  it('compounds the balance at the rate less percentage fees', () => {
+    const projections = calculateProjections(10000, 500, 7, 30, DEFAULT_DIVIDEND_SETTINGS, [], { ...DEFAULT_FEE_SETTINGS, expenseRatio: 0.5, advisorFee: 1 });
+    const final = projections[projections.length - 1];
+    expect(final.balance).toBeCloseTo(calculateFutureValue(10000, 500, 5.5, 360), -1);
+    expect(final.balanceBeforeFees).toBeCloseTo(calculateFutureValue(10000, 500, 7, 360), -1);
+    expect(final.balanceBeforeFees - final.balance).toBeGreaterThan(final.fees);
+  });
+
+  it('takes flat fees out of each contribution', () => {
+    const projections = calculateProjections(10000, 500, 7, 30, DEFAULT_DIVIDEND_SETTINGS, [], fees);
+    const final = projections[projections.length - 1];
+    expect(final.balance).toBeCloseTo(calculateFutureValue(10000, 485, 5.5, 360), -1);
+  });
+
+  it('matches a fee-free projection with no fees', () => {
+    const projections = calculateProjections(10000, 500, 7, 30, DEFAULT_DIVIDEND_SETTINGS, []);
+    const final = projections[projections.length - 1];
+    expect(final.fees).toBe(0);
+    expect(final.balance).toBe(final.balanceBeforeFees);
+  });
+});
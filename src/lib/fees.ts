@@ -0,0 +1,64 @@
+import type { AnnualRate, Contribution, FeeSettings } from './types';
+
+// No fees: the behaviour before fees were modelled
+export const DEFAULT_FEE_SETTINGS: FeeSettings = {
+  expenseRatio: 0,
+  advisorFee: 0,
+  platformFee: 0,
+  transactionFee: 0
+};
+
+// Typical fee setups to start from
+export const FEE_PRESETS: { label: string; description: string; fees: FeeSettings }[] = [
+  {
+    label: 'Index Fund',
+    description: '0.03% expense ratio',
+    fees: { ...DEFAULT_FEE_SETTINGS, expenseRatio: 0.03 }
+  },
+  {
+    label: 'Active Fund',
+    description: '0.75% expense ratio',
+    fees: { ...DEFAULT_FEE_SETTINGS, expenseRatio: 0.75 }
+  },
+  {
+    label: 'Adviser',
+    description: '1% advice fee on an index fund',
+    fees: { ...DEFAULT_FEE_SETTINGS, expenseRatio: 0.03, advisorFee: 1 }
+  }
+];
+
+/**
+ * Annual fees (%) charged on the balance: the fund's expense ratio plus the advice fee
+ */
+export const feeDrag = (fees: FeeSettings): number => fees.expenseRatio + fees.advisorFee;
+
+/**
+ * Rate the balance compounds at once percentage fees are taken out
+ * Lets constant-rate helpers (milestones, goal sizing, simulations) match calculateProjections
+ */
+export const applyFeeDrag = (annualRate: AnnualRate, fees: FeeSettings): AnnualRate => {
+  const drag = feeDrag(fees);
+  if (drag === 0) return annualRate;
+  return typeof annualRate === 'function'
+    ? (month) => annualRate(month) - drag
+    : annualRate - drag;
+};
+
+/**
+ * Flat-dollar fees for a month: a twelfth of the platform fee, plus the
+ * transaction fee when a contribution is made
+ */
+export const flatFeesForMonth = (contribution: number, fees: FeeSettings): number =>
+  fees.platformFee / 12 + (contribution > 0 ? fees.transactionFee : 0);
+
+/**
+ * Contribution less the month's flat-dollar fees
+ * Taking them out of the contribution matches calculateProjections for the
+ * constant-rate helpers, the same way applyFeeDrag does for percentage fees
+ */
+export const contributionAfterFees = (contribution: Contribution, fees: FeeSettings): Contribution => {
+  if (fees.platformFee === 0 && fees.transactionFee === 0) return contribution;
+  return typeof contribution === 'function'
+    ? (month) => contribution(month) - flatFeesForMonth(contribution(month), fees)
+    : contribution - flatFeesForMonth(contribution, fees);
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutureValue, scheduledFutureValue } from './calculations';
+import { MAX_PROJECTION_YEARS } from './constants';
+import { DEFAULT_CONTRIBUTION_PLAN } from './contributions';
+import { DEFAULT_FEE_SETTINGS } from './fees';
+import { solveGoal, solveRequiredContribution, solveRequiredRate, solveYearsToGoal } from './goalSolver';
+import type { GoalInputs } from './types';
+
+const inputs: GoalInputs = {
+  targetBalance: 1000000,
+  initialInvestment: 10000,
+  monthlyContribution: 500,
+  contributionPlan: DEFAULT_CONTRIBUTION_PLAN,
+  contributionIndexation: 0,
+  years: 30,
+  annualRate: 7,
+  fees: DEFAULT_FEE_SETTINGS
+};
+
+describe('scheduledFutureValue', () => {
+  it('matches the closed form for flat amounts', () => {
+    expect(scheduledFutureValue(10000, 500, 7, 360)).toBe(calculateFutureValue(10000, 500, 7, 360));
+    expect(scheduledFutureValue(10000, () => 500, () => 7, 360)).toBeCloseTo(calculateFutureValue(10000, 500, 7, 360), 4);
+  });
+
+  it('never lets a withdrawal take the balance below 0', () => {
+    expect(scheduledFutureValue(1000, -600, 0, 3)).toBe(0);
+  });
+});
+
+describe('solveRequiredRate', () => {
+  it('finds the rate that reaches the goal', () => {
+    const target = calculateFutureValue(10000, 500, 7, 360);
+    expect(solveRequiredRate(target, 10000, 500, 360)).toBeCloseTo(7, 3);
+  });
+
+  it('needs no growth when contributions alone reach the goal', () => {
+    expect(solveRequiredRate(1000, 500, 100, 12)).toBe(0);
+  });
+
+  it('is null when even the highest rate falls short', () => {
+    expect(solveRequiredRate(1e12, 0, 1, 12)).toBeNull();
+  });
+});
+
+describe('solveRequiredContribution', () => {
+  it('inverts the closed form', () => {
+    const target = calculateFutureValue(10000, 500, 7, 360);
+    expect(solveRequiredContribution(target, 10000, DEFAULT_CONTRIBUTION_PLAN, 7, 30)).toBeCloseTo(500, 1);
+  });
+
+  it('is 0 when the initial investment already gets there', () => {
+    expect(solveRequiredContribution(1000, 1000, DEFAULT_CONTRIBUTION_PLAN, 0, 10)).toBe(0);
+  });
+
+  it('is null with no time left', () => {
+    expect(solveRequiredContribution(1000, 0, DEFAULT_CONTRIBUTION_PLAN, 7, 0)).toBeNull();
+  });
+});
+
+describe('solveYearsToGoal', () => {
+  it('is 0 when the goal is already met', () => {
+    expect(solveYearsToGoal(1000, 2000, 0, DEFAULT_CONTRIBUTION_PLAN, 7)).toBe(0);
+  });
+
+  it('counts whole months at 0%', () => {
+    expect(solveYearsToGoal(1800, 0, 100, DEFAULT_CONTRIBUTION_PLAN, 0)).toBe(1.5);
+  });
+
+  it('is null past the longest horizon', () => {
+    expect(solveYearsToGoal(1e9, 0, 1, DEFAULT_CONTRIBUTION_PLAN, 0)).toBeNull();
+  });
+});
+
+describe('solveGoal', () => {
+  it('reaches the target with each solved input', () => {
+    const initial = solveGoal(inputs, 'initialInvestment').value ?? 0;
+    const contribution = solveGoal(inputs, 'monthlyContribution').value ?? 0;
+    const rate = solveGoal(inputs, 'annualRate').value ?? 0;
+    expect(calculateFutureValue(initial, 500, 7, 360)).toBeCloseTo(1000000, 0);
+    expect(calculateFutureValue(10000, contribution, 7, 360)).toBeGreaterThanOrEqual(1000000 - 0.01);
+    expect(calculateFutureValue(10000, 500, rate, 360)).toBeGreaterThanOrEqual(1000000);
+  });
+
+  it('explains a goal that is out of reach', () => {
+    const solution = solveGoal({ ...inputs, initialInvestment: 0, monthlyContribution: 1, targetBalance: 1e12 }, 'years');
+    expect(solution.value).toBeNull();
+    expect(solution.unreachableReason).toContain(`${MAX_PROJECTION_YEARS} years`);
+  });
+});
@@ -0,0 +1,222 @@
+import { calculateRequiredInvestment, scheduledFutureValue } from './calculations';
+import { MAX_PROJECTION_YEARS } from './constants';
+import { addContribution, contributionForMonth, createContributionSchedule } from './contributions';
+import { DEFAULT_FEE_SETTINGS, contributionAfterFees } from './fees';
+import { applyLifeEvents } from './lifeEvents';
+import { rateForMonth } from './rates';
+import type {
+  AnnualRate,
+  Contribution,
+  ContributionPlan,
+  FeeSettings,
+  GoalInputs,
+  GoalSolution,
+  GoalUnknown,
+  LifeTimeline
+} from './types';
+
+export const GOAL_UNKNOWNS: Record<GoalUnknown, { label: string; resultLabel: string }> = {
+  initialInvestment: { label: 'Initial Investment', resultLabel: 'Required Initial Investment' },
+  monthlyContribution: { label: 'Monthly Contribution', resultLabel: 'Required Monthly Contribution' },
+  years: { label: 'Time to Goal', resultLabel: 'Time to Goal' },
+  annualRate: { label: 'Annual Return', resultLabel: 'Required Annual Return' }
+};
+
+// Highest required return searched for, annual %
+const MAX_SOLVER_RATE = 100;
+
+// Bisection stops once the answer is pinned down this closely
+const RATE_TOLERANCE = 0.0001; // Annual %
+const AMOUNT_TOLERANCE = 0.01; // Dollars
+
+// Doubling the monthly contribution this many times without reaching the goal means it never will
+const MAX_BRACKET_DOUBLINGS = 40;
+
+/**
+ * What actually goes in each month: the contribution schedule with any life events
+ * applied, less flat-dollar fees
+ */
+const investedContribution = (
+  monthlyContribution: number,
+  contributionPlan: ContributionPlan,
+  years: number,
+  indexation: AnnualRate,
+  fees: FeeSettings,
+  timeline?: LifeTimeline
+): Contribution => {
+  const schedule = createContributionSchedule(monthlyContribution, contributionPlan, years, indexation);
+  return contributionAfterFees(timeline ? applyLifeEvents(schedule, timeline) : schedule, fees);
+};
+
+/**
+ * Bisection for an increasing function: narrows [low, high] around the point
+ * where f crosses 0 and returns the high end, so f(result) >= 0 always holds.
+ * Expects f(low) < 0 <= f(high).
+ */
+const bisect = (f: (x: number) => number, low: number, high: number, tolerance: number): number => {
+  while (high - low > tolerance) {
+    const mid = (low + high) / 2;
+    if (f(mid) >= 0) {
+      high = mid;
+    } else {
+      low = mid;
+    }
+  }
+  return high;
+};
+
+/**
+ * Annual growth rate (%) needed to reach a balance
+ * Returns 0 when the goal is met without any growth, and null when even 100% a year falls short
+ */
+export const solveRequiredRate = (
+  targetBalance: number,
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  months: number
+): number | null => {
+  const surplus = (rate: number) => scheduledFutureValue(initialInvestment, monthlyContribution, rate, months) - targetBalance;
+  if (surplus(MAX_SOLVER_RATE) < 0) return null;
+  if (surplus(0) >= 0) return 0;
+  return bisect(surplus, 0, MAX_SOLVER_RATE, RATE_TOLERANCE);
+};
+
+/**
+ * Monthly contribution needed to reach a balance, before the contribution plan is applied
+ * The plan's step-ups and pauses (and any life events) still shape it, so the whole schedule
+ * is rebuilt for each guess. Returns null when no amount gets there, e.g. with no time left or when the plan
+ * replaces the amount every year.
+ */
+export const solveRequiredContribution = (
+  targetBalance: number,
+  initialInvestment: number,
+  contributionPlan: ContributionPlan,
+  annualRate: AnnualRate,
+  years: number,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  indexation: AnnualRate = 0,
+  timeline?: LifeTimeline
+): number | null => {
+  const surplus = (monthlyContribution: number) => scheduledFutureValue(
+    initialInvestment,
+    investedContribution(monthlyContribution, contributionPlan, years, indexation, fees, timeline),
+    annualRate,
+    years * 12
+  ) - targetBalance;
+  if (surplus(0) >= 0) return 0;
+
+  // Grow the upper bound until it overshoots the goal
+  let high = Math.max(1, targetBalance / Math.max(1, years * 12));
+  for (let doublings = 0; surplus(high) < 0; doublings++) {
+    if (doublings === MAX_BRACKET_DOUBLINGS) return null;
+    high *= 2;
+  }
+  return bisect(surplus, 0, high, AMOUNT_TOLERANCE);
+};
+
+/**
+ * Years until the balance first reaches the goal, in whole months
+ * The contribution plan runs on past the usual horizon. Returns null when the goal
+ * isn't reached within MAX_PROJECTION_YEARS.
+ */
+export const solveYearsToGoal = (
+  targetBalance: number,
+  initialInvestment: number,
+  monthlyContribution: number,
+  contributionPlan: ContributionPlan,
+  annualRate: AnnualRate,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS,
+  indexation: AnnualRate = 0,
+  timeline?: LifeTimeline
+): number | null => {
+  if (initialInvestment >= targetBalance) return 0;
+
+  const contribution = investedContribution(
+    monthlyContribution,
+    contributionPlan,
+    MAX_PROJECTION_YEARS,
+    indexation,
+    fees,
+    timeline
+  );
+  let balance = initialInvestment;
+  for (let month = 1; month <= MAX_PROJECTION_YEARS * 12; month++) {
+    balance = addContribution(
+      balance * (1 + rateForMonth(annualRate, month) / 100 / 12),
+      contributionForMonth(contribution, month)
+    );
+    if (balance >= targetBalance) return month / 12;
+  }
+  return null;
+};
+
+/**
+ * Solves for whichever goal input is unknown, holding the others fixed
+ * The input being solved for is ignored. Flat-dollar fees come out of the contributions.
+ * An unreachable goal comes back with a null value and a reason that can be shown as-is.
+ */
+export const solveGoal = (inputs: GoalInputs, unknown: GoalUnknown): GoalSolution => {
+  const {
+    targetBalance,
+    initialInvestment,
+    monthlyContribution,
+    contributionPlan,
+    contributionIndexation,
+    years,
+    annualRate,
+    fees,
+    timeline
+  } = inputs;
+  const contribution = () =>
+    investedContribution(monthlyContribution, contributionPlan, years, contributionIndexation, fees, timeline);
+  const solution = (value: number | null, unreachableReason: string): GoalSolution => ({
+    unknown,
+    value,
+    unreachableReason: value === null ? unreachableReason : null
+  });
+
+  switch (unknown) {
+    case 'initialInvestment':
+      return solution(calculateRequiredInvestment(
+        targetBalance,
+        contribution(),
+        annualRate,
+        years * 12
+      ), '');
+    case 'monthlyContribution':
+      return solution(
+        solveRequiredContribution(
+          targetBalance,
+          initialInvestment,
+          contributionPlan,
+          annualRate,
+          years,
+          fees,
+          contributionIndexation,
+          timeline
+        ),
+        years > 0
+          ? 'No monthly contribution reaches the goal with this contribution schedule.'
+          : 'There is no time left to contribute. Set a time to goal of at least one year.'
+      );
+    case 'years':
+      return solution(
+        solveYearsToGoal(
+          targetBalance,
+          initialInvestment,
+          monthlyContribution,
+          contributionPlan,
+          annualRate,
+          fees,
+          contributionIndexation,
+          timeline
+        ),
+        `The goal isn't reached within ${MAX_PROJECTION_YEARS} years. Invest more or aim lower.`
+      );
+    case 'annualRate':
+      return solution(
+        solveRequiredRate(targetBalance, initialInvestment, contribution(), years * 12),
+        `The goal would need more than ${MAX_SOLVER_RATE}% a year. Invest more or allow more time.`
+      );
+  }
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProjections } from './calculations';
+import { monthLabel, monthsBetween, parseAccountHistory, trackPlan } from './history';
+
+describe('parseAccountHistory', () => {
+  it('reads dates, balances and contributions', () => {
+    const result = parseAccountHistory('Date,Balance,Contribution\n2024-01-31,"$1,000.50",\n2024-02,1100,(50)\n');
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toEqual([
+      { date: '2024-01-31', balance: 1000.5, contribution: 0 },
+      { date: '2024-02-01', balance: 1100, contribution: -50 }
+    ]);
+  });
+
+  it('picks the balance column over an earlier contributions total', () => {
+    const result = parseAccountHistory('Total Contributions,Date,Balance\n500,2024-01-01,1000\n');
+    expect(result.entries).toEqual([{ date: '2024-01-01', balance: 1000, contribution: 500 }]);
+  });
+
+  it('prefers an exact "Balance" header over looser matches', () => {
+    const result = parseAccountHistory('Date,Total,Market Value,Balance\n2024-01-01,1,2,3\n');
+    expect(result.entries[0].balance).toBe(3);
+  });
+
+  it('falls back to a value or total column', () => {
+    expect(parseAccountHistory('Date,Market Value\n2024-01-01,2\n').entries[0].balance).toBe(2);
+    expect(parseAccountHistory('Date,Total\n2024-01-01,3\n').entries[0].balance).toBe(3);
+  });
+
+  it('reports missing columns on the header row', () => {
+    const result = parseAccountHistory('Date,Contributions\n2024-01-01,100\n');
+    expect(result.errors).toEqual([{ row: 1, message: 'No balance column found. Add a header such as "Balance".' }]);
+  });
+
+  it('reports each bad row by line number and leaves it out', () => {
+    const result = parseAccountHistory('Date,Balance\n01/02/2024,100\n2024-02-30,100\n2024-03-01,-5\n2024-04-01,10\n2024-04-01,20\n');
+    expect(result.entries).toEqual([{ date: '2024-04-01', balance: 10, contribution: 0 }]);
+    expect(result.errors.map((e) => e.row)).toEqual([2, 3, 4, 6]);
+  });
+
+  it('sorts entries by date', () => {
+    const result = parseAccountHistory('Date,Balance\n2024-03-01,3\n2024-01-01,1\n');
+    expect(result.entries.map((e) => e.date)).toEqual(['2024-01-01', '2024-03-01']);
+  });
+});
+
+describe('monthsBetween and monthLabel', () => {
+  it('counts whole calendar months', () => {
+    expect(monthsBetween('2023-11-30', '2024-02-01')).toBe(3);
+  });
+
+  it('labels months after a start date', () => {
+    expect(monthLabel('2023-11-15', 3)).toBe('2024-02');
+  });
+});
+
+describe('trackPlan', () => {
+  it('is null without entries', () => {
+    expect(trackPlan([], 1000, 100, 7, 10)).toBeNull();
+  });
+
+  it('is on track when the balances follow the plan', () => {
+    const plan = calculateProjections(1000, 100, 7, 10);
+    const tracking = trackPlan(
+      [
+        { date: '2024-01-01', balance: 1000, contribution: 0 },
+        { date: '2025-01-01', balance: plan[11].balance, contribution: 1200 }
+      ],
+      1000,
+      100,
+      7,
+      10
+    );
+    expect(tracking?.status).toBe('on-track');
+    expect(tracking?.latest.contributions).toBe(1200);
+    expect(tracking?.reprojectedFinalBalance).toBeCloseTo(tracking?.plannedFinalBalance ?? 0, -1);
+  });
+
+  it('is behind when the balance falls short', () => {
+    const tracking = trackPlan(
+      [
+        { date: '2024-01-01', balance: 1000, contribution: 0 },
+        { date: '2025-01-01', balance: 1000, contribution: 0 }
+      ],
+      1000,
+      100,
+      7,
+      10
+    );
+    expect(tracking?.status).toBe('behind');
+    expect(tracking?.difference).toBeLessThan(0);
+    expect(tracking?.reprojection).toHaveLength(108);
+  });
+});
@@ -0,0 +1,275 @@
+import { calculateProjections } from './calculations';
+import { contributionForMonth } from './contributions';
+import { DEFAULT_DIVIDEND_SETTINGS } from './dividends';
+import { DEFAULT_FEE_SETTINGS } from './fees';
+import { rateForMonth } from './rates';
+import type {
+  AnnualRate,
+  Contribution,
+  DividendSettings,
+  FeeSettings,
+  HistoryEntry,
+  HistoryParseError,
+  HistoryParseResult,
+  HistoryPoint,
+  PlanTracking
+} from './types';
+
+// Within this share of the planned balance the plan counts as on track
+const ON_TRACK_TOLERANCE = 0.01;
+
+// Header names recognised for each column, matched case-insensitively
+const DATE_HEADER = /date|as of|period/i;
+const CONTRIBUTION_HEADER = /contribution|deposit/i;
+// Strongest match first: "Balance" beats "Ending Balance" beats "Market Value" beats "Total"
+const BALANCE_HEADERS = [/^balance$/i, /balance/i, /value/i, /total/i];
+
+/**
+ * Index of the first header matching the earliest pattern that matches any header,
+ * skipping the excluded columns; -1 when nothing matches
+ */
+const findColumn = (header: string[], patterns: RegExp[], excluded: (name: string, i: number) => boolean): number => {
+  for (const pattern of patterns) {
+    const index = header.findIndex((name, i) => !excluded(name, i) && pattern.test(name));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may hold commas,
+ * line breaks and doubled quotes)
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Parses YYYY-MM-DD, YYYY/MM/DD or YYYY-MM (first of the month) into YYYY-MM-DD
+ * Day-first and month-first dates are rejected rather than guessed
+ */
+const parseDate = (text: string): string | null => {
+  const match = /^(\d{4})[-/](\d{1,2})(?:[-/](\d{1,2}))?$/.exec(text.trim());
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = match[3] === undefined ? 1 : Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null; // Out-of-range month or day, e.g. 2024-02-30
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Parses an amount such as 1234.56, $1,234.56 or (1,234.56) for a negative value
+ */
+const parseAmount = (text: string): number | null => {
+  const trimmed = text.trim();
+  const negative = /^\(.*\)$/.test(trimmed);
+  const cleaned = trimmed.replace(/^\(|\)$/g, '').replace(/[$,\s]/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return negative ? -value : value;
+};
+
+/**
+ * Reads an account history CSV, e.g. a brokerage export
+ * Needs a header row with a date column and a balance column; a contributions
+ * column (the amount paid in during each period) is optional. Every problem
+ * is reported with its line number, and rows with errors are left out.
+ */
+export const parseAccountHistory = (csv: string): HistoryParseResult => {
+  const rows = parseCsvRows(csv.replace(/^\uFEFF/, '')); // Strip a byte-order mark
+  const errors: HistoryParseError[] = [];
+  const header = rows[0]?.map((name) => name.trim()) ?? [];
+
+  const dateColumn = header.findIndex((name) => DATE_HEADER.test(name));
+  // A "Total Contributions" column is never the balance
+  const balanceColumn = findColumn(
+    header,
+    BALANCE_HEADERS,
+    (name, i) => i === dateColumn || CONTRIBUTION_HEADER.test(name)
+  );
+  const contributionColumn = header.findIndex(
+    (name, i) => i !== dateColumn && i !== balanceColumn && CONTRIBUTION_HEADER.test(name)
+  );
+
+  if (dateColumn === -1) errors.push({ row: 1, message: 'No date column found. Add a header such as "Date".' });
+  if (balanceColumn === -1) errors.push({ row: 1, message: 'No balance column found. Add a header such as "Balance".' });
+  if (errors.length > 0) return { entries: [], errors };
+
+  const entries: HistoryEntry[] = [];
+  const seenDates = new Set<string>();
+
+  rows.slice(1).forEach((fields, i) => {
+    const row = i + 2; // Line number in the file, after the header
+    if (fields.every((field) => field.trim() === '')) return; // Blank line
+
+    const rawDate = fields[dateColumn] ?? '';
+    const rawBalance = fields[balanceColumn] ?? '';
+    const rawContribution = contributionColumn === -1 ? '' : fields[contributionColumn] ?? '';
+    const rowErrors: string[] = [];
+
+    const date = parseDate(rawDate);
+    if (date === null) {
+      rowErrors.push(`"${rawDate}" isn't a valid date. Use YYYY-MM-DD.`);
+    } else if (seenDates.has(date)) {
+      rowErrors.push(`${date} appears more than once.`);
+    }
+
+    const balance = parseAmount(rawBalance);
+    if (balance === null) {
+      rowErrors.push(`Balance "${rawBalance}" isn't a number.`);
+    } else if (balance < 0) {
+      rowErrors.push(`Balance ${rawBalance} can't be negative.`);
+    }
+
+    // An empty contribution means nothing was paid in that period
+    const contribution = rawContribution.trim() === '' ? 0 : parseAmount(rawContribution);
+    if (contribution === null) {
+      rowErrors.push(`Contribution "${rawContribution}" isn't a number.`);
+    }
+
+    if (rowErrors.length > 0 || date === null || balance === null || contribution === null) {
+      errors.push(...rowErrors.map((message) => ({ row, message })));
+      return;
+    }
+
+    seenDates.add(date);
+    entries.push({ date, balance, contribution });
+  });
+
+  if (entries.length === 0 && errors.length === 0) {
+    errors.push({ row: 1, message: 'The file has a header but no data rows.' });
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date));
+  return { entries, errors };
+};
+
+/**
+ * Whole calendar months from one YYYY-MM-DD date to another (days are ignored)
+ */
+export const monthsBetween = (start: string, end: string): number =>
+  (Number(end.slice(0, 4)) - Number(start.slice(0, 4))) * 12 +
+  (Number(end.slice(5, 7)) - Number(start.slice(5, 7)));
+
+/**
+ * YYYY-MM label for a number of months after a YYYY-MM-DD date
+ */
+export const monthLabel = (start: string, months: number): string => {
+  const date = new Date(Date.UTC(Number(start.slice(0, 4)), Number(start.slice(5, 7)) - 1 + months, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+/**
+ * Compares an account's real history with the plan started on its first date
+ * The plan is projected from the first entry's date; each later entry is matched
+ * to the plan month it falls in (entries after the plan ends are ignored).
+ * The balance is then re-projected from the latest real balance to the plan's end,
+ * continuing the plan's own month numbering (and its rate and contribution schedules).
+ */
+export const trackPlan = (
+  entries: HistoryEntry[],
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  annualRate: AnnualRate,
+  years: number,
+  dividendSettings: DividendSettings = DEFAULT_DIVIDEND_SETTINGS,
+  fees: FeeSettings = DEFAULT_FEE_SETTINGS
+): PlanTracking | null => {
+  if (entries.length === 0) return null;
+
+  const start = entries[0].date;
+  const totalMonths = years * 12;
+  const plan = calculateProjections(initialInvestment, monthlyContribution, annualRate, years, dividendSettings, [], fees);
+  const points: HistoryPoint[] = [];
+  let contributions = 0;
+
+  for (const entry of entries) {
+    const month = monthsBetween(start, entry.date);
+    if (month > totalMonths) break;
+    if (points.length > 0) contributions += entry.contribution; // The first balance already includes its own
+    points.push({
+      month,
+      date: entry.date,
+      actual: entry.balance,
+      planned: month === 0 ? initialInvestment : plan[month - 1].balance,
+      contributions: Math.round(contributions),
+      plannedContributions: month === 0 ? 0 : plan[month - 1].contributions - initialInvestment
+    });
+  }
+
+  const latest = points[points.length - 1];
+  const difference = latest.actual - latest.planned;
+  const status = Math.abs(difference) <= latest.planned * ON_TRACK_TOLERANCE
+    ? 'on-track'
+    : difference > 0 ? 'ahead' : 'behind';
+
+  // Re-projection picks up the rate and contribution schedules where the plan has got to
+  const remainingMonths = totalMonths - latest.month;
+  const remainingRate: AnnualRate = typeof annualRate === 'function'
+    ? (month) => rateForMonth(annualRate, month + latest.month)
+    : annualRate;
+  const remainingContribution: Contribution = typeof monthlyContribution === 'function'
+    ? (month) => contributionForMonth(monthlyContribution, month + latest.month)
+    : monthlyContribution;
+  const reprojection = remainingMonths > 0
+    ? calculateProjections(latest.actual, remainingContribution, remainingRate, remainingMonths / 12, dividendSettings, [], fees)
+        .map((monthData) => ({
+          ...monthData,
+          month: monthData.month + latest.month,
+          year: Math.floor((monthData.month + latest.month) / 12)
+        }))
+    : [];
+
+  return {
+    start,
+    points,
+    latest,
+    difference: Math.round(difference),
+    status,
+    plannedFinalBalance: plan[plan.length - 1]?.balance ?? initialInvestment,
+    reprojectedFinalBalance: reprojection[reprojection.length - 1]?.balance ?? latest.actual,
+    plan,
+    reprojection
+  };
+};
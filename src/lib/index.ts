@@ -0,0 +1,151 @@
+// Public API of the calculation library
+// Pure TypeScript with no framework dependencies, safe to import from any tool
+
+export * from './constants';
+export type * from './types';
+export { rateForMonth } from './rates';
+export {
+  calculateFutureValue,
+  scheduledFutureValue,
+  calculateRequiredInvestment,
+  calculateProjections,
+  calculateYearsToMilestone,
+  calculateInvestmentMetrics
+} from './calculations';
+export {
+  ASSET_CLASSES,
+  DEFAULT_ALLOCATION_PLAN,
+  allocationAt,
+  averageAllocationStats,
+  blendedReturn,
+  blendedVolatility,
+  createRateSchedule,
+  normalizeAllocation
+} from './allocation';
+export {
+  BENCHMARK_PRESETS,
+  DEFAULT_BENCHMARKS,
+  HISTORICAL_SERIES,
+  benchmarkRate,
+  createBenchmarkSchedule,
+  seriesAnnualRate
+} from './benchmarks';
+export {
+  DEFAULT_CONTRIBUTION_PLAN,
+  addContribution,
+  contributionEvents,
+  contributionForMonth,
+  createContributionSchedule
+} from './contributions';
+export {
+  GOAL_UNKNOWNS,
+  solveGoal,
+  solveRequiredContribution,
+  solveRequiredRate,
+  solveYearsToGoal
+} from './goalSolver';
+export { DEFAULT_DIVIDEND_SETTINGS, applyDividendDrag, dividendDrag } from './dividends';
+export {
+  CPI_SERIES,
+  DEFAULT_INFLATION_SETTINGS,
+  createInflationSchedule,
+  createPriceIndex,
+  deflateAccountProjections,
+  deflateBacktest,
+  deflateDebtPayoff,
+  deflateDrawdown,
+  deflateIncomeSchedule,
+  deflateMetrics,
+  deflateMonteCarlo,
+  deflatePortfolio,
+  deflateProjections,
+  deflateSequenceRisk,
+  longRunInflation,
+  realContribution,
+  realRate,
+  seriesAverageInflation
+} from './inflation';
+export {
+  DEFAULT_FEE_SETTINGS,
+  FEE_PRESETS,
+  applyFeeDrag,
+  contributionAfterFees,
+  feeDrag,
+  flatFeesForMonth
+} from './fees';
+export {
+  CURRENCIES,
+  DEFAULT_CURRENCY_SETTINGS,
+  DEFAULT_FX_RATES,
+  LOCALES,
+  createMoneyFormat,
+  currencySymbol,
+  fxRate,
+  type MoneyFormat
+} from './currency';
+export { simulateDrawdown } from './decumulation';
+export {
+  DEFAULT_PENSION_SETTINGS,
+  PENSION_PRESETS,
+  assetsTestThreshold,
+  balanceForIncome,
+  pensionForAge
+} from './pension';
+export {
+  DEFAULT_LIFE_TIMELINE,
+  LIFE_EVENT_TYPES,
+  ageAt,
+  applyLifeEvents,
+  calendarYearAt,
+  firstMonthOfCalendarYear,
+  lifeEventWithdrawals,
+  yearsUntilAge
+} from './lifeEvents';
+export {
+  DEFAULT_WITHDRAWAL_PLAN,
+  WITHDRAWAL_STRATEGIES,
+  calculateIncomeSchedule,
+  calculateTargetBalance,
+  type WithdrawalStrategy
+} from './withdrawalStrategies';
+export {
+  ACCOUNT_TYPES,
+  calculateAccountProjections,
+  calculateAfterTaxIncome,
+  getDefaultAccountSettings,
+  type AccountTypeInfo
+} from './accounts';
+export { calculatePortfolioProjections } from './portfolio';
+export { calculateBacktest, calculateBacktestPath } from './backtest';
+export { DEFAULT_DCA_SETTINGS, compareDcaToLumpSum } from './dca';
+export { DEFAULT_LOAN_SETTINGS, compareDebtPayoff, loanPayment } from './debt';
+export {
+  DEFAULT_MARKET_SHOCK,
+  analyzeSequenceRisk,
+  applyMarketShocks,
+  simulateSequence,
+  type SequenceRiskInputs
+} from './sequenceRisk';
+export {
+  runMonteCarlo,
+  type MonteCarloConfig,
+  type MonteCarloMethod,
+  type MonteCarloResult,
+  type PercentileBand
+} from './monteCarlo';
+export { monthLabel, monthsBetween, parseAccountHistory, trackPlan } from './history';
+export {
+  SCHEDULE_COLUMNS,
+  createProjectionExport,
+  metricLabels,
+  summarizeByYear,
+  toCsv,
+  toJson,
+  toXlsx,
+  type ExportAssumption,
+  type ProjectionExport
+} from './export';
+export { createXlsx, type Sheet, type SheetCell } from './xlsx';
+export { SP500_ANNUAL_RETURNS, type AnnualReturn } from './data/sp500Returns';
+export { SP500_MONTHLY_RETURNS, type MonthlyReturn } from './data/sp500MonthlyReturns';
+export { AU_CPI_INFLATION, US_CPI_INFLATION, type AnnualInflation } from './data/cpiInflation';
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProjections } from './calculations';
+import { DEFAULT_DIVIDEND_SETTINGS } from './dividends';
+import {
+  CPI_SERIES,
+  createInflationSchedule,
+  createPriceIndex,
+  deflateIncomeSchedule,
+  deflateMonteCarlo,
+  deflateProjections,
+  longRunInflation,
+  realContribution,
+  realRate,
+  seriesAverageInflation
+} from './inflation';
+import type { IncomeYear } from './types';
+
+describe('createPriceIndex', () => {
+  it('compounds a constant rate to (1 + i)^years', () => {
+    const priceIndex = createPriceIndex(3);
+    expect(priceIndex(0)).toBe(1);
+    expect(priceIndex(12)).toBeCloseTo(1.03, 12);
+    expect(priceIndex(120)).toBeCloseTo(Math.pow(1.03, 10), 12);
+  });
+
+  it('follows a schedule month by month', () => {
+    const priceIndex = createPriceIndex((month) => (month <= 12 ? 10 : 0));
+    expect(priceIndex(12)).toBeCloseTo(1.1, 12);
+    expect(priceIndex(60)).toBeCloseTo(1.1, 12);
+  });
+});
+
+describe('inflation schedules', () => {
+  it('averages a CPI series by compounding it', () => {
+    const { rates } = CPI_SERIES.us;
+    const growth = rates.reduce((product, r) => product * (1 + r.inflation / 100), 1);
+    expect(Math.pow(1 + seriesAverageInflation('us') / 100, rates.length)).toBeCloseTo(growth, 8);
+    expect(longRunInflation({ rate: 2.5, series: null, startYear: 1970 })).toBe(2.5);
+    expect(longRunInflation({ rate: 2.5, series: 'us', startYear: 1970 })).toBe(seriesAverageInflation('us'));
+  });
+
+  it('replays a series from its start year, then carries on at the long-run rate', () => {
+    const schedule = createInflationSchedule({ rate: 3, series: 'us', startYear: 1980 }, 2);
+    const longRun = seriesAverageInflation('us');
+    expect(typeof schedule).toBe('function');
+    if (typeof schedule !== 'function') return;
+    expect([schedule(1), schedule(12), schedule(13), schedule(24), schedule(25)]).toEqual([12.5, 12.5, 8.9, 8.9, longRun]);
+    const pastTheData = createInflationSchedule({ rate: 3, series: 'au', startYear: 2024 }, 3);
+    expect(typeof pastTheData === 'function' && [pastTheData(12), pastTheData(13)]).toEqual([2.4, seriesAverageInflation('au')]);
+    expect(createInflationSchedule({ rate: 3, series: null, startYear: 1980 }, 2)).toBe(3);
+  });
+});
+
+describe("today's dollars", () => {
+  it('divides each month by the price level it falls in', () => {
+    const projections = calculateProjections(10000, 500, 7, 10, DEFAULT_DIVIDEND_SETTINGS, []);
+    const deflated = deflateProjections(projections, 3);
+    expect(deflated[119].balance).toBe(Math.round(projections[119].balance / Math.pow(1.03, 10)));
+    expect(deflated[11].contributions).toBe(Math.round(projections[11].contributions / 1.03));
+  });
+
+  it('matches projecting at the real rate with real contributions', () => {
+    const nominal = deflateProjections(calculateProjections(10000, 500, 7, 30, DEFAULT_DIVIDEND_SETTINGS, []), 3);
+    const real = calculateProjections(10000, realContribution(500, 3), realRate(7, 3), 30, DEFAULT_DIVIDEND_SETTINGS, []);
+    expect(real[359].balance).toBeCloseTo(nominal[359].balance, -1);
+  });
+
+  it('values retirement income at the start of the year it is paid', () => {
+    const year = (n: number, income: number): IncomeYear => ({
+      year: n, age: 64 + n, income, pension: 0, withdrawalRate: 4, startBalance: 0, endBalance: 0
+    });
+    const deflated = deflateIncomeSchedule([year(1, 40000), year(2, 41200)], 3, 120);
+    const atRetirement = Math.pow(1.03, 10);
+    expect(deflated.map((y) => y.income)).toEqual([Math.round(40000 / atRetirement), Math.round(40000 / atRetirement)]);
+  });
+
+  it('deflates every percentile of a simulation year by the same price level', () => {
+    const band = { year: 10, p5: 100, p25: 200, p50: 300, p75: 400, p95: 500 };
+    const [deflated] = deflateMonteCarlo({ simulations: 1, bands: [band], probabilityOfGoal: 50 }, 3).bands;
+    const level = Math.pow(1.03, 10);
+    expect(deflated).toEqual({
+      year: 10,
+      p5: Math.round(100 / level),
+      p25: Math.round(200 / level),
+      p50: Math.round(300 / level),
+      p75: Math.round(400 / level),
+      p95: Math.round(500 / level)
+    });
+  });
+});
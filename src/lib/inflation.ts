@@ -0,0 +1,326 @@
+import { calculateYearsToMilestone } from './calculations';
+import { INFLATION_RATE, MILESTONES } from './constants';
+import { contributionForMonth } from './contributions';
+import { AU_CPI_INFLATION, US_CPI_INFLATION, type AnnualInflation } from './data/cpiInflation';
+import { rateForMonth } from './rates';
+import type {
+  AccountMonth,
+  AnnualRate,
+  BacktestSummary,
+  Contribution,
+  CpiSeriesId,
+  DebtPayoffComparison,
+  DrawdownResult,
+  IncomeYear,
+  InflationSettings,
+  InvestmentMetrics,
+  MonthData,
+  PortfolioProjection,
+  SequencePath,
+  SequenceRiskResult
+} from './types';
+import type { MonteCarloResult } from './monteCarlo';
+
+export const CPI_SERIES: Record<CpiSeriesId, { label: string; rates: readonly AnnualInflation[] }> = {
+  us: { label: 'US CPI', rates: US_CPI_INFLATION },
+  au: { label: 'Australian CPI', rates: AU_CPI_INFLATION }
+};
+
+// A fixed 3% a year: the behaviour before inflation was configurable
+export const DEFAULT_INFLATION_SETTINGS: InflationSettings = {
+  rate: INFLATION_RATE,
+  series: null,
+  startYear: 1970
+};
+
+/**
+ * Compound average annual inflation (%) over the whole of a CPI series
+ */
+export const seriesAverageInflation = (series: CpiSeriesId): number => {
+  const rates = CPI_SERIES[series].rates;
+  const growth = rates.reduce((product, r) => product * (1 + r.inflation / 100), 1);
+  return (Math.pow(growth, 1 / rates.length) - 1) * 100;
+};
+
+/**
+ * Constant inflation (%) for the settings: the fixed rate, or a series' long-run average
+ * Used for retirement and anywhere a single rate is needed
+ */
+export const longRunInflation = (settings: InflationSettings): number =>
+  settings.series ? seriesAverageInflation(settings.series) : settings.rate;
+
+/**
+ * Inflation month by month over a plan
+ * A series is replayed year by year from its start year; once the plan ends, or the
+ * series runs out, inflation carries on at the long-run rate.
+ */
+export const createInflationSchedule = (settings: InflationSettings, years: number): AnnualRate => {
+  if (!settings.series) return settings.rate;
+
+  const longRun = longRunInflation(settings);
+  const byYear = new Map(CPI_SERIES[settings.series].rates.map((r) => [r.year, r.inflation]));
+  return (month) => {
+    if (month > years * 12) return longRun;
+    return byYear.get(settings.startYear + Math.ceil(month / 12) - 1) ?? longRun;
+  };
+};
+
+/**
+ * Price level after a number of months, relative to today (1 at month 0)
+ * Inflation compounds monthly, so a constant rate matches (1 + i)^(months / 12).
+ * Levels are cached as they're asked for, so repeated lookups are cheap.
+ */
+export const createPriceIndex = (inflation: AnnualRate): ((month: number) => number) => {
+  const levels = [1];
+  return (month) => {
+    const target = Math.max(0, Math.ceil(month));
+    for (let m = levels.length; m <= target; m++) {
+      levels.push(levels[m - 1] * Math.pow(1 + rateForMonth(inflation, m) / 100, 1 / 12));
+    }
+    return levels[target];
+  };
+};
+
+/**
+ * Growth rate after inflation: what a balance grows at in today's dollars
+ */
+export const realRate = (annualRate: AnnualRate, inflation: AnnualRate): AnnualRate => (month) =>
+  ((1 + rateForMonth(annualRate, month) / 100 / 12) / Math.pow(1 + rateForMonth(inflation, month) / 100, 1 / 12) - 1) * 12 * 100;
+
+/**
+ * Contributions in today's dollars
+ */
+export const realContribution = (contribution: Contribution, inflation: AnnualRate): Contribution => {
+  const priceIndex = createPriceIndex(inflation);
+  return (month) => contributionForMonth(contribution, month) / priceIndex(month);
+};
+
+// Today's dollars: each value is divided by the price level at the month it falls in
+
+export const deflateProjections = (projections: MonthData[], inflation: AnnualRate): MonthData[] => {
+  const priceIndex = createPriceIndex(inflation);
+  return projections.map((d) => {
+    const deflate = (value: number) => Math.round(value / priceIndex(d.month));
+    return {
+      ...d,
+      balance: deflate(d.balance),
+      contributions: deflate(d.contributions),
+      gains: deflate(d.gains),
+      benchmarks: Object.fromEntries(Object.entries(d.benchmarks).map(([id, value]) => [id, deflate(value)])),
+      dividendIncome: deflate(d.dividendIncome),
+      dividends: deflate(d.dividends),
+      fees: deflate(d.fees),
+      balanceBeforeFees: deflate(d.balanceBeforeFees)
+    };
+  });
+};
+
+/**
+ * Plan metrics in today's dollars
+ * Amounts are deflated to the end of the plan (retirement income to when it starts),
+ * and the milestones are re-timed for a real balance of each milestone amount.
+ */
+export const deflateMetrics = (
+  metrics: InvestmentMetrics,
+  months: number,
+  inflation: AnnualRate,
+  initialInvestment: number,
+  monthlyContribution: Contribution,
+  growthRate: AnnualRate
+): InvestmentMetrics => {
+  const finalLevel = createPriceIndex(inflation)(months);
+  const deflate = (value: number) => Math.round(value / finalLevel);
+  const milestone = (target: number) => Math.round(calculateYearsToMilestone(
+    initialInvestment,
+    realContribution(monthlyContribution, inflation),
+    realRate(growthRate, inflation),
+    target
+  ) * 10) / 10;
+
+  return {
+    ...metrics,
+    finalBalance: deflate(metrics.finalBalance),
+    totalContributions: deflate(metrics.totalContributions),
+    totalGains: deflate(metrics.totalGains),
+    monthlyIncome: deflate(metrics.monthlyIncome),
+    pensionIncome: deflate(metrics.pensionIncome),
+    yearsTo1M: milestone(MILESTONES.yearsTo1M),
+    yearsTo2M: milestone(MILESTONES.yearsTo2M),
+    yearsTo5M: milestone(MILESTONES.yearsTo5M),
+    vsBenchmarks: Object.fromEntries(Object.entries(metrics.vsBenchmarks).map(([id, value]) => [id, deflate(value)])),
+    totalFees: deflate(metrics.totalFees),
+    feeImpact: deflate(metrics.feeImpact)
+  };
+};
+
+export const deflateAccountProjections = (months: AccountMonth[], inflation: AnnualRate): AccountMonth[] => {
+  const priceIndex = createPriceIndex(inflation);
+  return months.map((m) => {
+    const deflate = (value: number) => Math.round(value / priceIndex(m.month));
+    return {
+      ...m,
+      preTaxBalance: deflate(m.preTaxBalance),
+      afterTaxBalance: deflate(m.afterTaxBalance),
+      memberContributions: deflate(m.memberContributions),
+      employerContributions: deflate(m.employerContributions),
+      taxesPaid: deflate(m.taxesPaid)
+    };
+  });
+};
+
+export const deflatePortfolio = (portfolio: PortfolioProjection, inflation: AnnualRate): PortfolioProjection => {
+  const priceIndex = createPriceIndex(inflation);
+  return {
+    months: portfolio.months.map((m) => ({
+      ...m,
+      total: Math.round(m.total / priceIndex(m.month)),
+      contributions: Math.round(m.contributions / priceIndex(m.month)),
+      balances: Object.fromEntries(Object.entries(m.balances).map(([id, value]) => [id, Math.round(value / priceIndex(m.month))]))
+    })),
+    accounts: portfolio.accounts.map((a) => ({
+      ...a,
+      finalBalance: Math.round(a.finalBalance / priceIndex(a.endMonth)),
+      totalContributions: Math.round(a.totalContributions / priceIndex(a.endMonth))
+    }))
+  };
+};
+
+export const deflateBacktest = (backtest: BacktestSummary, inflation: AnnualRate): BacktestSummary => {
+  const priceIndex = createPriceIndex(inflation);
+  const deflatePath = (path: BacktestSummary['best']) => ({
+    ...path,
+    finalBalance: Math.round(path.finalBalance / priceIndex(path.balances.length)),
+    balances: path.balances.map((balance, i) => Math.round(balance / priceIndex(i + 1)))
+  });
+  return {
+    ...backtest,
+    best: deflatePath(backtest.best),
+    median: deflatePath(backtest.median),
+    worst: deflatePath(backtest.worst)
+  };
+};
+
+/**
+ * Retirement drawdown in today's dollars; retirement starts startMonth months from now
+ */
+export const deflateDrawdown = (drawdown: DrawdownResult, inflation: AnnualRate, startMonth: number): DrawdownResult => {
+  const priceIndex = createPriceIndex(inflation);
+  let totalWithdrawn = 0;
+  const months = drawdown.months.map((m) => {
+    const withdrawal = m.withdrawal / priceIndex(startMonth + m.month);
+    totalWithdrawn += withdrawal;
+    return {
+      ...m,
+      balance: Math.round(m.balance / priceIndex(startMonth + m.month)),
+      withdrawal: Math.round(withdrawal),
+      totalWithdrawn: Math.round(totalWithdrawn)
+    };
+  });
+  return {
+    ...drawdown,
+    months,
+    endingBalance: Math.round(drawdown.endingBalance / priceIndex(startMonth + drawdown.months.length)),
+    totalWithdrawn: Math.round(totalWithdrawn)
+  };
+};
+
+/**
+ * Retirement income schedule in today's dollars; retirement starts startMonth months from now
+ * Each year's income is valued at the start of that year, when it's set
+ */
+export const deflateIncomeSchedule = (schedule: IncomeYear[], inflation: AnnualRate, startMonth: number): IncomeYear[] => {
+  const priceIndex = createPriceIndex(inflation);
+  return schedule.map((y) => {
+    const yearStart = priceIndex(startMonth + (y.year - 1) * 12);
+    return {
+      ...y,
+      income: Math.round(y.income / yearStart),
+      pension: Math.round(y.pension / yearStart),
+      startBalance: Math.round(y.startBalance / yearStart),
+      endBalance: Math.round(y.endBalance / priceIndex(startMonth + y.year * 12))
+    };
+  });
+};
+
+export const deflateMonteCarlo = (result: MonteCarloResult, inflation: AnnualRate): MonteCarloResult => {
+  const priceIndex = createPriceIndex(inflation);
+  return {
+    ...result,
+    bands: result.bands.map((band) => {
+      const level = priceIndex(band.year * 12);
+      return {
+        ...band,
+        p5: Math.round(band.p5 / level),
+        p25: Math.round(band.p25 / level),
+        p50: Math.round(band.p50 / level),
+        p75: Math.round(band.p75 / level),
+        p95: Math.round(band.p95 / level)
+      };
+    })
+  };
+};
+
+/**
+ * Sequence-risk paths in today's dollars
+ * Balances are valued at each year end; withdrawals at the start of the year they're taken
+ */
+export const deflateSequenceRisk = (result: SequenceRiskResult, inflation: AnnualRate): SequenceRiskResult => {
+  const priceIndex = createPriceIndex(inflation);
+  const deflatePath = (path: SequencePath): SequencePath => {
+    const withdrawals = path.withdrawals.map((amount, i) => amount / priceIndex(i * 12));
+    const years = path.balances.length - 1;
+    return {
+      ...path,
+      balances: path.balances.map((balance, year) => Math.round(balance / priceIndex(year * 12))),
+      withdrawals: withdrawals.map(Math.round),
+      retirementBalance: Math.round(path.retirementBalance / priceIndex(result.accumulationYears * 12)),
+      endingBalance: Math.round(path.endingBalance / priceIndex(years * 12)),
+      totalWithdrawn: Math.round(withdrawals.reduce((sum, amount) => sum + amount, 0))
+    };
+  };
+  const { historical } = result;
+  return {
+    ...result,
+    smooth: deflatePath(result.smooth),
+    shocked: result.shocked && deflatePath(result.shocked),
+    historical: historical && {
+      ...historical,
+      smooth: deflatePath(historical.smooth),
+      actual: deflatePath(historical.actual),
+      reversed: deflatePath(historical.reversed),
+      shuffled: {
+        worst: deflatePath(historical.shuffled.worst),
+        median: deflatePath(historical.shuffled.median),
+        best: deflatePath(historical.shuffled.best)
+      }
+    }
+  };
+};
+
+/**
+ * Debt payoff comparison in today's dollars
+ * Each year's loan, investments and net worth are valued at that year; totals at the end of the term.
+ * The scheduled repayment is fixed in dollars, so it's left as it is today.
+ */
+export const deflateDebtPayoff = (comparison: DebtPayoffComparison, inflation: AnnualRate): DebtPayoffComparison => {
+  const priceIndex = createPriceIndex(inflation);
+  const termEnd = priceIndex(comparison.years[comparison.years.length - 1].year * 12);
+  return {
+    ...comparison,
+    years: comparison.years.map((y) => {
+      const deflate = (value: number) => Math.round(value / priceIndex(y.year * 12));
+      return {
+        ...y,
+        prepayLoan: deflate(y.prepayLoan),
+        prepayInvestments: deflate(y.prepayInvestments),
+        prepayNetWorth: deflate(y.prepayNetWorth),
+        investLoan: deflate(y.investLoan),
+        investInvestments: deflate(y.investInvestments),
+        investNetWorth: deflate(y.investNetWorth)
+      };
+    }),
+    interestSaved: Math.round(comparison.interestSaved / termEnd),
+    prepayNetWorth: Math.round(comparison.prepayNetWorth / termEnd),
+    investNetWorth: Math.round(comparison.investNetWorth / termEnd)
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { contributionForMonth } from './contributions';
+import {
+  ageAt,
+  applyLifeEvents,
+  calendarYearAt,
+  firstMonthOfCalendarYear,
+  lifeEventWithdrawals,
+  yearsUntilAge
+} from './lifeEvents';
+import type { Contribution, LifeEvent, LifeTimeline } from './types';
+
+// A plan starting in July, so plan years and calendar years are half a year apart
+const timeline: LifeTimeline = { startDate: '2025-07', birthYear: 1990, events: [] };
+
+const event = (changes: Partial<LifeEvent>): LifeEvent => ({
+  id: 'e', type: 'withdrawal', label: 'Event', startYear: 2026, endYear: 2026, amount: 0, ...changes
+});
+
+const months = (contribution: Contribution, from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => contributionForMonth(contribution, from + i));
+
+describe('plan years, calendar years and ages', () => {
+  it('maps a point on the plan to its calendar year and age', () => {
+    expect([calendarYearAt(timeline, 0), calendarYearAt(timeline, 0.5), calendarYearAt(timeline, 1)]).toEqual([2025, 2026, 2026]);
+    expect(ageAt(timeline, 5)).toBe(40);
+    expect(ageAt({ ...timeline, birthYear: null }, 5)).toBeNull();
+  });
+
+  it('counts whole plan years until the year an age is reached', () => {
+    expect(yearsUntilAge(timeline, 65)).toBe(30);
+    expect(yearsUntilAge(timeline, 35)).toBe(0);
+    expect(yearsUntilAge({ ...timeline, birthYear: null }, 65)).toBeNull();
+  });
+
+  it('finds the plan month a calendar year starts in', () => {
+    expect(firstMonthOfCalendarYear(timeline, 2025)).toBe(1);
+    expect(firstMonthOfCalendarYear(timeline, 2026)).toBe(7);
+    expect(firstMonthOfCalendarYear(timeline, 2024)).toBeNull();
+  });
+});
+
+describe('applyLifeEvents', () => {
+  it('leaves the contribution alone with nothing planned', () => {
+    expect(applyLifeEvents(500, timeline)).toBe(500);
+  });
+
+  it("takes a withdrawal in the plan's first month of its year", () => {
+    const contribution = applyLifeEvents(500, { ...timeline, events: [event({ amount: 20000 })] });
+    expect(months(contribution, 6, 8)).toEqual([500, -19500, 500]);
+    const thisYear = applyLifeEvents(500, { ...timeline, events: [event({ startYear: 2025, endYear: 2025, amount: 1000 })] });
+    expect(months(thisYear, 1, 2)).toEqual([-500, 500]);
+  });
+
+  it('spreads a yearly expense over every month of the years it runs', () => {
+    const contribution = applyLifeEvents(500, { ...timeline, events: [event({ type: 'expense', endYear: 2027, amount: 12000 })] });
+    expect(months(contribution, 6, 7)).toEqual([500, -500]);
+    expect(months(contribution, 30, 31)).toEqual([-500, 500]);
+  });
+
+  it('stops or scales contributions for the calendar years a sabbatical or part-time work covers', () => {
+    const sabbatical = applyLifeEvents(500, { ...timeline, events: [event({ type: 'sabbatical' })] });
+    expect(months(sabbatical, 6, 19)).toEqual([500, ...Array(12).fill(0), 500]);
+    const partTime = applyLifeEvents(500, { ...timeline, events: [event({ type: 'part-time', amount: 60 })] });
+    expect(months(partTime, 6, 7)).toEqual([500, 300]);
+  });
+});
+
+describe('lifeEventWithdrawals', () => {
+  it('times retirement withdrawals from the end of the saving years', () => {
+    const events = [
+      event({ amount: 5000 }),
+      event({ id: 'f', startYear: 2028, endYear: 2028, amount: 20000 }),
+      event({ id: 'g', type: 'sabbatical', startYear: 2028, endYear: 2030 })
+    ];
+    const withdrawals = lifeEventWithdrawals({ ...timeline, events }, 24);
+    // Retirement month 1 is plan month 25, July 2027, so January 2028 is retirement month 7
+    expect(months(withdrawals, 6, 8)).toEqual([0, 20000, 0]);
+    expect(lifeEventWithdrawals({ ...timeline, events: [event({ type: 'sabbatical' })] }, 24)).toBe(0);
+  });
+});
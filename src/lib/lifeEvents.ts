@@ -0,0 +1,130 @@
+import { contributionForMonth } from './contributions';
+import { monthLabel, monthsBetween } from './history';
+import type { Contribution, LifeEvent, LifeEventType, LifeTimeline } from './types';
+
+export const LIFE_EVENT_TYPES: Record<LifeEventType, { label: string; description: string; amountLabel: string }> = {
+  withdrawal: {
+    label: 'One-Off Withdrawal',
+    description: 'Taken out of the balance once, e.g. a house deposit',
+    amountLabel: 'Amount'
+  },
+  expense: {
+    label: 'Yearly Expense',
+    description: 'Paid out of the balance every year it runs, e.g. school fees',
+    amountLabel: 'Per Year'
+  },
+  sabbatical: {
+    label: 'Sabbatical',
+    description: 'No contributions while it runs',
+    amountLabel: ''
+  },
+  'part-time': {
+    label: 'Part-Time Work',
+    description: 'Contributions cut to a share of the usual amount while it runs',
+    amountLabel: 'Contribution Kept'
+  }
+};
+
+// Starting this month, with no age given and nothing planned
+export const DEFAULT_LIFE_TIMELINE: LifeTimeline = {
+  startDate: new Date().toISOString().slice(0, 7),
+  birthYear: null,
+  events: []
+};
+
+/**
+ * Calendar year of each plan month (counting from 1), and whether it's the
+ * plan's first month in that year
+ */
+const planCalendar = (timeline: LifeTimeline) => {
+  const startYear = Number(timeline.startDate.slice(0, 4));
+  const startMonth = Number(timeline.startDate.slice(5, 7)) - 1; // 0 = January
+  return (month: number) => {
+    const index = startMonth + month - 1;
+    return { year: startYear + Math.floor(index / 12), firstOfYear: month === 1 || index % 12 === 0 };
+  };
+};
+
+const covers = (event: LifeEvent, year: number): boolean =>
+  year >= event.startYear && year <= Math.max(event.startYear, event.endYear);
+
+/**
+ * Money the events take out of the balance in a month: a withdrawal in the plan's
+ * first month of its year, and a twelfth of each yearly expense running that year
+ */
+const withdrawalsForMonth = (events: LifeEvent[], year: number, firstOfYear: boolean): number =>
+  events.reduce((sum, event) => {
+    if (event.type === 'withdrawal') return sum + (firstOfYear && year === event.startYear ? event.amount : 0);
+    if (event.type === 'expense') return sum + (covers(event, year) ? event.amount / 12 : 0);
+    return sum;
+  }, 0);
+
+/**
+ * Calendar year a point on the plan's year axis falls in
+ */
+export const calendarYearAt = (timeline: LifeTimeline, planYears: number): number =>
+  Number(monthLabel(timeline.startDate, Math.round(planYears * 12)).slice(0, 4));
+
+/**
+ * Age at a point on the plan's year axis, counted as the calendar year less the birth year
+ * Returns null without a birth year
+ */
+export const ageAt = (timeline: LifeTimeline, planYears: number): number | null =>
+  timeline.birthYear === null ? null : calendarYearAt(timeline, planYears) - timeline.birthYear;
+
+/**
+ * Whole plan years until the calendar year the investor turns an age
+ * Returns null without a birth year, and 0 once that year has been reached
+ */
+export const yearsUntilAge = (timeline: LifeTimeline, age: number): number | null =>
+  timeline.birthYear === null
+    ? null
+    : Math.max(0, Math.ceil(monthsBetween(timeline.startDate, `${timeline.birthYear + age}-01`) / 12));
+
+/**
+ * Plan month (counting from 1) a calendar year starts in: its January, or the first
+ * month for the year the plan starts in. Returns null for years before the plan.
+ */
+export const firstMonthOfCalendarYear = (timeline: LifeTimeline, year: number): number | null =>
+  year < Number(timeline.startDate.slice(0, 4))
+    ? null
+    : Math.max(1, monthsBetween(timeline.startDate, `${year}-01`) + 1);
+
+/**
+ * Applies the life events to a month-by-month contribution
+ * Sabbaticals stop the contribution and part-time work scales it in every month of the
+ * years they cover; withdrawals and expenses then come out of it. A month can end up
+ * negative: money taken out of the balance rather than paid in.
+ * Returns the contribution unchanged when nothing is planned.
+ */
+export const applyLifeEvents = (contribution: Contribution, timeline: LifeTimeline): Contribution => {
+  if (timeline.events.length === 0) return contribution;
+
+  const calendar = planCalendar(timeline);
+  return (month) => {
+    const { year, firstOfYear } = calendar(month);
+    let amount = contributionForMonth(contribution, month);
+    for (const event of timeline.events) {
+      if (!covers(event, year)) continue;
+      if (event.type === 'sabbatical') amount = 0;
+      if (event.type === 'part-time') amount *= event.amount / 100;
+    }
+    return amount - withdrawalsForMonth(timeline.events, year, firstOfYear);
+  };
+};
+
+/**
+ * Withdrawals and expenses falling after the saving years, by month of retirement
+ * They come out on top of the usual retirement withdrawal; events while saving
+ * are already taken out of the contributions by applyLifeEvents.
+ */
+export const lifeEventWithdrawals = (timeline: LifeTimeline, accumulationMonths: number): Contribution => {
+  const events = timeline.events.filter((event) => event.type === 'withdrawal' || event.type === 'expense');
+  if (events.length === 0) return 0;
+
+  const calendar = planCalendar(timeline);
+  return (month) => {
+    const { year, firstOfYear } = calendar(accumulationMonths + month);
+    return withdrawalsForMonth(events, year, firstOfYear);
+  };
+};
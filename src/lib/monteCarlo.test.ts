@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutureValue } from './calculations';
+import { SP500_ANNUAL_RETURNS } from './data/sp500Returns';
+import { createRandom, runMonteCarlo } from './monteCarlo';
+import type { MonteCarloConfig } from './monteCarlo';
+
+const config: MonteCarloConfig = {
+  initialInvestment: 10000,
+  monthlyContribution: 500,
+  years: 30,
+  simulations: 1000,
+  method: 'parametric',
+  meanReturn: 7,
+  volatility: 15,
+  targetBalance: 500000,
+  seed: 42
+};
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const c = createRandom(8);
+    const first = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(first);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+    expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('orders the percentiles and widens the fan over time', () => {
+    const { bands } = runMonteCarlo(config);
+    expect(bands).toHaveLength(31);
+    for (const band of bands) {
+      expect([band.p5, band.p25, band.p50, band.p75, band.p95]).toEqual([band.p5, band.p25, band.p50, band.p75, band.p95].sort((a, b) => a - b));
+    }
+    expect(bands[0]).toEqual({ year: 0, p5: 10000, p25: 10000, p50: 10000, p75: 10000, p95: 10000 });
+    expect(bands[30].p95 - bands[30].p5).toBeGreaterThan(bands[10].p95 - bands[10].p5);
+  });
+
+  it('gives the same result for the same seed', () => {
+    expect(runMonteCarlo(config)).toEqual(runMonteCarlo(config));
+    expect(runMonteCarlo({ ...config, seed: 43 }).bands[30]).not.toEqual(runMonteCarlo(config).bands[30]);
+  });
+
+  it('counts the paths that reach the target', () => {
+    const median = runMonteCarlo(config).bands[30].p50;
+    expect(runMonteCarlo({ ...config, targetBalance: 0 }).probabilityOfGoal).toBe(100);
+    expect(runMonteCarlo({ ...config, targetBalance: 1e12 }).probabilityOfGoal).toBe(0);
+    expect(runMonteCarlo({ ...config, targetBalance: median }).probabilityOfGoal).toBeCloseTo(50, 0);
+  });
+
+  it('matches the deterministic projection with no volatility', () => {
+    const { bands, probabilityOfGoal } = runMonteCarlo({ ...config, volatility: 0, simulations: 10 });
+    for (const band of bands) {
+      const projected = calculateFutureValue(10000, 500, 7, band.year * 12);
+      expect(band.p5).toBeCloseTo(projected, -1);
+      expect(band.p95).toBe(band.p5);
+    }
+    expect(probabilityOfGoal).toBe(calculateFutureValue(10000, 500, 7, 360) >= 500000 ? 100 : 0);
+  });
+
+  it('resamples historical years', () => {
+    const returns = SP500_ANNUAL_RETURNS.map((r) => r.totalReturn);
+    const { bands } = runMonteCarlo({ ...config, method: 'bootstrap', monthlyContribution: 0, years: 1 });
+    expect(bands[1].p5).toBeGreaterThanOrEqual(Math.floor(10000 * (1 + Math.min(...returns) / 100)));
+    expect(bands[1].p95).toBeLessThanOrEqual(Math.ceil(10000 * (1 + Math.max(...returns) / 100)));
+  });
+});
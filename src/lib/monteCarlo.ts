@@ -0,0 +1,141 @@
+import {
+  DEFAULT_CONTRIBUTION_PLAN,
+  addContribution,
+  contributionForMonth,
+  createContributionSchedule
+} from './contributions';
+import { SP500_ANNUAL_RETURNS } from './data/sp500Returns';
+import { DEFAULT_FEE_SETTINGS, contributionAfterFees, feeDrag } from './fees';
+import { createInflationSchedule } from './inflation';
+import { applyLifeEvents } from './lifeEvents';
+import type { ContributionPlan, FeeSettings, InflationSettings, LifeTimeline } from './types';
+
+export type MonteCarloMethod = 'parametric' | 'bootstrap';
+
+export interface MonteCarloConfig {
+  initialInvestment: number;
+  monthlyContribution: number;
+  contributionPlan?: ContributionPlan; // Plain data rather than a schedule, so the config can be posted to a worker
+  contributionIndexation?: InflationSettings; // Raise contributions with this inflation each year
+  timeline?: LifeTimeline; // Life events that change the contributions
+  years: number;
+  simulations: number;
+  method: MonteCarloMethod;
+  meanReturn: number; // Annual %, compounded monthly like the projections, after percentage fees, parametric only
+  volatility: number; // Annual standard deviation %, parametric only
+  targetBalance: number;
+  seed: number;
+  fees?: FeeSettings; // Flat fees come out of contributions; percentage fees out of historical returns
+}
+
+export interface PercentileBand {
+  year: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  simulations: number;
+  bands: PercentileBand[]; // One entry per year, starting at year 0
+  probabilityOfGoal: number; // Percentage of paths ending at or above targetBalance
+}
+
+/**
+ * Mulberry32 seeded PRNG
+ * Seeding keeps the fan chart stable when the same inputs are re-run
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Standard normal sample using the Box-Muller transform
+ */
+const sampleNormal = (random: () => number): number => {
+  const u = 1 - random(); // Avoid log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Nearest-rank percentile of an ascending-sorted sample
+ */
+const percentile = (sorted: Float64Array, p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))];
+
+/**
+ * Runs randomized annual return paths through the plan and summarizes
+ * the spread of outcomes as percentile bands per year.
+ * - parametric: returns drawn from a normal distribution (meanReturn, volatility)
+ * - bootstrap: returns resampled with replacement from historical S&P 500 years
+ * Each sampled year is compounded monthly with end-of-month contributions,
+ * so with no volatility a path matches calculateFutureValue.
+ */
+export const runMonteCarlo = (config: MonteCarloConfig): MonteCarloResult => {
+  const years = Math.max(0, Math.round(config.years));
+  const simulations = Math.max(1, Math.floor(config.simulations));
+  const random = createRandom(config.seed);
+  const fees = config.fees ?? DEFAULT_FEE_SETTINGS;
+  const schedule = createContributionSchedule(
+    config.monthlyContribution,
+    config.contributionPlan ?? DEFAULT_CONTRIBUTION_PLAN,
+    years,
+    config.contributionIndexation ? createInflationSchedule(config.contributionIndexation, years) : 0
+  );
+  const contribution = contributionAfterFees(config.timeline ? applyLifeEvents(schedule, config.timeline) : schedule, fees);
+  // Sampled years are annual returns; the mean is the projections' rate, which compounds monthly
+  const annualMean = (Math.pow(1 + config.meanReturn / 100 / 12, 12) - 1) * 100;
+
+  // yearEnd[year][simulation] = balance at the end of that year
+  const yearEnd = Array.from({ length: years + 1 }, () => new Float64Array(simulations));
+  let reachedGoal = 0;
+
+  for (let sim = 0; sim < simulations; sim++) {
+    let balance = config.initialInvestment;
+    yearEnd[0][sim] = balance;
+
+    for (let year = 1; year <= years; year++) {
+      const annualReturn = config.method === 'bootstrap'
+        ? SP500_ANNUAL_RETURNS[Math.floor(random() * SP500_ANNUAL_RETURNS.length)].totalReturn - feeDrag(fees)
+        : annualMean + config.volatility * sampleNormal(random);
+
+      // A year can't lose more than everything
+      const monthlyRate = Math.pow(1 + Math.max(annualReturn, -99) / 100, 1 / 12) - 1;
+
+      for (let month = 1; month <= 12; month++) {
+        balance = addContribution(balance * (1 + monthlyRate), contributionForMonth(contribution, (year - 1) * 12 + month));
+      }
+      yearEnd[year][sim] = balance;
+    }
+
+    if (balance >= config.targetBalance) reachedGoal++;
+  }
+
+  const bands = yearEnd.map((balances, year) => {
+    balances.sort();
+    return {
+      year,
+      p5: Math.round(percentile(balances, 5)),
+      p25: Math.round(percentile(balances, 25)),
+      p50: Math.round(percentile(balances, 50)),
+      p75: Math.round(percentile(balances, 75)),
+      p95: Math.round(percentile(balances, 95))
+    };
+  });
+
+  return {
+    simulations,
+    bands,
+    probabilityOfGoal: (reachedGoal / simulations) * 100
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PENSION_SETTINGS, PENSION_PRESETS, assetsTestThreshold, balanceForIncome, pensionForAge } from './pension';
+import type { PensionSettings } from './types';
+
+const agePension: PensionSettings = { ...DEFAULT_PENSION_SETTINGS, ...PENSION_PRESETS[1].settings, enabled: true };
+const socialSecurity: PensionSettings = { ...DEFAULT_PENSION_SETTINGS, enabled: true };
+
+describe('pensionForAge', () => {
+  it('pays nothing when off or before the start age', () => {
+    expect(pensionForAge(DEFAULT_PENSION_SETTINGS, 70, 0)).toBe(0);
+    expect(pensionForAge(socialSecurity, 66, 0)).toBe(0);
+  });
+
+  it('pays the full amount, scaled by the price level, without a means test', () => {
+    expect(pensionForAge(socialSecurity, 67, 5000000, 1.5)).toBe(socialSecurity.monthlyAmount * 1.5);
+  });
+
+  it('tapers above the assets test threshold and stops at zero', () => {
+    const threshold = assetsTestThreshold(agePension);
+    expect(pensionForAge(agePension, 67, threshold)).toBe(agePension.monthlyAmount);
+    expect(pensionForAge(agePension, 67, threshold + 100000)).toBeCloseTo(agePension.monthlyAmount - 300 * 26 / 12, 6);
+    expect(pensionForAge(agePension, 67, 10000000)).toBe(0);
+  });
+
+  it('counts other assets against the threshold', () => {
+    const threshold = assetsTestThreshold(agePension);
+    expect(pensionForAge({ ...agePension, otherAssets: 100000 }, 67, threshold))
+      .toBeCloseTo(pensionForAge(agePension, 67, threshold + 100000), 6);
+  });
+});
+
+describe('balanceForIncome', () => {
+  it('needs no balance when the pension alone covers the income', () => {
+    expect(balanceForIncome(1000, 4, socialSecurity, 67)).toBe(0);
+  });
+
+  it('funds the gap above a flat pension from withdrawals', () => {
+    const gap = 4000 - socialSecurity.monthlyAmount;
+    expect(balanceForIncome(4000, 4, socialSecurity, 67)).toBeCloseTo(gap / (0.04 / 12), 6);
+  });
+
+  it('reaches the income exactly through the assets test taper', () => {
+    for (const target of [3000, 5000, 8000]) {
+      const balance = balanceForIncome(target, 4, agePension, 67);
+      expect(balance * 0.04 / 12 + pensionForAge(agePension, 67, balance)).toBeCloseTo(target, 6);
+    }
+  });
+
+  it('is unreachable without a positive withdrawal rate', () => {
+    expect(balanceForIncome(1e6, 0, agePension, 67)).toBe(Infinity);
+  });
+});
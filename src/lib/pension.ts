@@ -0,0 +1,103 @@
+import type { PensionSettings } from './types';
+
+const FORTNIGHTS_PER_MONTH = 26 / 12;
+
+// Australian Age Pension from 20 September 2024: maximum fortnightly rates including
+// supplements (couple combined), and the assets test lower thresholds from 1 July 2024
+const AU_AGE_PENSION_SINGLE = 1144.4 * FORTNIGHTS_PER_MONTH;
+const AU_AGE_PENSION_COUPLE = 1725.2 * FORTNIGHTS_PER_MONTH;
+const AU_ASSETS_TEST_THRESHOLDS = {
+  single: { homeowner: 314000, renter: 566000 },
+  couple: { homeowner: 470000, renter: 722000 }
+};
+
+// The pension falls by $3 a fortnight for every $1,000 of assets over the threshold
+const AU_ASSETS_TEST_TAPER = (3 / 1000) * FORTNIGHTS_PER_MONTH;
+
+// Average US retired-worker Social Security benefit, January 2025
+const US_SOCIAL_SECURITY_AVERAGE = 1976;
+
+export const PENSION_PRESETS: { label: string; description: string; settings: Omit<PensionSettings, 'enabled' | 'otherAssets'> }[] = [
+  {
+    label: 'Social Security',
+    description: 'US average benefit from 67',
+    settings: { startAge: 67, monthlyAmount: US_SOCIAL_SECURITY_AVERAGE, meansTest: 'none', couple: false, homeowner: true }
+  },
+  {
+    label: 'Age Pension',
+    description: 'Australia, single, assets tested',
+    settings: { startAge: 67, monthlyAmount: Math.round(AU_AGE_PENSION_SINGLE), meansTest: 'au-assets', couple: false, homeowner: true }
+  },
+  {
+    label: 'Age Pension (Couple)',
+    description: 'Australia, combined, assets tested',
+    settings: { startAge: 67, monthlyAmount: Math.round(AU_AGE_PENSION_COUPLE), meansTest: 'au-assets', couple: true, homeowner: true }
+  }
+];
+
+// Off, set up as the average US Social Security benefit
+export const DEFAULT_PENSION_SETTINGS: PensionSettings = {
+  enabled: false,
+  ...PENSION_PRESETS[0].settings,
+  otherAssets: 0
+};
+
+/**
+ * Assets the means test allows before the pension is reduced, in today's dollars
+ */
+export const assetsTestThreshold = (settings: PensionSettings): number =>
+  AU_ASSETS_TEST_THRESHOLDS[settings.couple ? 'couple' : 'single'][settings.homeowner ? 'homeowner' : 'renter'];
+
+/**
+ * Monthly pension at an age, given the portfolio balance
+ * Amounts and thresholds are in today's dollars, scaled by priceLevel to the year in question.
+ * The Australian assets test counts the portfolio plus other assets.
+ */
+export const pensionForAge = (settings: PensionSettings, age: number, balance: number, priceLevel = 1): number => {
+  if (!settings.enabled || age < settings.startAge) return 0;
+
+  const full = settings.monthlyAmount * priceLevel;
+  if (settings.meansTest === 'none') return full;
+
+  const excess = balance + (settings.otherAssets - assetsTestThreshold(settings)) * priceLevel;
+  return Math.max(0, full - Math.max(0, excess) * AU_ASSETS_TEST_TAPER);
+};
+
+/**
+ * Smallest balance whose first-year withdrawal plus the pension reaches a monthly income
+ * withdrawalRate is the strategy's first-year rate, as an annual % of the balance.
+ * Means-testing can make total income fall as the balance grows, so each stretch where
+ * the pension is full, tapering and gone is checked in turn.
+ */
+export const balanceForIncome = (
+  targetMonthlyIncome: number,
+  withdrawalRate: number,
+  settings: PensionSettings,
+  age: number,
+  priceLevel = 1
+): number => {
+  const withdrawalShare = withdrawalRate / 100 / 12;
+  const income = (balance: number) => balance * withdrawalShare + pensionForAge(settings, age, balance, priceLevel);
+
+  // Balances where the pension starts to taper and where it runs out
+  const taperStart = (assetsTestThreshold(settings) - settings.otherAssets) * priceLevel;
+  const breaks = settings.meansTest === 'au-assets'
+    ? [taperStart, taperStart + settings.monthlyAmount * priceLevel / AU_ASSETS_TEST_TAPER].filter((b) => b > 0)
+    : [];
+  const edges = [0, ...breaks, Infinity];
+
+  for (let i = 0; i < edges.length - 1; i++) {
+    const low = edges[i];
+    const high = edges[i + 1];
+    const atLow = income(low);
+    if (atLow >= targetMonthlyIncome) return low;
+
+    // Past the last break the pension no longer changes
+    const slope = high === Infinity ? withdrawalShare : (income(high) - atLow) / (high - low);
+    if (slope > 0) {
+      const balance = low + (targetMonthlyIncome - atLow) / slope;
+      if (balance <= high) return balance;
+    }
+  }
+  return Infinity; // Only without a positive withdrawal rate
+};
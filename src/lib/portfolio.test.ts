@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { calculateProjections } from './calculations';
+import { createContributionSchedule } from './contributions';
+import { calculatePortfolioProjections } from './portfolio';
+import type { ContributionPlan, PortfolioAccount } from './types';
+
+const main: PortfolioAccount = { id: 'main', name: 'Main', initialInvestment: 10000, monthlyContribution: 500, annualRate: 7, years: 30 };
+const kids: PortfolioAccount = { id: 'kids', name: "Kids' Fund", initialInvestment: 2000, monthlyContribution: 100, annualRate: 6, years: 18 };
+
+describe('calculatePortfolioProjections', () => {
+  it('adds the accounts up month by month', () => {
+    const portfolio = calculatePortfolioProjections([main, kids]);
+    const mainProjections = calculateProjections(10000, 500, 7, 30);
+    const kidsProjections = calculateProjections(2000, 100, 6, 18);
+    expect(portfolio.months[119]).toEqual({
+      month: 120,
+      year: 10,
+      total: mainProjections[119].balance + kidsProjections[119].balance,
+      contributions: mainProjections[119].contributions + kidsProjections[119].contributions,
+      balances: { main: mainProjections[119].balance, kids: kidsProjections[119].balance }
+    });
+    expect(portfolio.accounts.map((a) => a.finalBalance)).toEqual([mainProjections[359].balance, kidsProjections[215].balance]);
+  });
+
+  it('runs to the longest account and drops the others once they end', () => {
+    const portfolio = calculatePortfolioProjections([kids, main]);
+    expect(portfolio.months).toHaveLength(360);
+    expect(portfolio.accounts.map((a) => a.endMonth)).toEqual([216, 360]);
+    expect(Object.keys(portfolio.months[215].balances)).toEqual(['kids', 'main']);
+    expect(Object.keys(portfolio.months[216].balances)).toEqual(['main']);
+    expect(portfolio.months[216].total).toBe(portfolio.months[216].balances.main);
+  });
+
+  it("shapes an account's contributions with its own contribution plan", () => {
+    const contributionPlan: ContributionPlan = {
+      rules: [{ id: 'p', type: 'pause', startYear: 2, endYear: 3, value: 0 }],
+      lumpSums: [{ id: 'l', label: 'Gift', year: 5, amount: 5000 }]
+    };
+    const portfolio = calculatePortfolioProjections([{ ...kids, annualRate: 0, contributionPlan }]);
+    const expected = calculateProjections(2000, createContributionSchedule(100, contributionPlan, 18), 0, 18);
+    expect(portfolio.months.map((m) => m.total)).toEqual(expected.map((m) => m.balance));
+    expect(portfolio.accounts[0].totalContributions).toBe(2000 + 100 * (18 - 2) * 12 + 5000);
+  });
+
+  it('has an empty timeline with no accounts', () => {
+    expect(calculatePortfolioProjections([])).toEqual({ months: [], accounts: [] });
+  });
+});
@@ -0,0 +1,62 @@
+import { calculateProjections } from './calculations';
+import { createContributionSchedule } from './contributions';
+import type { PortfolioAccount, PortfolioMonth, PortfolioProjection } from './types';
+
+/**
+ * Projects every account with calculateProjections and combines them month by month
+ * An account's contribution plan, if it has one, shapes its contributions
+ * The household timeline runs to the longest account; an account drops out of the
+ * total once its own timeline ends (e.g. a kids' fund paid out at 18).
+ */
+export const calculatePortfolioProjections = (accounts: PortfolioAccount[]): PortfolioProjection => {
+  const accountProjections = accounts.map((account) => ({
+    account,
+    projections: calculateProjections(
+      account.initialInvestment,
+      account.contributionPlan
+        ? createContributionSchedule(account.monthlyContribution, account.contributionPlan, account.years)
+        : account.monthlyContribution,
+      account.annualRate,
+      account.years
+    )
+  }));
+
+  const totalMonths = Math.max(0, ...accountProjections.map((a) => a.projections.length));
+  const months: PortfolioMonth[] = [];
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const balances: Record<string, number> = {};
+    let total = 0;
+    let contributions = 0;
+
+    for (const { account, projections } of accountProjections) {
+      const monthData = projections[month - 1];
+      if (!monthData) continue;
+      balances[account.id] = monthData.balance;
+      total += monthData.balance;
+      contributions += monthData.contributions;
+    }
+
+    months.push({
+      month,
+      year: Math.floor(month / 12),
+      total,
+      contributions,
+      balances
+    });
+  }
+
+  return {
+    months,
+    accounts: accountProjections.map(({ account, projections }) => {
+      const finalMonth = projections[projections.length - 1];
+      return {
+        id: account.id,
+        name: account.name,
+        finalBalance: finalMonth?.balance ?? account.initialInvestment,
+        totalContributions: finalMonth?.contributions ?? account.initialInvestment,
+        endMonth: projections.length
+      };
+    })
+  };
+};
@@ -0,0 +1,7 @@
+import type { AnnualRate } from './types';
+
+/**
+ * Annual rate (%) in force for a given month
+ */
+export const rateForMonth = (annualRate: AnnualRate, month: number): number =>
+  typeof annualRate === 'function' ? annualRate(month) : annualRate;
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFutureValue } from './calculations';
+import { DEFAULT_MARKET_SHOCK, analyzeSequenceRisk, applyMarketShocks, simulateSequence } from './sequenceRisk';
+import type { SequenceRiskInputs } from './sequenceRisk';
+
+const inputs: SequenceRiskInputs = {
+  initialInvestment: 100000,
+  monthlyContribution: 1000,
+  accumulationYears: 10,
+  accumulationRate: 7,
+  retirementYears: 20,
+  retirementRate: 5,
+  monthlyWithdrawal: 3000,
+  withdrawalInflation: 0,
+  shocks: []
+};
+
+const growth = (returns: number[]) => returns.reduce((product, r) => product * (1 + r / 100), 1);
+
+describe('applyMarketShocks', () => {
+  it('crashes the shock year and recovers to the same end point', () => {
+    const returns = Array(10).fill(7);
+    const shocked = applyMarketShocks(returns, [{ ...DEFAULT_MARKET_SHOCK, id: 'a' }], 3);
+    expect(shocked[3]).toBe(-35);
+    expect(shocked.slice(0, 3)).toEqual([7, 7, 7]);
+    expect(growth(shocked)).toBeCloseTo(growth(returns), 10);
+  });
+
+  it('keeps a loss with no recovery years', () => {
+    const shocked = applyMarketShocks(Array(5).fill(7), [{ ...DEFAULT_MARKET_SHOCK, id: 'a', phase: 'accumulation', recoveryYears: 0 }], 3);
+    expect(shocked).toEqual([-35, 7, 7, 7, 7]);
+  });
+
+  it('ignores shocks outside the plan', () => {
+    const returns = Array(5).fill(7);
+    expect(applyMarketShocks(returns, [{ ...DEFAULT_MARKET_SHOCK, id: 'a', year: 10 }], 3)).toEqual(returns);
+  });
+});
+
+describe('simulateSequence', () => {
+  it('matches the closed form while saving', () => {
+    // 12% compounded monthly, as an annual return
+    const annualReturn = (Math.pow(1.01, 12) - 1) * 100;
+    const path = simulateSequence(Array(10).fill(annualReturn), { ...inputs, retirementYears: 0 });
+    expect(path.retirementBalance).toBeCloseTo(calculateFutureValue(100000, 1000, 12, 120), -1);
+  });
+
+  it('records when the money runs out', () => {
+    const path = simulateSequence(Array(5).fill(0), { ...inputs, initialInvestment: 36000, accumulationYears: 0, retirementYears: 5 });
+    expect(path.depletedYear).toBe(2);
+    expect(path.totalWithdrawn).toBe(36000);
+    expect(path.endingBalance).toBe(0);
+  });
+});
+
+describe('analyzeSequenceRisk', () => {
+  it('hurts more when the crash comes early in retirement', () => {
+    const early = analyzeSequenceRisk({ ...inputs, monthlyWithdrawal: 1500, shocks: [{ ...DEFAULT_MARKET_SHOCK, id: 'a', year: 1 }] });
+    const late = analyzeSequenceRisk({ ...inputs, monthlyWithdrawal: 1500, shocks: [{ ...DEFAULT_MARKET_SHOCK, id: 'a', year: 15 }] });
+    expect(early.shocked?.depletedYear).toBeNull();
+    expect(early.shocked?.endingBalance).toBeLessThan(late.shocked?.endingBalance ?? 0);
+  });
+
+  it('replays the most recent history of the plan length in every order', () => {
+    const result = analyzeSequenceRisk(inputs);
+    expect(result.historical?.endYear).toBe(2024);
+    expect(result.historical?.actual.annualReturns).toHaveLength(30);
+    expect(growth(result.historical?.reversed.annualReturns ?? [])).toBeCloseTo(growth(result.historical?.actual.annualReturns ?? []), 6);
+  });
+
+  it('has no historical replay for a plan longer than the history', () => {
+    expect(analyzeSequenceRisk({ ...inputs, retirementYears: 200 }).historical).toBeNull();
+  });
+});
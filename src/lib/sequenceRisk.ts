@@ -0,0 +1,201 @@
+import { addContribution, contributionForMonth } from './contributions';
+import { SP500_ANNUAL_RETURNS } from './data/sp500Returns';
+import { createRandom } from './monteCarlo';
+import { rateForMonth } from './rates';
+import type { AnnualRate, Contribution, HistoricalSequences, MarketShock, SequencePath, SequenceRiskResult } from './types';
+
+// A 35% crash in the first year of retirement, climbing back over five years
+export const DEFAULT_MARKET_SHOCK: Omit<MarketShock, 'id'> = {
+  phase: 'retirement',
+  year: 1,
+  drop: 35,
+  recoveryYears: 5
+};
+
+const SHUFFLE_COUNT = 500;
+const SHUFFLE_SEED = 2008;
+
+export interface SequenceRiskInputs {
+  initialInvestment: number;
+  monthlyContribution: Contribution;
+  accumulationYears: number;
+  accumulationRate: AnnualRate; // The plan's return while saving, % compounded monthly
+  retirementYears: number;
+  retirementRate: number; // The plan's return in retirement, % compounded monthly
+  monthlyWithdrawal: number;
+  withdrawalInflation: number; // Withdrawals rise by this % at the start of each retirement year
+  shocks: MarketShock[];
+  historicalDrag?: number; // Annual % taken off historical returns, e.g. percentage fees
+}
+
+/**
+ * Effective annual return (%) of a rate compounded monthly, as the projections use it
+ */
+const effectiveAnnualReturn = (annualRate: number): number =>
+  (Math.pow(1 + annualRate / 100 / 12, 12) - 1) * 100;
+
+/**
+ * Injects market shocks into a year-by-year return series
+ * The crash year returns -drop%; the recovery years share out whatever growth is needed to
+ * end the window where the original returns would have, so only the order of returns changes.
+ * Shocks outside the plan are ignored.
+ */
+export const applyMarketShocks = (
+  annualReturns: number[],
+  shocks: MarketShock[],
+  accumulationYears: number
+): number[] => {
+  const returns = [...annualReturns];
+  for (const shock of shocks) {
+    const start = (shock.phase === 'retirement' ? accumulationYears : 0) + shock.year - 1;
+    if (start < 0 || start >= returns.length) continue;
+
+    const end = Math.min(returns.length, start + 1 + Math.max(0, Math.round(shock.recoveryYears)));
+    const windowGrowth = returns.slice(start, end).reduce((growth, r) => growth * (1 + r / 100), 1);
+    const crash = Math.min(shock.drop, 99);
+    returns[start] = -crash;
+
+    const recoveryYears = end - start - 1;
+    if (recoveryYears > 0) {
+      const recovery = (Math.pow(windowGrowth / (1 - crash / 100), 1 / recoveryYears) - 1) * 100;
+      returns.fill(recovery, start + 1, end);
+    }
+  }
+  return returns;
+};
+
+/**
+ * Runs one order of annual returns through the plan
+ * Saving years add contributions at the end of each month, as calculateFutureValue does;
+ * retirement years take the withdrawal first, as simulateDrawdown does.
+ * Each year's return is compounded evenly across its 12 months.
+ */
+export const simulateSequence = (annualReturns: number[], inputs: SequenceRiskInputs): SequencePath => {
+  const accumulationMonths = inputs.accumulationYears * 12;
+  const balances = [inputs.initialInvestment];
+  const withdrawals: number[] = [];
+  let balance = inputs.initialInvestment;
+  let retirementBalance = inputs.accumulationYears === 0 ? balance : 0;
+  let withdrawal = inputs.monthlyWithdrawal;
+  let totalWithdrawn = 0;
+  let depletedYear: number | null = null;
+
+  annualReturns.forEach((annualReturn, index) => {
+    const monthlyRate = Math.pow(1 + Math.max(annualReturn, -99) / 100, 1 / 12) - 1;
+    let withdrawnThisYear = 0;
+
+    for (let m = 1; m <= 12; m++) {
+      const month = index * 12 + m;
+      if (month <= accumulationMonths) {
+        balance = addContribution(balance * (1 + monthlyRate), contributionForMonth(inputs.monthlyContribution, month));
+        continue;
+      }
+
+      // Index the withdrawal at the start of each new retirement year
+      const retirementMonth = month - accumulationMonths;
+      if (retirementMonth > 1 && (retirementMonth - 1) % 12 === 0) {
+        withdrawal *= 1 + inputs.withdrawalInflation / 100;
+      }
+      const taken = Math.min(withdrawal, balance);
+      balance = (balance - taken) * (1 + monthlyRate);
+      withdrawnThisYear += taken;
+      if (taken < withdrawal && depletedYear === null) {
+        depletedYear = Math.ceil(retirementMonth / 12);
+      }
+    }
+
+    if (index + 1 === inputs.accumulationYears) retirementBalance = balance;
+    totalWithdrawn += withdrawnThisYear;
+    balances.push(Math.round(balance));
+    withdrawals.push(Math.round(withdrawnThisYear));
+  });
+
+  return {
+    annualReturns,
+    balances,
+    withdrawals,
+    retirementBalance: Math.round(retirementBalance),
+    endingBalance: Math.round(balance),
+    depletedYear,
+    totalWithdrawn: Math.round(totalWithdrawn)
+  };
+};
+
+/**
+ * Orders paths from worst to best: running out sooner is worse, then a smaller ending balance
+ */
+const pathScore = (path: SequencePath): number =>
+  path.depletedYear !== null ? path.depletedYear - 1e6 : path.endingBalance;
+
+/**
+ * Replays the most recent S&P 500 history of the plan's length in its actual order,
+ * reversed, and shuffled many times over
+ * Every ordering uses the same returns, so differences come from the sequence alone.
+ * Returns null when the plan is longer than the history.
+ */
+const analyzeHistoricalSequences = (inputs: SequenceRiskInputs, years: number): HistoricalSequences | null => {
+  if (years < 1 || years > SP500_ANNUAL_RETURNS.length) return null;
+
+  const window = SP500_ANNUAL_RETURNS.slice(SP500_ANNUAL_RETURNS.length - years);
+  const drag = inputs.historicalDrag ?? 0;
+  const actual = window.map((r) => r.totalReturn - drag);
+  const growth = actual.reduce((product, r) => product * (1 + Math.max(r, -99) / 100), 1);
+  const averageReturn = (Math.pow(growth, 1 / years) - 1) * 100;
+
+  const random = createRandom(SHUFFLE_SEED);
+  const shuffled: SequencePath[] = [];
+  for (let i = 0; i < SHUFFLE_COUNT; i++) {
+    // Fisher-Yates
+    const order = [...actual];
+    for (let j = order.length - 1; j > 0; j--) {
+      const k = Math.floor(random() * (j + 1));
+      [order[j], order[k]] = [order[k], order[j]];
+    }
+    shuffled.push(simulateSequence(order, inputs));
+  }
+  shuffled.sort((a, b) => pathScore(a) - pathScore(b));
+
+  return {
+    startYear: window[0].year,
+    endYear: window[window.length - 1].year,
+    averageReturn,
+    smooth: simulateSequence(actual.map(() => averageReturn), inputs),
+    actual: simulateSequence(actual, inputs),
+    reversed: simulateSequence([...actual].reverse(), inputs),
+    shuffled: {
+      worst: shuffled[0],
+      median: shuffled[Math.floor((shuffled.length - 1) / 2)],
+      best: shuffled[shuffled.length - 1]
+    },
+    shuffleCount: SHUFFLE_COUNT
+  };
+};
+
+/**
+ * Sequence-of-returns risk for a plan: the same saving and retirement run with
+ * - the plan's smooth returns
+ * - the smooth returns with market shocks injected
+ * - recent S&P 500 history in its actual, reversed and shuffled orders
+ */
+export const analyzeSequenceRisk = (inputs: SequenceRiskInputs): SequenceRiskResult => {
+  const accumulationYears = Math.max(0, Math.round(inputs.accumulationYears));
+  const retirementYears = Math.max(0, Math.round(inputs.retirementYears));
+  const years = accumulationYears + retirementYears;
+  const normalized = { ...inputs, accumulationYears, retirementYears };
+
+  const smoothReturns = Array.from({ length: years }, (_, index) => effectiveAnnualReturn(
+    index < accumulationYears
+      ? rateForMonth(inputs.accumulationRate, index * 12 + 1)
+      : inputs.retirementRate
+  ));
+
+  return {
+    accumulationYears,
+    retirementYears,
+    smooth: simulateSequence(smoothReturns, normalized),
+    shocked: inputs.shocks.length > 0
+      ? simulateSequence(applyMarketShocks(smoothReturns, inputs.shocks, accumulationYears), normalized)
+      : null,
+    historical: analyzeHistoricalSequences(normalized, years)
+  };
+};
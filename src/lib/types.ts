@@ -0,0 +1,424 @@
+// Annual return (%) in force during a given month, counting from 1
+export type RateSchedule = (month: number) => number;
+
+// A constant annual return (%) or one that changes month by month
+export type AnnualRate = number | RateSchedule;
+
+// Contribution paid in during a given month, counting from 1
+export type ContributionSchedule = (month: number) => number;
+
+// A flat monthly contribution or one that changes month by month
+export type Contribution = number | ContributionSchedule;
+
+// step-up: raise by a % each year; pause: pay nothing; set-amount: change the monthly amount
+export type ContributionRuleType = 'step-up' | 'pause' | 'set-amount';
+
+export interface ContributionRule {
+  id: string;
+  type: ContributionRuleType;
+  startYear: number; // First plan year covered, counting from 1
+  endYear: number; // Last plan year covered (step-up and pause); 0 = to the end of the plan
+  value: number; // step-up: % raise per year; set-amount: new monthly amount; pause: unused
+}
+
+export interface LumpSum {
+  id: string;
+  label: string; // e.g. "Bonus" or "Inheritance"
+  year: number; // Paid in during the first month of this plan year
+  amount: number;
+}
+
+export interface ContributionPlan {
+  rules: ContributionRule[];
+  lumpSums: LumpSum[];
+}
+
+// A point where the contribution schedule changes, for chart annotations
+export interface ContributionEvent {
+  month: number;
+  type: ContributionRuleType | 'resume' | 'lump-sum';
+  label: string; // The lump sum's label; empty for rules
+  amount: number; // Lump sum, new monthly amount, or % for a step-up
+}
+
+// Bundled historical return series a benchmark can follow
+export type HistoricalSeriesId = 'sp500';
+
+export interface Benchmark {
+  id: string;
+  name: string;
+  color: string; // Chart colour, as a hex string
+  annualRate: number; // Annual return %, used when there's no series
+  series: HistoricalSeriesId | null; // Replay this series' yearly returns instead
+  startYear: number; // First year of the series replayed
+}
+
+export interface MonthData {
+  month: number;
+  year: number;
+  balance: number;
+  contributions: number;
+  gains: number;
+  inflationAdjusted: number;
+  benchmarks: Record<string, number>; // Same contributions in each benchmark, keyed by benchmark id
+  dividendIncome: number; // Dividends received this month, after tax
+  dividends: number; // Dividends received to date, after tax (reinvested or paid out)
+  fees: number; // Fees paid to date
+  balanceBeforeFees: number; // What the balance would be with no fees
+}
+
+export interface DividendSettings {
+  dividendYield: number; // Share of the annual return paid as dividends, as a percentage
+  reinvest: boolean; // DRIP: buy more shares instead of taking the cash
+  taxRate: number; // Tax on dividends as they're paid, as a percentage
+}
+
+// Historical CPI series bundled with the library
+export type CpiSeriesId = 'us' | 'au';
+
+export interface InflationSettings {
+  rate: number; // Annual %, used when there's no series
+  series: CpiSeriesId | null; // Replay historical CPI instead of a fixed rate
+  startYear: number; // Calendar year the series is replayed from
+}
+
+export type CurrencyCode = 'AUD' | 'USD' | 'GBP' | 'EUR';
+
+export interface CurrencySettings {
+  currency: CurrencyCode; // Currency amounts are entered and invested in
+  displayCurrency: CurrencyCode; // Currency results are shown in, converted at fxRates
+  locale: string; // BCP 47 tag for number formatting, such as en-AU
+  fxRates: Record<CurrencyCode, number>; // Units of each currency per US dollar
+}
+
+export interface FeeSettings {
+  expenseRatio: number; // Fund expense ratio, % of the balance a year
+  advisorFee: number; // Advice or managed-account fee, % of the balance a year
+  platformFee: number; // Flat platform or account-keeping fee, dollars a year
+  transactionFee: number; // Brokerage per contribution, dollars
+}
+
+export interface InvestmentMetrics {
+  finalBalance: number;
+  totalContributions: number;
+  totalGains: number;
+  inflationAdjustedValue: number;
+  monthlyIncome: number; // First-year income under the withdrawal strategy
+  yearsTo1M: number;
+  yearsTo2M: number;
+  yearsTo5M: number;
+  vsBenchmarks: Record<string, number>; // Final balance less each benchmark's, keyed by benchmark id
+  totalFees: number; // Fees paid over the whole plan
+  feeImpact: number; // Final balance lost to fees, including the growth the fees would have earned
+  requiredRate: number | null; // Growth rate (%) that reaches the target income; null without a goal or when out of reach
+  withdrawalSustainability: number; // Years the inflation-indexed first-year income lasts, capped at 100
+  pensionIncome: number; // Government pension a month in the first year of retirement, after means-testing
+}
+
+// The one goal input left for the solver to find
+export type GoalUnknown = 'initialInvestment' | 'monthlyContribution' | 'years' | 'annualRate';
+
+export interface GoalInputs {
+  targetBalance: number;
+  initialInvestment: number;
+  monthlyContribution: number; // Before the contribution plan is applied
+  contributionPlan: ContributionPlan;
+  contributionIndexation: AnnualRate; // Annual % the contribution rises by, e.g. inflation; 0 for none
+  years: number;
+  annualRate: AnnualRate; // Growth rate the balance compounds at, after percentage fees
+  fees: FeeSettings; // Only the flat-dollar fees are applied; percentage fees are in annualRate
+  timeline?: LifeTimeline; // Life events that change the contributions
+}
+
+export interface GoalSolution {
+  unknown: GoalUnknown;
+  value: number | null; // Dollars, years or annual %; null when the goal can't be reached
+  unreachableReason: string | null;
+}
+
+export interface DrawdownMonth {
+  month: number; // Months since retirement started
+  year: number;
+  balance: number;
+  withdrawal: number;
+  totalWithdrawn: number;
+}
+
+export interface DrawdownResult {
+  months: DrawdownMonth[];
+  depletedAtMonth: number | null; // null when the money outlasts the simulation
+  endingBalance: number;
+  totalWithdrawn: number;
+}
+
+export type WithdrawalStrategyId = 'fixed-percentage' | 'constant-dollar' | 'guardrails' | 'vpw' | 'rmd';
+
+// none: paid in full; au-assets: reduced by the Australian Age Pension assets test
+export type PensionMeansTest = 'none' | 'au-assets';
+
+// Government pension, such as Social Security or the Age Pension
+export interface PensionSettings {
+  enabled: boolean;
+  startAge: number;
+  monthlyAmount: number; // Full pension a month in today's dollars, rising with inflation
+  meansTest: PensionMeansTest;
+  couple: boolean; // Couple thresholds, with monthlyAmount the combined pension
+  homeowner: boolean; // Homeowners have lower asset thresholds
+  otherAssets: number; // Assessable assets outside the portfolio, in today's dollars
+}
+
+export interface WithdrawalPlan {
+  strategy: WithdrawalStrategyId;
+  withdrawalRate: number; // Initial withdrawal rate %, used by the rate-based strategies
+  years: number; // Length of retirement
+  retirementAge: number;
+  inflationRate: number;
+  pension?: PensionSettings; // Paid on top of the portfolio withdrawals
+  priceLevel?: number; // Prices at retirement relative to today, for the pension's today's-dollar amounts
+}
+
+export interface IncomeYear {
+  year: number; // Year of retirement, starting at 1
+  age: number;
+  income: number;
+  pension: number; // Government pension for the year, after means-testing
+  withdrawalRate: number; // Income as a % of the balance at the start of the year
+  startBalance: number;
+  endBalance: number;
+}
+
+export type AccountType = 'taxable' | 'traditional' | 'roth' | 'super';
+
+export interface AccountSettings {
+  type: AccountType;
+  annualContributionCap: number; // Member contributions per year, 0 = no cap
+  employerMatchRate: number; // % of member contributions matched
+  employerMatchCap: number; // Employer contributions per year, 0 = no cap
+  contributionTaxRate: number; // % taken from contributions on the way in
+  earningsTaxRate: number; // % of investment earnings taxed inside the account
+  withdrawalTaxRate: number; // % tax when money comes out
+}
+
+export interface AccountMonth {
+  month: number;
+  year: number;
+  preTaxBalance: number;
+  afterTaxBalance: number; // Balance left if fully withdrawn this month
+  memberContributions: number;
+  employerContributions: number;
+  taxesPaid: number; // Contributions and earnings tax paid so far
+}
+
+export interface PortfolioAccount {
+  id: string;
+  name: string;
+  initialInvestment: number;
+  monthlyContribution: number;
+  contributionPlan?: ContributionPlan; // Raises, pauses and lump sums on top of monthlyContribution
+  annualRate: number;
+  years: number;
+}
+
+export interface PortfolioMonth {
+  month: number;
+  year: number;
+  total: number;
+  contributions: number;
+  balances: Record<string, number>; // Keyed by account id; missing once an account has ended
+}
+
+export interface PortfolioAccountSummary {
+  id: string;
+  name: string;
+  finalBalance: number;
+  totalContributions: number;
+  endMonth: number;
+}
+
+export interface PortfolioProjection {
+  months: PortfolioMonth[];
+  accounts: PortfolioAccountSummary[];
+}
+
+export type AssetClass = 'stocks' | 'bonds' | 'cash';
+
+export type Allocation = Record<AssetClass, number>; // Percentages, normalized to 100
+
+export interface AssetAssumption {
+  expectedReturn: number; // Annual %
+  volatility: number; // Annual standard deviation %
+}
+
+export interface AllocationPlan {
+  assumptions: Record<AssetClass, AssetAssumption>;
+  start: Allocation;
+  end: Allocation; // Only used with a glide path
+  glidePath: boolean;
+}
+
+export interface BacktestPath {
+  startYear: number;
+  endYear: number;
+  finalBalance: number;
+  balances: number[]; // Month-end balances, aligned with MonthData.month - 1
+}
+
+export interface BacktestSummary {
+  windowCount: number;
+  best: BacktestPath;
+  median: BacktestPath;
+  worst: BacktestPath;
+}
+
+// A market crash injected into a plan, followed by a recovery back to the smooth path
+export interface MarketShock {
+  id: string;
+  phase: 'accumulation' | 'retirement'; // Which part of the plan the year counts from
+  year: number; // Year of the crash within its phase, counting from 1
+  drop: number; // % fall in that year, e.g. 35 for -35%
+  recoveryYears: number; // Years to climb back to the smooth path; 0 = the loss is permanent
+}
+
+// One order of annual returns run through saving and then retirement
+export interface SequencePath {
+  annualReturns: number[]; // % for each plan year, saving years first
+  balances: number[]; // Year-end balances, starting with the initial investment at year 0
+  withdrawals: number[]; // Amount withdrawn in each plan year; 0 while saving
+  retirementBalance: number; // Balance when saving stops
+  endingBalance: number; // Balance at the end of retirement
+  depletedYear: number | null; // Retirement year the money ran out, null when it lasts
+  totalWithdrawn: number;
+}
+
+export interface HistoricalSequences {
+  startYear: number;
+  endYear: number;
+  averageReturn: number; // Compound average of the window, %
+  smooth: SequencePath; // The average every year: the same returns with no sequence
+  actual: SequencePath;
+  reversed: SequencePath;
+  shuffled: { worst: SequencePath; median: SequencePath; best: SequencePath };
+  shuffleCount: number;
+}
+
+export interface SequenceRiskResult {
+  accumulationYears: number;
+  retirementYears: number;
+  smooth: SequencePath; // The plan's own returns
+  shocked: SequencePath | null; // The plan's returns with the market shocks; null without shocks
+  historical: HistoricalSequences | null; // null when the plan is longer than the history
+}
+
+export interface DcaSettings {
+  amount: number; // The windfall to invest
+  months: number; // Months the windfall is drip-fed over
+  holdYears: number; // Years from the first investment until the two approaches are compared
+  cashRate: number; // Annual % earned by money waiting to be invested
+}
+
+// One historical start date: a windfall invested at once, or in equal monthly parts
+export interface DcaPeriod {
+  startYear: number;
+  startMonth: number; // 1 = January
+  lumpSum: number; // Balance at the end of the holding period
+  dca: number;
+  difference: number; // % lump sum finished ahead of DCA; negative when DCA won
+}
+
+export interface DcaComparison {
+  periods: DcaPeriod[];
+  lumpSumWinRate: number; // % of periods where investing at once finished ahead
+  dcaWinRate: number;
+  averageLumpSumMargin: number; // Average % lead when investing at once won
+  averageDcaMargin: number; // Average % lead when DCA won
+  averageLumpSumLead: number; // Average dollar lead (lump sum less DCA, at the end) when investing at once won
+  averageDcaLead: number; // Average dollar lead (DCA less lump sum) when DCA won
+  medianDifference: number; // % across every period, positive favours lump sum
+  best: DcaPeriod; // Period lump sum won by the most
+  worst: DcaPeriod; // Period DCA won by the most
+}
+
+export interface LoanSettings {
+  balance: number; // Amount still owed
+  rate: number; // Annual interest rate, %
+  termYears: number; // Years left to repay
+  extraPayment: number; // Spare cash each month, on top of the scheduled repayment
+  taxRate: number; // % of investment returns lost to tax
+}
+
+// Net worth (investments less the loan) at the end of a year under each strategy
+export interface DebtPayoffYear {
+  year: number; // Fractional for the end of a term that stops part way through a year
+  prepayLoan: number; // Loan left when the spare cash goes to the loan
+  prepayInvestments: number;
+  prepayNetWorth: number;
+  investLoan: number; // Loan left when the spare cash is invested
+  investInvestments: number;
+  investNetWorth: number;
+}
+
+export interface DebtPayoffComparison {
+  monthlyPayment: number; // Scheduled repayment
+  payoffMonths: number; // Months to clear the loan when prepaying
+  interestSaved: number; // Interest avoided by prepaying
+  years: DebtPayoffYear[]; // Year 0 is today; the last year is the end of the original term
+  prepayNetWorth: number; // At the end of the original term
+  investNetWorth: number;
+  breakEvenRate: number; // Annual return at which both strategies finish level, %
+}
+
+export type LifeEventType = 'withdrawal' | 'expense' | 'sabbatical' | 'part-time';
+
+// Something planned for a stretch of calendar years that changes what goes in or comes out
+export interface LifeEvent {
+  id: string;
+  type: LifeEventType;
+  label: string;
+  startYear: number; // Calendar year
+  endYear: number; // Calendar year, inclusive; a withdrawal only happens in its start year
+  amount: number; // Dollars for a withdrawal, dollars a year for an expense, % of the usual contribution kept part-time
+}
+
+// Where the plan sits in the calendar and in the investor's life
+export interface LifeTimeline {
+  startDate: string; // YYYY-MM the plan starts
+  birthYear: number | null; // null when no age is given
+  events: LifeEvent[];
+}
+
+export interface HistoryEntry {
+  date: string; // YYYY-MM-DD
+  balance: number;
+  contribution: number; // Paid in since the previous entry
+}
+
+export interface HistoryParseError {
+  row: number; // Line number in the file, 1 = header
+  message: string;
+}
+
+export interface HistoryParseResult {
+  entries: HistoryEntry[]; // Valid rows, oldest first
+  errors: HistoryParseError[];
+}
+
+export interface HistoryPoint {
+  month: number; // Months since the first entry
+  date: string;
+  actual: number;
+  planned: number;
+  contributions: number; // Actual contributions to date
+  plannedContributions: number;
+}
+
+export interface PlanTracking {
+  start: string; // Date of the first entry, where the plan starts
+  points: HistoryPoint[];
+  latest: HistoryPoint;
+  difference: number; // Latest actual balance less the planned balance
+  status: 'ahead' | 'behind' | 'on-track';
+  plannedFinalBalance: number;
+  reprojectedFinalBalance: number;
+  plan: MonthData[]; // The plan projected from the first entry
+  reprojection: MonthData[]; // From the latest real balance to the end of the plan
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PENSION_SETTINGS } from './pension';
+import {
+  DEFAULT_WITHDRAWAL_PLAN,
+  WITHDRAWAL_STRATEGIES,
+  calculateIncomeSchedule,
+  calculateTargetBalance
+} from './withdrawalStrategies';
+import type { WithdrawalPlan } from './types';
+
+const plan = (changes: Partial<WithdrawalPlan>): WithdrawalPlan => ({ ...DEFAULT_WITHDRAWAL_PLAN, ...changes });
+
+describe('calculateTargetBalance', () => {
+  it('follows the 4% rule by default', () => {
+    expect(calculateTargetBalance(4000, 7, DEFAULT_WITHDRAWAL_PLAN)).toBe(1200000);
+  });
+
+  it('needs no balance without a positive withdrawal rate', () => {
+    expect(calculateTargetBalance(4000, 7, plan({ withdrawalRate: 0 }))).toBe(0);
+  });
+
+  it('only funds the gap a pension leaves from retirement', () => {
+    const pension = { ...DEFAULT_PENSION_SETTINGS, enabled: true, startAge: 65, monthlyAmount: 2000 };
+    expect(calculateTargetBalance(4000, 7, plan({ pension }))).toBeCloseTo(600000, 6);
+  });
+
+  it('ignores a pension that starts after retirement', () => {
+    const pension = { ...DEFAULT_PENSION_SETTINGS, enabled: true, startAge: 67, monthlyAmount: 2000 };
+    expect(calculateTargetBalance(4000, 7, plan({ pension }))).toBe(1200000);
+  });
+});
+
+describe('RMD strategy', () => {
+  it('uses the whole year of a part-year age', () => {
+    const rmd = WITHDRAWAL_STRATEGIES.rmd;
+    expect(rmd.initialRate(plan({ strategy: 'rmd', retirementAge: 72.5 }), 7)).toBe(rmd.initialRate(plan({ strategy: 'rmd', retirementAge: 72 }), 7));
+    expect(rmd.initialRate(plan({ strategy: 'rmd', retirementAge: 72 }), 7)).toBeCloseTo(100 / 27.4, 10);
+  });
+
+  it('stays on the last divisor past the end of the table', () => {
+    const rmd = WITHDRAWAL_STRATEGIES.rmd;
+    expect(rmd.initialRate(plan({ strategy: 'rmd', retirementAge: 130 }), 7)).toBeCloseTo(50, 10);
+  });
+});
+
+describe('calculateIncomeSchedule', () => {
+  it('raises constant-dollar income with inflation', () => {
+    const schedule = calculateIncomeSchedule(1000000, 7, plan({ years: 3, inflationRate: 3 }));
+    expect(schedule.map((y) => y.income)).toEqual([40000, 41200, 42436]);
+  });
+
+  it('spends a VPW balance down over the retirement', () => {
+    const schedule = calculateIncomeSchedule(1000000, 5, plan({ strategy: 'vpw', years: 20 }));
+    expect(schedule).toHaveLength(20);
+    expect(schedule[schedule.length - 1].endBalance).toBeLessThan(10000); // Under 1% left
+  });
+
+  it('never withdraws more than is left', () => {
+    const schedule = calculateIncomeSchedule(100000, -20, plan({ withdrawalRate: 20, years: 10 }));
+    expect(schedule.every((y) => y.income <= y.startBalance && y.endBalance >= 0)).toBe(true);
+  });
+
+  it('produces finite income for every strategy at a part-year age', () => {
+    for (const strategy of Object.keys(WITHDRAWAL_STRATEGIES) as WithdrawalPlan['strategy'][]) {
+      const schedule = calculateIncomeSchedule(500000, 6, plan({ strategy, retirementAge: 72.5, years: 5 }));
+      expect(schedule.every((y) => Number.isFinite(y.income))).toBe(true);
+    }
+  });
+});
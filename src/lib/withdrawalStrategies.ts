@@ -0,0 +1,182 @@
+import { INFLATION_RATE } from './constants';
+import { balanceForIncome, pensionForAge } from './pension';
+import type { IncomeYear, WithdrawalPlan, WithdrawalStrategyId } from './types';
+
+export interface WithdrawalStrategy {
+  id: WithdrawalStrategyId;
+  label: string;
+  description: string;
+  // Share of the starting balance taken in the first year, as a percentage
+  initialRate: (plan: WithdrawalPlan, annualRate: number) => number;
+  // Income for any later year, given the balance at the start of that year
+  nextIncome: (
+    current: { balance: number; year: number; age: number; previousIncome: number },
+    plan: WithdrawalPlan,
+    annualRate: number
+  ) => number;
+}
+
+export const DEFAULT_WITHDRAWAL_PLAN: WithdrawalPlan = {
+  strategy: 'constant-dollar',
+  withdrawalRate: 4,
+  years: 30,
+  retirementAge: 65,
+  inflationRate: INFLATION_RATE
+};
+
+// IRS Uniform Lifetime Table (2022) distribution periods, indexed from age 72
+const RMD_FIRST_AGE = 72;
+const RMD_DIVISORS = [
+  27.4, 26.5, 25.5, 24.6, 23.7, 22.9, 22.0, 21.1, 20.2, 19.4,
+  18.5, 17.7, 16.8, 16.0, 15.2, 14.4, 13.7, 12.9, 12.2, 11.5,
+  10.8, 10.1, 9.5, 8.9, 8.4, 7.8, 7.3, 6.8, 6.4, 6.0,
+  5.6, 5.2, 4.9, 4.6, 4.3, 4.1, 3.9, 3.7, 3.5, 3.4,
+  3.3, 3.1, 3.0, 2.9, 2.8, 2.7, 2.5, 2.3, 2.0
+];
+
+/**
+ * Distribution period for an age under the Uniform Lifetime Table
+ * The table is by whole years of age, so part years are dropped.
+ * Before 72 the table is extended by 0.9 years per year of age, matching its slope there
+ */
+const rmdDivisor = (age: number): number => {
+  const wholeAge = Math.floor(age);
+  if (wholeAge < RMD_FIRST_AGE) return RMD_DIVISORS[0] + (RMD_FIRST_AGE - wholeAge) * 0.9;
+  return RMD_DIVISORS[Math.min(wholeAge - RMD_FIRST_AGE, RMD_DIVISORS.length - 1)];
+};
+
+/**
+ * Payment that spends 1 down to zero over n years at rate r (annual, decimal)
+ * Formula: r / (1 - (1 + r)^-n), which is 1 / n at 0%
+ */
+const amortizationRate = (rate: number, years: number): number => {
+  if (years <= 1) return 1;
+  if (rate === 0) return 1 / years;
+  return rate / (1 - Math.pow(1 + rate, -years));
+};
+
+/**
+ * VPW assumes a real (after-inflation) return, so the withdrawal keeps pace with prices
+ */
+const vpwRate = (plan: WithdrawalPlan, annualRate: number, yearsLeft: number): number => {
+  const realReturn = (1 + annualRate / 100) / (1 + plan.inflationRate / 100) - 1;
+  return amortizationRate(realReturn, yearsLeft);
+};
+
+// Guyton-Klinger guardrails: adjust income by 10% when the current rate drifts 20% from the initial rate
+const GUARDRAIL_BAND = 0.2;
+const GUARDRAIL_ADJUSTMENT = 0.1;
+
+export const WITHDRAWAL_STRATEGIES: Record<WithdrawalStrategyId, WithdrawalStrategy> = {
+  'fixed-percentage': {
+    id: 'fixed-percentage',
+    label: 'Fixed Percentage',
+    description: 'Withdraw the same percentage of the balance every year',
+    initialRate: (plan) => plan.withdrawalRate,
+    nextIncome: ({ balance }, plan) => balance * plan.withdrawalRate / 100
+  },
+  'constant-dollar': {
+    id: 'constant-dollar',
+    label: 'Constant Dollar',
+    description: 'Classic 4% rule: first-year income raised with inflation every year',
+    initialRate: (plan) => plan.withdrawalRate,
+    nextIncome: ({ previousIncome }, plan) => previousIncome * (1 + plan.inflationRate / 100)
+  },
+  guardrails: {
+    id: 'guardrails',
+    label: 'Guyton-Klinger Guardrails',
+    description: 'Inflation raises, with 10% cuts or boosts when the withdrawal rate leaves its guardrails',
+    initialRate: (plan) => plan.withdrawalRate,
+    nextIncome: ({ balance, previousIncome }, plan) => {
+      const proposed = previousIncome * (1 + plan.inflationRate / 100);
+      const currentRate = (proposed / balance) * 100;
+      if (currentRate > plan.withdrawalRate * (1 + GUARDRAIL_BAND)) {
+        return proposed * (1 - GUARDRAIL_ADJUSTMENT); // Capital preservation rule
+      }
+      if (currentRate < plan.withdrawalRate * (1 - GUARDRAIL_BAND)) {
+        return proposed * (1 + GUARDRAIL_ADJUSTMENT); // Prosperity rule
+      }
+      return proposed;
+    }
+  },
+  vpw: {
+    id: 'vpw',
+    label: 'Variable Percentage (VPW)',
+    description: 'Amortize the balance over the remaining retirement years',
+    initialRate: (plan, annualRate) => vpwRate(plan, annualRate, plan.years) * 100,
+    nextIncome: ({ balance, year }, plan, annualRate) =>
+      balance * vpwRate(plan, annualRate, plan.years - year)
+  },
+  rmd: {
+    id: 'rmd',
+    label: 'RMD (Age-Based)',
+    description: 'Divide the balance by the IRS life expectancy factor for your age',
+    initialRate: (plan) => 100 / rmdDivisor(plan.retirementAge),
+    nextIncome: ({ balance, age }) => balance / rmdDivisor(age)
+  }
+};
+
+/**
+ * Balance needed at retirement to fund a target monthly income in year one
+ * Replaces the fixed 4% rule (income × 12 / 0.04) with the chosen strategy's first-year rate.
+ * A pension paid from the first year of retirement leaves only the gap for the portfolio;
+ * one that starts later doesn't count, as the portfolio has to carry the full income until then.
+ */
+export const calculateTargetBalance = (
+  targetMonthlyIncome: number,
+  annualRate: number,
+  plan: WithdrawalPlan = DEFAULT_WITHDRAWAL_PLAN
+): number => {
+  const initialRate = WITHDRAWAL_STRATEGIES[plan.strategy].initialRate(plan, annualRate);
+  if (initialRate <= 0) return 0;
+  if (plan.pension?.enabled && plan.pension.startAge <= plan.retirementAge) {
+    return balanceForIncome(targetMonthlyIncome, initialRate, plan.pension, plan.retirementAge, plan.priceLevel);
+  }
+  return (targetMonthlyIncome * 12) / (initialRate / 100);
+};
+
+/**
+ * Builds a year-by-year retirement income schedule for a withdrawal strategy
+ * Each year's income is set at the start of the year and taken in 12 equal
+ * monthly withdrawals while the remainder compounds at annualRate.
+ * Any pension is paid alongside, means-tested on the balance at the start of each year.
+ */
+export const calculateIncomeSchedule = (
+  startBalance: number,
+  annualRate: number,
+  plan: WithdrawalPlan = DEFAULT_WITHDRAWAL_PLAN
+): IncomeYear[] => {
+  const strategy = WITHDRAWAL_STRATEGIES[plan.strategy];
+  const monthlyRate = annualRate / 100 / 12;
+  const schedule: IncomeYear[] = [];
+  let balance = startBalance;
+  let previousIncome = 0;
+
+  for (let year = 0; year < plan.years; year++) {
+    const age = plan.retirementAge + year;
+    const planned = year === 0
+      ? balance * strategy.initialRate(plan, annualRate) / 100
+      : strategy.nextIncome({ balance, year, age, previousIncome }, plan, annualRate);
+    const income = Math.max(0, Math.min(planned, balance));
+    const yearStartBalance = balance;
+    const priceLevel = (plan.priceLevel ?? 1) * Math.pow(1 + plan.inflationRate / 100, year);
+    const pension = plan.pension ? pensionForAge(plan.pension, age, yearStartBalance, priceLevel) * 12 : 0;
+
+    for (let month = 0; month < 12; month++) {
+      balance = Math.max(0, balance - income / 12) * (1 + monthlyRate);
+    }
+
+    schedule.push({
+      year: year + 1,
+      age,
+      income: Math.round(income),
+      pension: Math.round(pension),
+      withdrawalRate: yearStartBalance > 0 ? (income / yearStartBalance) * 100 : 0,
+      startBalance: Math.round(yearStartBalance),
+      endBalance: Math.round(balance)
+    });
+    previousIncome = planned;
+  }
+
+  return schedule;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createXlsx } from './xlsx';
+
+// Parts are stored uncompressed, so the XML can be read straight out of the archive
+const readArchive = (data: Uint8Array): string => new TextDecoder().decode(data);
+
+describe('createXlsx', () => {
+  it('writes a zip archive with a worksheet per sheet', () => {
+    const xlsx = createXlsx([{ name: 'One', rows: [[1]] }, { name: 'Two', rows: [[2]] }]);
+    const text = readArchive(xlsx);
+    expect(Array.from(xlsx.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('xl/worksheets/sheet2.xml');
+    expect(text).toContain('<sheet name="Two"');
+  });
+
+  it('writes numbers as values and escapes text', () => {
+    const text = readArchive(createXlsx([{ name: 'Data', rows: [['<a & "b">', 1.5]] }]));
+    expect(text).toContain('<c r="A1" t="inlineStr"><is><t xml:space="preserve">&lt;a &amp; &quot;b&quot;&gt;</t></is></c>');
+    expect(text).toContain('<c r="B1"><v>1.5</v></c>');
+  });
+
+  it('leaves empty, null and non-finite cells out', () => {
+    const text = readArchive(createXlsx([{ name: 'Data', rows: [[null, '', Infinity, 3]] }]));
+    expect(text).toContain('<row r="1"><c r="D1"><v>3</v></c></row>');
+  });
+
+  it('names columns past Z with two letters', () => {
+    const text = readArchive(createXlsx([{ name: 'Wide', rows: [Array.from({ length: 28 }, (_, i) => i)] }]));
+    expect(text).toContain('<c r="AB1"><v>27</v></c>');
+  });
+
+  it('cleans sheet names Excel would reject', () => {
+    const text = readArchive(createXlsx([{ name: 'Q1/Q2: [draft]', rows: [] }]));
+    expect(text).toContain('<sheet name="Q1 Q2   draft "');
+  });
+});
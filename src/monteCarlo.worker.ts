@@ -0,0 +1,8 @@
+import { runMonteCarlo, type MonteCarloConfig } from './lib';
+
+// Runs simulations off the main thread; each request is answered with its id
+// so the UI can ignore results superseded by newer inputs
+self.onmessage = (event: MessageEvent<{ id: number; config: MonteCarloConfig }>) => {
+  const { id, config } = event.data;
+  self.postMessage({ id, result: runMonteCarlo(config) });
+};
@@ -0,0 +1,52 @@
+import { validateCalculatorState, type CalculatorState } from './calculatorState';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  state: CalculatorState;
+}
+
+const STORAGE_KEY = 'snp-500-interest-calculator:scenarios';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads saved scenarios from localStorage
+ * Storage is user-editable, so every entry is validated: malformed entries are dropped
+ * and invalid fields fall back to their defaults, the same way shared links are read
+ */
+export const loadScenarios = (): SavedScenario[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap((entry): SavedScenario[] => {
+      if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !isRecord(entry.state)) {
+        return [];
+      }
+      return [{
+        id: entry.id,
+        name: entry.name,
+        savedAt: typeof entry.savedAt === 'string' ? entry.savedAt : new Date(0).toISOString(),
+        state: validateCalculatorState(entry.state).state
+      }];
+    });
+  } catch {
+    return []; // Unreadable storage (corrupt JSON, storage disabled) starts empty
+  }
+};
+
+/**
+ * Writes saved scenarios to localStorage
+ * Returns false when the browser refuses (private mode, quota exceeded)
+ */
+export const storeScenarios = (scenarios: SavedScenario[]): boolean => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+    return true;
+  } catch {
+    return false;
+  }
+};